@@ -0,0 +1,29 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { TaskEvent } from '@/types/activity';
+import { Workflow } from '@/types/task';
+import { ActivityTimeline } from './ActivityTimeline';
+
+interface ActivityFeedProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boardName: string;
+  events: TaskEvent[];
+  workflow: Workflow;
+}
+
+export function ActivityFeed({ isOpen, onClose, boardName, events, workflow }: ActivityFeedProps) {
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Activity</SheetTitle>
+          <SheetDescription>Everything that happened on {boardName}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 -mr-4 pr-4">
+          <ActivityTimeline events={events} workflow={workflow} showTaskTitle />
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,60 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import { Archive, ArchiveRestore, ArrowRightLeft, Bell, Pencil, Plus, RotateCcw, Trash2, XCircle } from 'lucide-react';
+import { TaskEvent, TaskEventType } from '@/types/activity';
+import { Workflow } from '@/types/task';
+import { describeEvent } from '@/utils/activity';
+
+interface ActivityTimelineProps {
+  events: TaskEvent[];
+  workflow: Workflow;
+  showTaskTitle?: boolean;
+  emptyMessage?: string;
+}
+
+const EVENT_ICONS: Record<TaskEventType, typeof Plus> = {
+  'created': Plus,
+  'status-changed': ArrowRightLeft,
+  'field-edited': Pencil,
+  'reminder-fired': Bell,
+  'deleted': Trash2,
+  'restored': RotateCcw,
+  'purged': XCircle,
+  'archived': Archive,
+  'unarchived': ArchiveRestore,
+};
+
+// Newest first; used by both the edit modal and the board-wide feed
+export function ActivityTimeline({ events, workflow, showTaskTitle = false, emptyMessage = 'No activity yet' }: ActivityTimelineProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4 text-center">{emptyMessage}</p>;
+  }
+
+  const sorted = [...events].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-3">
+      {sorted.map(event => {
+        const Icon = EVENT_ICONS[event.type] ?? Pencil;
+        return (
+          <li key={event.id} className="ml-4">
+            <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-muted ring-2 ring-background">
+              <Icon className="h-3 w-3 text-muted-foreground" />
+            </span>
+            <div className="text-sm">
+              {showTaskTitle && <span className="font-medium">{event.taskTitle}: </span>}
+              <span>{describeEvent(event, workflow)}</span>
+              {event.actor && <span className="text-muted-foreground"> by {event.actor}</span>}
+            </div>
+            <time
+              dateTime={event.timestamp.toISOString()}
+              title={format(event.timestamp, 'PPpp')}
+              className="text-xs text-muted-foreground"
+            >
+              {formatDistanceToNow(event.timestamp, { addSuffix: true })}
+            </time>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
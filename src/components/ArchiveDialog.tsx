@@ -0,0 +1,147 @@
+import { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive, ArchiveRestore, Search } from 'lucide-react';
+import { format } from 'date-fns';
+import { Task, Workflow } from '@/types/task';
+import {
+  ARCHIVE_AGE_OPTIONS,
+  ArchiveSettings,
+  formatArchiveAge,
+  getCompletedAt,
+  groupByCompletionMonth,
+} from '@/utils/archive';
+import { getColumnTitle } from '@/utils/workflow';
+
+interface ArchiveDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tasks: Task[];
+  workflow: Workflow;
+  archivableCount: number;
+  settings: ArchiveSettings;
+  onSettingsChange: (settings: ArchiveSettings) => void;
+  onArchiveDone: () => void;
+  onUnarchive: (taskId: string) => void;
+}
+
+export function ArchiveDialog({
+  isOpen,
+  onClose,
+  tasks,
+  workflow,
+  archivableCount,
+  settings,
+  onSettingsChange,
+  onArchiveDone,
+  onUnarchive,
+}: ArchiveDialogProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const groups = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    const matching = term
+      ? tasks.filter(task =>
+          task.title.toLowerCase().includes(term) || task.description.toLowerCase().includes(term)
+        )
+      : tasks;
+    return groupByCompletionMonth(matching);
+  }, [tasks, searchTerm]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Archive</DialogTitle>
+          <DialogDescription>
+            Archived tasks are off the board but still count towards statistics.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3 rounded-lg border p-3">
+          <Label htmlFor="archive-age" className="text-sm whitespace-nowrap">Done tasks older than</Label>
+          <Select
+            value={settings.afterDays.toString()}
+            onValueChange={(value) => onSettingsChange({ ...settings, afterDays: parseInt(value) })}
+          >
+            <SelectTrigger id="archive-age" className="w-[110px] h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ARCHIVE_AGE_OPTIONS.map(days => (
+                <SelectItem key={days} value={days.toString()}>
+                  {formatArchiveAge(days)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={onArchiveDone} disabled={archivableCount === 0}>
+            <Archive className="h-4 w-4 mr-1" />
+            Archive {archivableCount}
+          </Button>
+          <div className="flex items-center gap-2 sm:ml-auto">
+            <Switch
+              id="archive-auto"
+              checked={settings.autoArchive}
+              onCheckedChange={(checked) => onSettingsChange({ ...settings, autoArchive: checked })}
+            />
+            <Label htmlFor="archive-auto" className="text-sm">Archive automatically</Label>
+          </div>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search archived tasks..."
+            className="pl-9"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto -mx-2 px-2 space-y-4">
+          {groups.length === 0 && (
+            <div className="text-center py-12 text-muted-foreground text-sm">
+              <Archive className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              {tasks.length === 0 ? 'Nothing has been archived yet' : 'No archived tasks match your search'}
+            </div>
+          )}
+          {groups.map(group => (
+            <section key={group.label}>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">
+                {group.label} · {group.tasks.length}
+              </h3>
+              <ul className="divide-y">
+                {group.tasks.map(task => (
+                  <li key={task.id} className="flex items-center gap-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{task.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {getColumnTitle(workflow, task.status)} · completed {format(getCompletedAt(task), 'PP')}
+                        {task.archivedAt && ` · archived ${format(task.archivedAt, 'PP')}`}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={() => onUnarchive(task.id)}>
+                      <ArchiveRestore className="h-4 w-4 mr-1" />
+                      Unarchive
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,43 @@
+import { cn } from '@/lib/utils';
+import { Person } from '@/types/person';
+import { PersonAvatar } from './PersonAvatar';
+
+interface AssigneePickerProps {
+  people: Person[];
+  selectedIds: string[];
+  onChange: (personIds: string[]) => void;
+}
+
+export function AssigneePicker({ people, selectedIds, onChange }: AssigneePickerProps) {
+  if (people.length === 0) {
+    return <p className="text-xs text-muted-foreground">Nobody in the people directory yet. Add people from the People button.</p>;
+  }
+
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {people.map(person => {
+        const isSelected = selectedIds.includes(person.id);
+        return (
+          <button
+            key={person.id}
+            type="button"
+            onClick={() => toggle(person.id)}
+            aria-pressed={isSelected}
+            className={cn(
+              'inline-flex items-center gap-1.5 rounded-full border py-0.5 pl-0.5 pr-2 text-xs font-medium transition-opacity',
+              'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+              isSelected ? 'border-primary bg-primary/10' : 'opacity-50 hover:opacity-80'
+            )}
+          >
+            <PersonAvatar person={person} className="h-5 w-5" />
+            <span className="max-w-[120px] truncate">{person.name}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Download, FileText, Paperclip, Trash2 } from 'lucide-react';
+import { TaskAttachment } from '@/types/attachment';
+import {
+  StorageEstimate,
+  downloadAttachment,
+  formatFileSize,
+  isImageAttachment,
+  isQuotaLow,
+} from '@/utils/attachments';
+
+interface AttachmentListProps {
+  attachments: TaskAttachment[];
+  storageEstimate?: StorageEstimate;
+  onAddFiles: (files: File[]) => void;
+  onRemove: (attachmentId: string) => void;
+}
+
+// Object URLs for image thumbnails, released when the list changes or unmounts
+function useThumbnailUrls(attachments: TaskAttachment[]) {
+  const urls = useMemo(
+    () => new Map(attachments.filter(isImageAttachment).map(attachment => [attachment.id, URL.createObjectURL(attachment.blob)])),
+    [attachments]
+  );
+  useEffect(() => () => urls.forEach(url => URL.revokeObjectURL(url)), [urls]);
+  return urls;
+}
+
+export function AttachmentList({ attachments, storageEstimate, onAddFiles, onRemove }: AttachmentListProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingRemoval, setPendingRemoval] = useState<TaskAttachment | null>(null);
+  const thumbnails = useThumbnailUrls(attachments);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) onAddFiles(files);
+    e.target.value = ''; // Allow picking the same file again
+  };
+
+  return (
+    <div className="space-y-2">
+      {attachments.length > 0 && (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {attachments.map(attachment => {
+            const thumbnail = thumbnails.get(attachment.id);
+            return (
+              <li key={attachment.id} className="flex items-center gap-2 rounded-md border p-1.5">
+                {thumbnail ? (
+                  <img src={thumbnail} alt="" className="h-10 w-10 shrink-0 rounded object-cover" />
+                ) : (
+                  <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded bg-muted">
+                    <FileText className="h-5 w-5 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate" title={attachment.name}>{attachment.name}</p>
+                  <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => downloadAttachment(attachment)}
+                  aria-label={`Download ${attachment.name}`}
+                >
+                  <Download className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+                  onClick={() => setPendingRemoval(attachment)}
+                  aria-label={`Delete ${attachment.name}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Paperclip className="h-3.5 w-3.5 mr-1" />
+          Attach files
+        </Button>
+        <span className="text-xs text-muted-foreground">or drop files onto this dialog</span>
+        <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFileChange} />
+      </div>
+
+      {isQuotaLow(storageEstimate) && (
+        <p className="flex items-center gap-1.5 text-xs text-orange-600 dark:text-orange-400">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          Storage is almost full: {formatFileSize(storageEstimate!.usage)} of {formatFileSize(storageEstimate!.quota)} used
+        </p>
+      )}
+
+      <AlertDialog open={!!pendingRemoval} onOpenChange={() => setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingRemoval?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Attachments are not kept in the trash, so this cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingRemoval) onRemove(pendingRemoval.id);
+                setPendingRemoval(null);
+              }}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
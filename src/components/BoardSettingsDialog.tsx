@@ -0,0 +1,74 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BoardSettings, EstimateUnit, WipMode } from '@/types/board';
+import { ESTIMATE_UNITS } from '@/utils/estimates';
+import { WIP_MODES } from '@/utils/wip';
+
+interface BoardSettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boardName: string;
+  settings: BoardSettings;
+  onChange: (updater: (prev: BoardSettings) => BoardSettings) => void;
+}
+
+export function BoardSettingsDialog({ isOpen, onClose, boardName, settings, onChange }: BoardSettingsDialogProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Board Settings</DialogTitle>
+          <DialogDescription>These settings only apply to "{boardName}".</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="estimate-unit">Estimate tasks in</Label>
+          <Select
+            value={settings.estimateUnit}
+            onValueChange={(value) => onChange(prev => ({ ...prev, estimateUnit: value as EstimateUnit }))}
+          >
+            <SelectTrigger id="estimate-unit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ESTIMATE_UNITS.map(unit => (
+                <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Existing estimates keep their numbers when you switch units.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="wip-mode">When a column is over its WIP limit</Label>
+          <Select
+            value={settings.wipMode}
+            onValueChange={(value) => onChange(prev => ({ ...prev, wipMode: value as WipMode }))}
+          >
+            <SelectTrigger id="wip-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WIP_MODES.map(mode => (
+                <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {WIP_MODES.find(mode => mode.value === settings.wipMode)?.description} Limits are set per column
+            under Manage Columns.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
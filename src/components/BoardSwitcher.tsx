@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import { format, isValid, parse } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookmarkPlus, Check, ChevronDown, Copy, LayoutDashboard, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Board } from '@/types/board';
+import { BoardTemplate } from '@/types/template';
+import { MAX_BOARD_NAME_LENGTH } from '@/utils/boardStorage';
+import { MAX_BOARD_TEMPLATE_NAME_LENGTH } from '@/utils/boardTemplates';
+
+interface BoardSwitcherProps {
+  boards: Board[];
+  currentBoard: Board;
+  onCreate: (name: string) => Board;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => Promise<Board | undefined>;
+  onDelete: (id: string) => void;
+  boardTemplates: BoardTemplate[];
+  onCreateFromTemplate: (name: string, template: BoardTemplate, startDate: Date) => Promise<Board>;
+  onSaveAsTemplate: (board: Board, name: string) => Promise<BoardTemplate>;
+  onDeleteTemplate: (id: string) => void;
+}
+
+type NameDialogMode = 'create' | 'rename' | 'save-template' | null;
+
+const BLANK_TEMPLATE = '__blank';
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+const NAME_DIALOG_TITLES: Record<Exclude<NameDialogMode, null>, string> = {
+  create: 'New Board',
+  rename: 'Rename Board',
+  'save-template': 'Save as Board Template',
+};
+
+export function BoardSwitcher({
+  boards,
+  currentBoard,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  boardTemplates,
+  onCreateFromTemplate,
+  onSaveAsTemplate,
+  onDeleteTemplate,
+}: BoardSwitcherProps) {
+  const navigate = useNavigate();
+  const [nameDialogMode, setNameDialogMode] = useState<NameDialogMode>(null);
+  const [boardName, setBoardName] = useState('');
+  const [templateId, setTemplateId] = useState(BLANK_TEMPLATE);
+  const [startDate, setStartDate] = useState('');
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [templateToDelete, setTemplateToDelete] = useState<BoardTemplate | null>(null);
+
+  const selectedTemplate = boardTemplates.find(template => template.id === templateId);
+  const parsedStartDate = parse(startDate, DATE_FORMAT, new Date());
+  const needsStartDate = nameDialogMode === 'create' && !!selectedTemplate?.tasks.some(task => task.due);
+  const canSubmit = !!boardName.trim() && (!needsStartDate || isValid(parsedStartDate));
+
+  const openNameDialog = (mode: NameDialogMode) => {
+    setBoardName(mode === 'rename' || mode === 'save-template' ? currentBoard.name : '');
+    setTemplateId(BLANK_TEMPLATE);
+    setStartDate(format(new Date(), DATE_FORMAT));
+    setNameDialogMode(mode);
+  };
+
+  const handleNameSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    try {
+      if (nameDialogMode === 'create') {
+        const board = selectedTemplate
+          ? await onCreateFromTemplate(boardName, selectedTemplate, isValid(parsedStartDate) ? parsedStartDate : new Date())
+          : onCreate(boardName);
+        navigate(`/board/${board.id}`);
+        toast.success(`Board "${board.name}" created`);
+      } else if (nameDialogMode === 'save-template') {
+        const template = await onSaveAsTemplate(currentBoard, boardName);
+        toast.success(`Saved "${template.name}" as a board template`);
+      } else {
+        onRename(currentBoard.id, boardName);
+        toast.success('Board renamed');
+      }
+      setNameDialogMode(null);
+    } catch (error) {
+      console.error('Board template error:', error);
+      toast.error(nameDialogMode === 'create' ? 'Failed to create board from template' : 'Failed to save board template');
+    }
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!templateToDelete) return;
+    onDeleteTemplate(templateToDelete.id);
+    if (templateId === templateToDelete.id) setTemplateId(BLANK_TEMPLATE);
+    toast.success(`Board template "${templateToDelete.name}" deleted`);
+    setTemplateToDelete(null);
+  };
+
+  const handleDuplicate = async () => {
+    try {
+      const copy = await onDuplicate(currentBoard.id);
+      if (copy) {
+        navigate(`/board/${copy.id}`);
+        toast.success(`Board duplicated as "${copy.name}"`);
+      }
+    } catch (error) {
+      console.error('Duplicate board error:', error);
+      toast.error('Failed to duplicate board');
+    }
+  };
+
+  const handleDelete = () => {
+    const nextBoard = boards.find(board => board.id !== currentBoard.id);
+    if (!nextBoard) return;
+    onDelete(currentBoard.id);
+    navigate(`/board/${nextBoard.id}`, { replace: true });
+    setShowDeleteDialog(false);
+    toast.success(`Board "${currentBoard.name}" deleted`);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className="gap-2 px-2 text-base sm:text-lg font-semibold max-w-[240px]">
+            <LayoutDashboard className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="truncate">{currentBoard.name}</span>
+            <ChevronDown className="h-4 w-4 shrink-0 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Boards</DropdownMenuLabel>
+          {boards.map(board => (
+            <DropdownMenuItem key={board.id} onSelect={() => navigate(`/board/${board.id}`)}>
+              <Check className={board.id === currentBoard.id ? 'h-4 w-4 mr-2' : 'h-4 w-4 mr-2 invisible'} />
+              <span className="truncate">{board.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => openNameDialog('create')}>
+            <Plus className="h-4 w-4 mr-2" />
+            New board
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => openNameDialog('rename')}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename board
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleDuplicate}>
+            <Copy className="h-4 w-4 mr-2" />
+            Duplicate board
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => openNameDialog('save-template')}>
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            Save as board template
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => setShowDeleteDialog(true)}
+            disabled={boards.length <= 1}
+            className="text-destructive focus:text-destructive"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete board
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={nameDialogMode !== null} onOpenChange={() => setNameDialogMode(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{nameDialogMode && NAME_DIALOG_TITLES[nameDialogMode]}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleNameSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="board-name">Name</Label>
+              <Input
+                id="board-name"
+                value={boardName}
+                onChange={(e) => setBoardName(e.target.value)}
+                placeholder={nameDialogMode === 'save-template' ? 'e.g. Product launch' : 'e.g. Website relaunch'}
+                maxLength={nameDialogMode === 'save-template' ? MAX_BOARD_TEMPLATE_NAME_LENGTH : MAX_BOARD_NAME_LENGTH}
+                autoFocus
+              />
+            </div>
+            {nameDialogMode === 'save-template' && (
+              <p className="text-sm text-muted-foreground">
+                The columns, labels and open tasks of this board are saved. Due dates are kept relative to the day
+                the board was created.
+              </p>
+            )}
+            {nameDialogMode === 'create' && (
+              <div className="space-y-2">
+                <Label htmlFor="board-template">Template</Label>
+                <div className="flex gap-2">
+                  <Select value={templateId} onValueChange={setTemplateId}>
+                    <SelectTrigger id="board-template">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={BLANK_TEMPLATE}>Blank board</SelectItem>
+                      {boardTemplates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedTemplate && !selectedTemplate.builtIn && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      className="shrink-0"
+                      onClick={() => setTemplateToDelete(selectedTemplate)}
+                      aria-label={`Delete template ${selectedTemplate.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                {selectedTemplate && (
+                  <p className="text-xs text-muted-foreground">
+                    {selectedTemplate.description && `${selectedTemplate.description} `}
+                    {selectedTemplate.workflow.columns.map(column => column.title).join(' → ')},{' '}
+                    {selectedTemplate.tasks.length} {selectedTemplate.tasks.length === 1 ? 'task' : 'tasks'}
+                  </p>
+                )}
+              </div>
+            )}
+            {needsStartDate && (
+              <div className="space-y-2">
+                <Label htmlFor="board-start-date">Start date</Label>
+                <Input
+                  id="board-start-date"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">Task due dates are counted from this day.</p>
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setNameDialogMode(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!canSubmit}>
+                {nameDialogMode === 'create' ? 'Create Board' : nameDialogMode === 'save-template' ? 'Save Template' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{currentBoard.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. This will permanently delete the board and all of its tasks.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground">
+              Delete Board
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={templateToDelete !== null} onOpenChange={(open) => !open && setTemplateToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete template "{templateToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Boards already created from it are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteTemplate} className="bg-destructive text-destructive-foreground">
+              Delete Template
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { ArrowDown, ArrowUp, Plus, SquareArrowOutUpRight, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ChecklistItem } from '@/types/task';
+import { MAX_CHECKLIST_ITEM_LENGTH, createChecklistItem, moveChecklistItem } from '@/utils/checklist';
+
+interface ChecklistEditorProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+  onConvertToTask?: (item: ChecklistItem) => void;
+}
+
+export function ChecklistEditor({ items, onChange, onConvertToTask }: ChecklistEditorProps) {
+  const [newItemText, setNewItemText] = useState('');
+  const doneCount = items.filter(item => item.done).length;
+
+  const updateItem = (id: string, changes: Partial<ChecklistItem>) => {
+    onChange(items.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const handleAdd = () => {
+    if (!newItemText.trim()) return;
+    onChange([...items, createChecklistItem(newItemText)]);
+    setNewItemText('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Progress value={(doneCount / items.length) * 100} className="h-2" />
+          <span className="text-xs text-muted-foreground shrink-0">{doneCount}/{items.length}</span>
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {items.map((item, index) => (
+          <li key={item.id} className="flex items-center gap-1">
+            <Checkbox
+              checked={item.done}
+              onCheckedChange={(checked) => updateItem(item.id, { done: checked === true })}
+              aria-label={item.done ? 'Uncheck item' : 'Check item'}
+              className="mr-1"
+            />
+            <Input
+              value={item.text}
+              onChange={(e) => updateItem(item.id, { text: e.target.value })}
+              onBlur={(e) => {
+                if (!e.target.value.trim()) {
+                  onChange(items.filter(i => i.id !== item.id));
+                }
+              }}
+              maxLength={MAX_CHECKLIST_ITEM_LENGTH}
+              className={cn('h-8 text-sm', item.done && 'line-through text-muted-foreground')}
+              aria-label="Checklist item"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              onClick={() => onChange(moveChecklistItem(items, item.id, -1))}
+              disabled={index === 0}
+              aria-label="Move item up"
+            >
+              <ArrowUp className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              onClick={() => onChange(moveChecklistItem(items, item.id, 1))}
+              disabled={index === items.length - 1}
+              aria-label="Move item down"
+            >
+              <ArrowDown className="h-3.5 w-3.5" />
+            </Button>
+            {onConvertToTask && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                onClick={() => onConvertToTask(item)}
+                title="Convert to task"
+              >
+                <SquareArrowOutUpRight className="h-3.5 w-3.5" />
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+              onClick={() => onChange(items.filter(i => i.id !== item.id))}
+              aria-label="Remove item"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter adds an item instead of submitting the surrounding form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Add an item..."
+          maxLength={MAX_CHECKLIST_ITEM_LENGTH}
+          className="h-8 text-sm"
+        />
+        <Button type="button" variant="outline" size="sm" onClick={handleAdd} disabled={!newItemText.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { ColumnColor } from '@/types/task';
+import { COLUMN_COLORS, COLUMN_COLOR_STYLES } from '@/utils/workflow';
+
+interface ColorPickerProps {
+  value: ColumnColor;
+  onChange: (color: ColumnColor) => void;
+  label?: string;
+}
+
+export function ColorPicker({ value, onChange, label = 'Color' }: ColorPickerProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="icon" className="h-9 w-9 shrink-0" aria-label={label}>
+          <span className={cn('h-4 w-4 rounded-full', COLUMN_COLOR_STYLES[value].swatch)} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-2" align="start">
+        <div className="grid grid-cols-4 gap-2">
+          {COLUMN_COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              aria-label={color}
+              onClick={() => onChange(color)}
+              className={cn(
+                'h-6 w-6 rounded-full transition-transform hover:scale-110',
+                COLUMN_COLOR_STYLES[color].swatch,
+                value === color && 'ring-2 ring-primary ring-offset-2 ring-offset-background'
+              )}
+            />
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowUp, ArrowDown, Trash2, Plus, CheckCircle2, Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ColorPicker } from './ColorPicker';
+import { ColumnColor, TaskStatus, Workflow, WorkflowColumn } from '@/types/task';
+import {
+  MAX_COLUMN_TITLE_LENGTH,
+  getColumnTitle,
+  getFallbackStatus,
+} from '@/utils/workflow';
+import { MAX_WIP_LIMIT, parseWipLimit } from '@/utils/wip';
+
+interface ColumnManagerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  workflow: Workflow;
+  taskCounts: Record<TaskStatus, number>;
+  onAddColumn: (title: string, color: ColumnColor) => void;
+  onUpdateColumn: (id: TaskStatus, changes: { title?: string; color?: ColumnColor; wipLimit?: number }) => void;
+  onMoveColumn: (id: TaskStatus, direction: -1 | 1) => void;
+  onRemoveColumn: (id: TaskStatus) => void;
+  onSetDoneColumn: (id: TaskStatus) => void;
+  onToggleTimerColumn: (id: TaskStatus) => void;
+}
+
+export function ColumnManagerDialog({
+  isOpen,
+  onClose,
+  workflow,
+  taskCounts,
+  onAddColumn,
+  onUpdateColumn,
+  onMoveColumn,
+  onRemoveColumn,
+  onSetDoneColumn,
+  onToggleTimerColumn,
+}: ColumnManagerDialogProps) {
+  const [newTitle, setNewTitle] = useState('');
+  const [newColor, setNewColor] = useState<ColumnColor>('blue');
+  const [pendingRemoval, setPendingRemoval] = useState<WorkflowColumn | null>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newTitle.trim()) {
+      onAddColumn(newTitle, newColor);
+      setNewTitle('');
+    }
+  };
+
+  const handleRemove = (column: WorkflowColumn) => {
+    if (taskCounts[column.id]) {
+      setPendingRemoval(column);
+    } else {
+      onRemoveColumn(column.id);
+    }
+  };
+
+  const fallbackTitle = pendingRemoval
+    ? getColumnTitle(workflow, getFallbackStatus(workflow, pendingRemoval.id) ?? '')
+    : undefined;
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Manage Columns</DialogTitle>
+            <DialogDescription>
+              Rename, recolor and reorder your workflow. The column marked as done counts as completed;
+              starting a timer moves a task ahead to the column marked with the timer. A WIP limit caps how
+              many tasks a column should hold.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {workflow.columns.map((column, index) => {
+              const isDone = column.id === workflow.doneColumnId;
+              const isTimerColumn = column.id === workflow.timerColumnId;
+              return (
+                <div key={column.id} className="flex items-center gap-2">
+                  <ColorPicker
+                    value={column.color}
+                    onChange={(color) => onUpdateColumn(column.id, { color })}
+                    label="Column color"
+                  />
+                  <Input
+                    value={column.title}
+                    onChange={(e) => onUpdateColumn(column.id, { title: e.target.value })}
+                    onBlur={(e) => {
+                      if (!e.target.value.trim()) {
+                        onUpdateColumn(column.id, { title: 'Untitled' });
+                      }
+                    }}
+                    maxLength={MAX_COLUMN_TITLE_LENGTH}
+                    aria-label="Column title"
+                  />
+                  <span className="text-xs text-muted-foreground w-6 text-center shrink-0">
+                    {taskCounts[column.id] ?? 0}
+                  </span>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_WIP_LIMIT}
+                    value={column.wipLimit ?? ''}
+                    onChange={(e) => onUpdateColumn(column.id, { wipLimit: parseWipLimit(e.target.value) })}
+                    placeholder="WIP"
+                    className="w-16 shrink-0"
+                    aria-label="WIP limit"
+                    title="Most tasks this column should hold, leave empty for no limit"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className={cn('h-8 w-8 shrink-0', isDone ? 'text-done' : 'text-muted-foreground')}
+                    onClick={() => onSetDoneColumn(column.id)}
+                    title={isDone ? 'Done column' : 'Mark as done column'}
+                  >
+                    <CheckCircle2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className={cn('h-8 w-8 shrink-0', isTimerColumn ? 'text-primary' : 'text-muted-foreground')}
+                    onClick={() => onToggleTimerColumn(column.id)}
+                    title={isTimerColumn ? 'Timer column - click to stop moving tasks here' : 'Move tasks here when their timer starts'}
+                  >
+                    <Timer className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => onMoveColumn(column.id, -1)}
+                    disabled={index === 0}
+                    aria-label="Move column earlier"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => onMoveColumn(column.id, 1)}
+                    disabled={index === workflow.columns.length - 1}
+                    aria-label="Move column later"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleRemove(column)}
+                    disabled={workflow.columns.length <= 1}
+                    aria-label="Delete column"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          <form onSubmit={handleAdd} className="flex items-center gap-2 pt-4 border-t">
+            <ColorPicker value={newColor} onChange={setNewColor} label="Column color" />
+            <Input
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              placeholder="New column, e.g. Review"
+              maxLength={MAX_COLUMN_TITLE_LENGTH}
+            />
+            <Button type="submit" disabled={!newTitle.trim()} className="shrink-0">
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingRemoval} onOpenChange={() => setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingRemoval?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its {pendingRemoval ? taskCounts[pendingRemoval.id] : 0} task(s) will be moved to "{fallbackTitle}".
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingRemoval) onRemoveColumn(pendingRemoval.id);
+                setPendingRemoval(null);
+              }}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete Column
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Pencil, Trash2 } from 'lucide-react';
+import { Person } from '@/types/person';
+import { TaskComment } from '@/types/task';
+import { ANONYMOUS_AUTHOR, MAX_COMMENT_LENGTH, getCommentAuthorName, isOwnComment } from '@/utils/comments';
+import { getInitials } from '@/utils/people';
+import { Markdown } from './Markdown';
+import { PersonAvatar } from './PersonAvatar';
+
+interface CommentThreadProps {
+  comments: TaskComment[];
+  people: Person[];
+  currentPerson?: Person;
+  onAdd: (body: string) => void;
+  onUpdate: (commentId: string, body: string) => void;
+  onDelete: (commentId: string) => void;
+}
+
+export function CommentThread({ comments, people, currentPerson, onAdd, onUpdate, onDelete }: CommentThreadProps) {
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingBody, setEditingBody] = useState('');
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    onAdd(draft);
+    setDraft('');
+  };
+
+  const startEditing = (comment: TaskComment) => {
+    setEditingId(comment.id);
+    setEditingBody(comment.body);
+  };
+
+  const handleUpdate = () => {
+    if (editingId && editingBody.trim()) {
+      onUpdate(editingId, editingBody);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {comments.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-2">No comments yet</p>
+      )}
+      <ul className="space-y-3">
+        {comments.map(comment => {
+          const author = people.find(person => person.id === comment.authorId);
+          const authorName = getCommentAuthorName(comment, people);
+          const isOwn = isOwnComment(comment, currentPerson?.id);
+          return (
+            <li key={comment.id} className="flex gap-2">
+              {author ? (
+                <PersonAvatar person={author} className="h-7 w-7" />
+              ) : (
+                <Avatar className="h-7 w-7" title={authorName}>
+                  <AvatarFallback className="text-[10px] font-semibold">{getInitials(authorName)}</AvatarFallback>
+                </Avatar>
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="font-medium">{authorName}</span>
+                  <time
+                    dateTime={comment.createdAt.toISOString()}
+                    title={format(comment.createdAt, 'PPpp')}
+                    className="text-muted-foreground"
+                  >
+                    {formatDistanceToNow(comment.createdAt, { addSuffix: true })}
+                  </time>
+                  {comment.editedAt && (
+                    <span className="text-muted-foreground" title={`Edited ${format(comment.editedAt, 'PPpp')}`}>
+                      (edited)
+                    </span>
+                  )}
+                  {isOwn && editingId !== comment.id && (
+                    <div className="ml-auto flex gap-0.5">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-muted-foreground"
+                        onClick={() => startEditing(comment)}
+                        aria-label="Edit comment"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                        onClick={() => onDelete(comment.id)}
+                        aria-label="Delete comment"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {editingId === comment.id ? (
+                  <div className="space-y-2 mt-1">
+                    <Textarea
+                      value={editingBody}
+                      onChange={(e) => setEditingBody(e.target.value)}
+                      maxLength={MAX_COMMENT_LENGTH}
+                      rows={3}
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button type="button" size="sm" onClick={handleUpdate} disabled={!editingBody.trim()}>
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <Markdown source={comment.body} className="mt-0.5" />
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            // Ctrl/Cmd+Enter posts without reaching for the mouse
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Write a comment... (markdown supported)"
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={2}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            Commenting as {currentPerson?.name ?? ANONYMOUS_AUTHOR}
+          </span>
+          <Button type="button" size="sm" onClick={handleAdd} disabled={!draft.trim()}>
+            Comment
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { CustomField } from '@/types/board';
+import { CustomFieldDraft, MAX_CUSTOM_FIELD_TEXT_LENGTH, isEmptyDraft, toDraft } from '@/utils/customFields';
+
+interface CustomFieldInputsProps {
+  idPrefix: string;
+  fields: CustomField[];
+  drafts: Record<string, CustomFieldDraft>;
+  onChange: (fieldId: string, draft: CustomFieldDraft) => void;
+  errors: Record<string, string>;
+  showAllErrors?: boolean; // a required field left empty is only flagged once saving was attempted
+}
+
+const NO_OPTION = '__none';
+
+export function CustomFieldInputs({ idPrefix, fields, drafts, onChange, errors, showAllErrors }: CustomFieldInputsProps) {
+  if (fields.length === 0) return null;
+
+  const renderInput = (field: CustomField, id: string, draft: CustomFieldDraft) => {
+    switch (field.type) {
+      case 'select':
+        return (
+          <Select
+            value={(draft as string) || NO_OPTION}
+            onValueChange={(value) => onChange(field.id, value === NO_OPTION ? '' : value)}
+          >
+            <SelectTrigger id={id}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_OPTION}>None</SelectItem>
+              {(field.options ?? []).map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'multi-select': {
+        const selected = draft as string[];
+        if (!field.options?.length) {
+          return <p className="text-xs text-muted-foreground">No options yet. Add some under Custom Fields.</p>;
+        }
+        return (
+          <div id={id} className="flex flex-wrap gap-1.5">
+            {field.options.map(option => {
+              const isSelected = selected.includes(option);
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() =>
+                    onChange(field.id, isSelected ? selected.filter(o => o !== option) : [...selected, option])
+                  }
+                  aria-pressed={isSelected}
+                  className={cn(
+                    'rounded-full border px-2 py-0.5 text-xs',
+                    isSelected ? 'bg-primary text-primary-foreground border-primary' : 'text-muted-foreground hover:bg-accent'
+                  )}
+                >
+                  {option}
+                </button>
+              );
+            })}
+          </div>
+        );
+      }
+      case 'checkbox':
+        return <Checkbox id={id} checked={draft as boolean} onCheckedChange={(checked) => onChange(field.id, checked === true)} />;
+      default:
+        return (
+          <Input
+            id={id}
+            type={field.type === 'text' ? 'text' : field.type}
+            value={draft as string}
+            onChange={(e) => onChange(field.id, e.target.value)}
+            maxLength={field.type === 'text' ? MAX_CUSTOM_FIELD_TEXT_LENGTH : undefined}
+            placeholder={field.type === 'url' ? 'https://' : undefined}
+            step={field.type === 'number' ? 'any' : undefined}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {fields.map(field => {
+        const id = `${idPrefix}-field-${field.id}`;
+        const draft = drafts[field.id] ?? toDraft(field, undefined);
+        const error = errors[field.id] && (showAllErrors || !isEmptyDraft(draft)) ? errors[field.id] : undefined;
+        return (
+          <div
+            key={field.id}
+            className={cn(field.type === 'checkbox' ? 'flex items-center gap-2' : 'space-y-2')}
+          >
+            {field.type === 'checkbox' && renderInput(field, id, draft)}
+            <Label htmlFor={id}>
+              {field.name}
+              {field.required && <span className="text-destructive"> *</span>}
+            </Label>
+            {field.type !== 'checkbox' && renderInput(field, id, draft)}
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Asterisk, Eye, Plus, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CustomField, CustomFieldType } from '@/types/board';
+import {
+  CUSTOM_FIELD_TYPES,
+  MAX_CUSTOM_FIELD_NAME_LENGTH,
+  MAX_CUSTOM_FIELD_OPTIONS,
+  MAX_CUSTOM_FIELD_TEXT_LENGTH,
+  getCustomFieldTypeLabel,
+  hasOptions,
+} from '@/utils/customFields';
+
+interface CustomFieldManagerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fields: CustomField[];
+  fieldCounts: Record<string, number>;
+  onAddField: (name: string, type: CustomFieldType) => void;
+  onUpdateField: (id: string, changes: Partial<Omit<CustomField, 'id' | 'type'>>) => void;
+  onMoveField: (id: string, direction: -1 | 1) => void;
+  onRemoveField: (id: string) => void;
+}
+
+function OptionEditor({ field, onChange }: { field: CustomField; onChange: (options: string[]) => void }) {
+  const [newOption, setNewOption] = useState('');
+  const options = field.options ?? [];
+
+  const handleAdd = () => {
+    const option = newOption.trim().slice(0, MAX_CUSTOM_FIELD_TEXT_LENGTH);
+    if (option && !options.includes(option)) {
+      onChange([...options, option]);
+    }
+    setNewOption('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 pl-2">
+      {options.map(option => (
+        <Badge key={option} variant="secondary" className="gap-1 pr-1 font-normal">
+          {option}
+          <button
+            type="button"
+            onClick={() => onChange(options.filter(o => o !== option))}
+            className="rounded-full hover:text-destructive"
+            aria-label={`Remove option ${option}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      {options.length < MAX_CUSTOM_FIELD_OPTIONS && (
+        <Input
+          value={newOption}
+          onChange={(e) => setNewOption(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          onBlur={handleAdd}
+          placeholder={options.length === 0 ? 'Add the first option...' : 'Add option...'}
+          className="h-7 w-36 text-xs"
+          aria-label={`New option for ${field.name}`}
+        />
+      )}
+    </div>
+  );
+}
+
+export function CustomFieldManagerDialog({
+  isOpen,
+  onClose,
+  fields,
+  fieldCounts,
+  onAddField,
+  onUpdateField,
+  onMoveField,
+  onRemoveField,
+}: CustomFieldManagerDialogProps) {
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<CustomFieldType>('text');
+  const [pendingRemoval, setPendingRemoval] = useState<CustomField | null>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newName.trim()) {
+      onAddField(newName, newType);
+      setNewName('');
+    }
+  };
+
+  const handleRemove = (field: CustomField) => {
+    if (fieldCounts[field.id]) {
+      setPendingRemoval(field);
+    } else {
+      onRemoveField(field.id);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Custom Fields</DialogTitle>
+            <DialogDescription>
+              Extra details every task on this board can carry. Fields marked with the eye show on the
+              cards; required ones have to be filled in before a task can be saved.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {fields.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No custom fields yet</p>
+            )}
+            {fields.map((field, index) => (
+              <div key={field.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={field.name}
+                    onChange={(e) => onUpdateField(field.id, { name: e.target.value })}
+                    onBlur={(e) => {
+                      if (!e.target.value.trim()) {
+                        onUpdateField(field.id, { name: 'Untitled' });
+                      }
+                    }}
+                    maxLength={MAX_CUSTOM_FIELD_NAME_LENGTH}
+                    aria-label="Field name"
+                  />
+                  <span className="text-xs text-muted-foreground w-24 shrink-0 truncate">
+                    {getCustomFieldTypeLabel(field.type)}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className={cn('h-8 w-8 shrink-0', field.showOnCard ? 'text-primary' : 'text-muted-foreground')}
+                    onClick={() => onUpdateField(field.id, { showOnCard: !field.showOnCard || undefined })}
+                    title={field.showOnCard ? 'Shown on cards' : 'Show on cards'}
+                    aria-pressed={!!field.showOnCard}
+                  >
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className={cn('h-8 w-8 shrink-0', field.required ? 'text-primary' : 'text-muted-foreground')}
+                    onClick={() => onUpdateField(field.id, { required: !field.required || undefined })}
+                    title={field.required ? 'Required' : 'Make required'}
+                    aria-pressed={!!field.required}
+                  >
+                    <Asterisk className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => onMoveField(field.id, -1)}
+                    disabled={index === 0}
+                    aria-label="Move field up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => onMoveField(field.id, 1)}
+                    disabled={index === fields.length - 1}
+                    aria-label="Move field down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleRemove(field)}
+                    aria-label="Delete field"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {hasOptions(field.type) && (
+                  <OptionEditor field={field} onChange={(options) => onUpdateField(field.id, { options })} />
+                )}
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleAdd} className="flex items-center gap-2 pt-4 border-t">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New field, e.g. Customer"
+              maxLength={MAX_CUSTOM_FIELD_NAME_LENGTH}
+            />
+            <Select value={newType} onValueChange={(value) => setNewType(value as CustomFieldType)}>
+              <SelectTrigger className="w-36 shrink-0" aria-label="Field type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUSTOM_FIELD_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={!newName.trim()} className="shrink-0">
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingRemoval} onOpenChange={() => setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingRemoval?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its value will be removed from {pendingRemoval ? fieldCounts[pendingRemoval.id] : 0} task(s).
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingRemoval) onRemoveField(pendingRemoval.id);
+                setPendingRemoval(null);
+              }}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete Field
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
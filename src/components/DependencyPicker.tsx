@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, Lock, Plus, X } from 'lucide-react';
+import { Task, Workflow } from '@/types/task';
+import { getColumnTitle, isDoneStatus } from '@/utils/workflow';
+import { getDependents, wouldCreateCycle } from '@/utils/dependencies';
+
+interface DependencyPickerProps {
+  task: Task;
+  blockedBy: string[];
+  onChange: (blockedBy: string[]) => void;
+  tasks: Task[];
+  workflow: Workflow;
+}
+
+export function DependencyPicker({ task, blockedBy, onChange, tasks, workflow }: DependencyPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const tasksById = new Map(tasks.map(t => [t.id, t]));
+  const blockers = blockedBy.map(id => tasksById.get(id)).filter((t): t is Task => !!t);
+  const dependents = getDependents(task.id, tasks);
+
+  // Check cycles against the links being edited, not the saved ones
+  const editedTasks = tasks.map(t => t.id === task.id ? { ...t, blockedBy } : t);
+  const candidates = tasks.filter(t => t.id !== task.id && !blockedBy.includes(t.id));
+
+  const handleSelect = (candidate: Task) => {
+    onChange([...blockedBy, candidate.id]);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {blockers.map(blocker => {
+          const isDone = isDoneStatus(workflow, blocker.status);
+          return (
+            <Badge key={blocker.id} variant={isDone ? 'secondary' : 'outline'} className="gap-1 pr-1">
+              {isDone ? <CheckCircle2 className="h-3 w-3 text-done" /> : <Lock className="h-3 w-3" />}
+              <span className="max-w-[160px] truncate">{blocker.title}</span>
+              <button
+                type="button"
+                onClick={() => onChange(blockedBy.filter(id => id !== blocker.id))}
+                className="rounded-sm opacity-60 hover:opacity-100"
+                aria-label={`Remove ${blocker.title}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          );
+        })}
+        <Popover open={isOpen} onOpenChange={setIsOpen}>
+          <PopoverTrigger asChild>
+            <Button type="button" variant="outline" size="sm" className="h-7 text-xs">
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              Add blocker
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 p-0" align="start">
+            <Command>
+              <CommandInput placeholder="Search tasks..." />
+              <CommandList>
+                <CommandEmpty>No tasks found</CommandEmpty>
+                <CommandGroup>
+                  {candidates.map(candidate => {
+                    const createsCycle = wouldCreateCycle(editedTasks, task.id, candidate.id);
+                    return (
+                      <CommandItem
+                        key={candidate.id}
+                        value={`${candidate.title} ${candidate.id}`}
+                        disabled={createsCycle}
+                        onSelect={() => handleSelect(candidate)}
+                      >
+                        <div className="min-w-0">
+                          <p className="truncate">{candidate.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {createsCycle ? 'Would create a circular dependency' : getColumnTitle(workflow, candidate.status)}
+                          </p>
+                        </div>
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      </div>
+      {dependents.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Blocks: {dependents.map(dependent => dependent.title).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { Sparkles, Key, Loader2, Shield, AlertCircle, Eye, EyeOff, Lightbulb, Calendar, Clock, Bell } from 'lucide-react';
+import { Sparkles, Key, Loader2, Shield, AlertCircle, Eye, EyeOff, Lightbulb, Calendar, Clock, Bell, ListChecks } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { format, addDays } from 'date-fns';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
@@ -16,6 +16,22 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { cn } from '@/lib/utils';
 import { requestNotificationPermission } from '@/utils/notifications';
+import { createChecklistItem } from '@/utils/checklist';
+import { ChecklistItem, CustomFieldValue, TaskPriority, TaskRecurrence } from '@/types/task';
+import { CustomField, EstimateUnit, TaskLabel } from '@/types/board';
+import { LabelPicker } from './LabelPicker';
+import { PrioritySelect } from './PrioritySelect';
+import { Person } from '@/types/person';
+import { AssigneePicker } from './AssigneePicker';
+import { MarkdownEditor } from './MarkdownEditor';
+import { ChecklistEditor } from './ChecklistEditor';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { MAX_DESCRIPTION_LENGTH } from '@/utils/markdown';
+import { MAX_ESTIMATE, getEstimateStep, getEstimateUnitLabel, parseEstimate } from '@/utils/estimates';
+import { CustomFieldDraft, parseDrafts } from '@/utils/customFields';
+import { CustomFieldInputs } from './CustomFieldInputs';
+import { TaskTemplate } from '@/types/template';
+import { applyTemplate } from '@/utils/templates';
 
 interface AddTaskModalProps {
   isOpen: boolean;
@@ -26,15 +42,35 @@ interface AddTaskModalProps {
     dueDate?: Date;
     dueTime?: string;
     reminderTime?: number;
+    priority?: TaskPriority;
+    checklist?: ChecklistItem[];
+    labelIds?: string[];
+    assigneeIds?: string[];
+    recurrence?: TaskRecurrence;
+    estimate?: number;
+    customFields?: Record<string, CustomFieldValue>;
   }) => void;
+  labels: TaskLabel[];
+  people: Person[];
+  estimateUnit: EstimateUnit;
+  customFields: CustomField[];
+  templates: TaskTemplate[];
 }
 
-export function EnhancedAddTaskModal({ isOpen, onClose, onAdd }: AddTaskModalProps) {
+export function EnhancedAddTaskModal({ isOpen, onClose, onAdd, labels, people, estimateUnit, customFields, templates }: AddTaskModalProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [dueDate, setDueDate] = useState<Date | undefined>();
   const [dueTime, setDueTime] = useState('');
   const [reminderTime, setReminderTime] = useState<string>('none');
+  const [priority, setPriority] = useState<TaskPriority>('none');
+  const [estimate, setEstimate] = useState('');
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | undefined>();
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]); // only ever filled in by a template
+  const [fieldDrafts, setFieldDrafts] = useState<Record<string, CustomFieldDraft>>({});
+  const [attemptedSave, setAttemptedSave] = useState(false);
   const [aiPrompt, setAiPrompt] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
@@ -60,11 +96,18 @@ export function EnhancedAddTaskModal({ isOpen, onClose, onAdd }: AddTaskModalPro
     { label: 'Next Month', value: addDays(new Date(), 30) }
   ];
 
+  const fieldResult = parseDrafts(customFields, fieldDrafts);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const trimmedTitle = title.trim().slice(0, 100);
-    const trimmedDescription = description.trim().slice(0, 500);
+    const trimmedDescription = description.trim().slice(0, MAX_DESCRIPTION_LENGTH);
     
+    if (Object.keys(fieldResult.errors).length > 0) {
+      setAttemptedSave(true);
+      return;
+    }
+
     if (trimmedTitle) {
       // Request notification permission if reminder is set
       if (reminderTime !== 'none') {
@@ -76,7 +119,14 @@ export function EnhancedAddTaskModal({ isOpen, onClose, onAdd }: AddTaskModalPro
         description: trimmedDescription,
         dueDate,
         dueTime,
-        reminderTime: reminderTime !== 'none' ? parseInt(reminderTime) : undefined
+        reminderTime: reminderTime !== 'none' ? parseInt(reminderTime) : undefined,
+        priority: priority !== 'none' ? priority : undefined,
+        labelIds: labelIds.length > 0 ? labelIds : undefined,
+        assigneeIds: assigneeIds.length > 0 ? assigneeIds : undefined,
+        checklist: checklist.length > 0 ? checklist : undefined,
+        recurrence,
+        estimate: parseEstimate(estimate),
+        customFields: fieldResult.values,
       });
       
       resetForm();
@@ -142,12 +192,31 @@ export function EnhancedAddTaskModal({ isOpen, onClose, onAdd }: AddTaskModalPro
     }
   };
 
+  // All generated tasks become the checklist of a single parent task named after the prompt
+  const handleAddGeneratedAsChecklist = () => {
+    onAdd({
+      title: aiPrompt.trim().split('\n')[0].slice(0, 100),
+      description: '',
+      checklist: generatedTasks.map(task => createChecklistItem(task.title)),
+    });
+    resetForm();
+    onClose();
+  };
+
   const resetForm = () => {
     setTitle('');
     setDescription('');
     setDueDate(undefined);
     setDueTime('');
     setReminderTime('none');
+    setPriority('none');
+    setEstimate('');
+    setLabelIds([]);
+    setAssigneeIds([]);
+    setRecurrence(undefined);
+    setChecklist([]);
+    setFieldDrafts({});
+    setAttemptedSave(false);
     setAiPrompt('');
     setGeneratedTasks([]);
     setSuggestions([]);
@@ -176,16 +245,16 @@ export function EnhancedAddTaskModal({ isOpen, onClose, onAdd }: AddTaskModalPro
         let newSuggestions: TaskSuggestion[];
         
         if (apiKey) {
-          newSuggestions = await getAISuggestions(value, apiKey);
+          newSuggestions = await getAISuggestions(value, apiKey, templates);
         } else {
-          newSuggestions = getLocalSuggestions(value);
+          newSuggestions = getLocalSuggestions(value, templates);
         }
         
         setSuggestions(newSuggestions);
         setShowSuggestions(newSuggestions.length > 0);
       } catch (error) {
         console.error('Error fetching suggestions:', error);
-        const localSuggestions = getLocalSuggestions(value);
+        const localSuggestions = getLocalSuggestions(value, templates);
         setSuggestions(localSuggestions);
         setShowSuggestions(localSuggestions.length > 0);
       } finally {
@@ -194,9 +263,18 @@ export function EnhancedAddTaskModal({ isOpen, onClose, onAdd }: AddTaskModalPro
     }, 300);
   };
 
+  // One of the user's templates fills in everything it carries, not just the title and description
   const selectSuggestion = (suggestion: TaskSuggestion) => {
     setTitle(suggestion.title);
     setDescription(suggestion.description);
+    if (suggestion.template) {
+      const fields = applyTemplate(suggestion.template, labels);
+      setChecklist(fields.checklist ?? []);
+      setLabelIds(fields.labelIds ?? []);
+      setDueDate(fields.dueDate);
+      setDueTime(fields.dueTime ?? '');
+      setReminderTime(fields.reminderTime !== undefined ? String(fields.reminderTime) : 'none');
+    }
     setShowSuggestions(false);
     setSuggestions([]);
   };
@@ -345,7 +423,14 @@ export function EnhancedAddTaskModal({ isOpen, onClose, onAdd }: AddTaskModalPro
                               onClick={() => selectSuggestion(suggestion)}
                               onMouseEnter={() => setSelectedSuggestion(index)}
                             >
-                              <div className="font-medium text-sm">{suggestion.title}</div>
+                              <div className="flex items-center justify-between gap-2">
+                                <span className="font-medium text-sm">{suggestion.title}</span>
+                                {suggestion.template && (
+                                  <span className="text-[10px] uppercase tracking-wide text-muted-foreground shrink-0">
+                                    {suggestion.template.category}
+                                  </span>
+                                )}
+                              </div>
                               <div className="text-xs text-muted-foreground mt-0.5">
                                 {suggestion.description}
                               </div>
@@ -363,17 +448,14 @@ export function EnhancedAddTaskModal({ isOpen, onClose, onAdd }: AddTaskModalPro
                   </div>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Textarea
-                    id="description"
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value.slice(0, 500))}
-                    placeholder="Enter task description..."
-                    className="w-full min-h-[80px]"
-                    maxLength={500}
-                  />
-                </div>
+                <MarkdownEditor
+                  id="description"
+                  label="Description"
+                  value={description}
+                  onChange={setDescription}
+                  placeholder="Enter task description..."
+                  className="min-h-[80px]"
+                />
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
@@ -458,6 +540,56 @@ export function EnhancedAddTaskModal({ isOpen, onClose, onAdd }: AddTaskModalPro
                   </Select>
                 </div>
 
+                <RecurrenceEditor id="recurrence" value={recurrence} onChange={setRecurrence} dueDate={dueDate} />
+
+                <div className="space-y-2">
+                  <Label htmlFor="priority">Priority</Label>
+                  <PrioritySelect id="priority" value={priority} onChange={setPriority} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="estimate">Estimate ({getEstimateUnitLabel(estimateUnit)})</Label>
+                  <Input
+                    id="estimate"
+                    type="number"
+                    min={0}
+                    max={MAX_ESTIMATE}
+                    step={getEstimateStep(estimateUnit)}
+                    value={estimate}
+                    onChange={(e) => setEstimate(e.target.value)}
+                    placeholder="No estimate"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Labels</Label>
+                  <LabelPicker labels={labels} selectedIds={labelIds} onChange={setLabelIds} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Assignees</Label>
+                  <AssigneePicker people={people} selectedIds={assigneeIds} onChange={setAssigneeIds} />
+                </div>
+
+                {checklist.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                      <ListChecks className="h-4 w-4" />
+                      Checklist
+                    </Label>
+                    <ChecklistEditor items={checklist} onChange={setChecklist} />
+                  </div>
+                )}
+
+                <CustomFieldInputs
+                  idPrefix="add"
+                  fields={customFields}
+                  drafts={fieldDrafts}
+                  onChange={(fieldId, draft) => setFieldDrafts(prev => ({ ...prev, [fieldId]: draft }))}
+                  errors={fieldResult.errors}
+                  showAllErrors={attemptedSave}
+                />
+
                 <DialogFooter>
                   <Button type="button" variant="outline" onClick={() => {
                     resetForm();
@@ -515,7 +647,15 @@ export function EnhancedAddTaskModal({ isOpen, onClose, onAdd }: AddTaskModalPro
 
                 {generatedTasks.length > 0 && (
                   <div className="space-y-3">
-                    <Label>Generated Tasks ({generatedTasks.length})</Label>
+                    <div className="flex items-center justify-between gap-2">
+                      <Label>Generated Tasks ({generatedTasks.length})</Label>
+                      {generatedTasks.length > 1 && (
+                        <Button size="sm" variant="outline" onClick={handleAddGeneratedAsChecklist}>
+                          <ListChecks className="h-4 w-4 mr-1" />
+                          Add as one task with checklist
+                        </Button>
+                      )}
+                    </div>
                     <div className="max-h-60 overflow-y-auto space-y-2">
                       {generatedTasks.map((task, index) => (
                         <div key={index} className="p-3 rounded-lg border bg-card hover:bg-accent/50 transition-colors">
@@ -2,29 +2,115 @@ import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import { CalendarIcon, Clock, Bell } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { CalendarIcon, Clock, Bell, ListChecks, Lock, Timer, BookmarkPlus } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { Task } from '@/types/task';
+import { ChecklistItem, Task, TaskComment, TaskPriority, TaskRecurrence, TimeEntry, Workflow } from '@/types/task';
+import { TaskEvent } from '@/types/activity';
+import { CustomField, EstimateUnit, TaskLabel } from '@/types/board';
+import { LabelPicker } from './LabelPicker';
+import { PrioritySelect } from './PrioritySelect';
+import { Person } from '@/types/person';
+import { AssigneePicker } from './AssigneePicker';
+import { ActivityTimeline } from './ActivityTimeline';
+import { ChecklistEditor } from './ChecklistEditor';
+import { CommentThread } from './CommentThread';
+import { AttachmentList } from './AttachmentList';
+import { MarkdownEditor } from './MarkdownEditor';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { TimeEntryList } from './TimeEntryList';
+import { TaskAttachment } from '@/types/attachment';
+import { StorageEstimate, hasDraggedFiles } from '@/utils/attachments';
+import { DependencyPicker } from './DependencyPicker';
+import { getColumnTitle } from '@/utils/workflow';
+import { MAX_ESTIMATE, getEstimateStep, getEstimateUnitLabel, parseEstimate } from '@/utils/estimates';
+import { CustomFieldDraft, getCustomFieldValue, parseDrafts, toDraft } from '@/utils/customFields';
+import { CustomFieldInputs } from './CustomFieldInputs';
 
 interface EnhancedEditTaskModalProps {
   task: Task | null;
   isOpen: boolean;
   onClose: () => void;
   onSave: (updatedTask: Task) => void;
+  onSaveAsTemplate: (task: Task) => void;
+  onConvertChecklistItem: (task: Task, item: ChecklistItem) => void;
+  tasks: Task[];
+  labels: TaskLabel[];
+  people: Person[];
+  currentPerson?: Person;
+  // Comments are saved as soon as they are posted, so they come from the live task rather than `task`
+  comments: TaskComment[];
+  onAddComment: (taskId: string, body: string) => void;
+  onUpdateComment: (taskId: string, commentId: string, body: string) => void;
+  onDeleteComment: (taskId: string, commentId: string) => void;
+  // Time entries are saved right away too, so a running timer is never overwritten by the form
+  timeEntries: TimeEntry[];
+  onStartTimer: (taskId: string) => void;
+  onStopTimer: (taskId: string) => void;
+  onAddTimeEntry: (taskId: string, entry: TimeEntry) => void;
+  onUpdateTimeEntry: (taskId: string, entry: TimeEntry) => void;
+  onDeleteTimeEntry: (taskId: string, entryId: string) => void;
+  attachments: TaskAttachment[];
+  storageEstimate?: StorageEstimate;
+  onAttachFiles: (taskId: string, files: File[]) => void;
+  onRemoveAttachment: (attachmentId: string) => void;
+  events: TaskEvent[];
+  workflow: Workflow;
+  estimateUnit: EstimateUnit;
+  customFields: CustomField[];
 }
 
-export function EnhancedEditTaskModal({ task, isOpen, onClose, onSave }: EnhancedEditTaskModalProps) {
+export function EnhancedEditTaskModal({
+  task,
+  isOpen,
+  onClose,
+  onSave,
+  onSaveAsTemplate,
+  onConvertChecklistItem,
+  tasks,
+  labels,
+  people,
+  currentPerson,
+  comments,
+  onAddComment,
+  onUpdateComment,
+  onDeleteComment,
+  timeEntries,
+  onStartTimer,
+  onStopTimer,
+  onAddTimeEntry,
+  onUpdateTimeEntry,
+  onDeleteTimeEntry,
+  attachments,
+  storageEstimate,
+  onAttachFiles,
+  onRemoveAttachment,
+  events,
+  workflow,
+  estimateUnit,
+  customFields,
+}: EnhancedEditTaskModalProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [dueDate, setDueDate] = useState<Date | undefined>();
   const [dueTime, setDueTime] = useState('');
   const [reminderTime, setReminderTime] = useState<number | undefined>();
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [completeWithChecklist, setCompleteWithChecklist] = useState(false);
+  const [blockedBy, setBlockedBy] = useState<string[]>([]);
+  const [priority, setPriority] = useState<TaskPriority>('none');
+  const [estimate, setEstimate] = useState('');
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | undefined>();
+  const [fieldDrafts, setFieldDrafts] = useState<Record<string, CustomFieldDraft>>({});
+  const [attemptedSave, setAttemptedSave] = useState(false);
+  const [isFileOver, setIsFileOver] = useState(false);
 
   useEffect(() => {
     if (task) {
@@ -33,22 +119,49 @@ export function EnhancedEditTaskModal({ task, isOpen, onClose, onSave }: Enhance
       setDueDate(task.dueDate ? new Date(task.dueDate) : undefined);
       setDueTime(task.dueTime || '');
       setReminderTime(task.reminderTime);
+      setPriority(task.priority ?? 'none');
+      setEstimate(task.estimate?.toString() ?? '');
+      setChecklist(task.checklist ?? []);
+      setCompleteWithChecklist(task.completeWithChecklist ?? false);
+      setBlockedBy(task.blockedBy ?? []);
+      setLabelIds(task.labelIds ?? []);
+      setAssigneeIds(task.assigneeIds ?? []);
+      setRecurrence(task.recurrence);
+      setFieldDrafts(Object.fromEntries(customFields.map(field => [field.id, toDraft(field, getCustomFieldValue(task, field))])));
+      setAttemptedSave(false);
     }
-  }, [task]);
+  }, [task, customFields]);
+
+  const fieldResult = parseDrafts(customFields, fieldDrafts);
+
+  // The task as the form currently shows it
+  const buildTask = (base: Task): Task => ({
+    ...base,
+    title: title.trim(),
+    description: description.trim(),
+    dueDate,
+    dueTime: dueTime || undefined,
+    reminderTime,
+    priority: priority !== 'none' ? priority : undefined,
+    estimate: parseEstimate(estimate),
+    checklist: checklist.length > 0 ? checklist : undefined,
+    completeWithChecklist: completeWithChecklist || undefined,
+    blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+    labelIds: labelIds.length > 0 ? labelIds : undefined,
+    assigneeIds: assigneeIds.length > 0 ? assigneeIds : undefined,
+    recurrence,
+    customFields: fieldResult.values,
+    updatedAt: new Date(),
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (Object.keys(fieldResult.errors).length > 0) {
+      setAttemptedSave(true);
+      return;
+    }
     if (task && title.trim()) {
-      const updatedTask: Task = {
-        ...task,
-        title: title.trim(),
-        description: description.trim(),
-        dueDate,
-        dueTime: dueTime || undefined,
-        reminderTime,
-        updatedAt: new Date(),
-      };
-      onSave(updatedTask);
+      onSave(buildTask(task));
       onClose();
     }
   };
@@ -60,12 +173,48 @@ export function EnhancedEditTaskModal({ task, isOpen, onClose, onSave }: Enhance
       setDueDate(task.dueDate ? new Date(task.dueDate) : undefined);
       setDueTime(task.dueTime || '');
       setReminderTime(task.reminderTime);
+      setPriority(task.priority ?? 'none');
+      setEstimate(task.estimate?.toString() ?? '');
+      setChecklist(task.checklist ?? []);
+      setCompleteWithChecklist(task.completeWithChecklist ?? false);
+      setBlockedBy(task.blockedBy ?? []);
+      setLabelIds(task.labelIds ?? []);
+      setAssigneeIds(task.assigneeIds ?? []);
+      setRecurrence(task.recurrence);
+      setFieldDrafts(Object.fromEntries(customFields.map(field => [field.id, toDraft(field, getCustomFieldValue(task, field))])));
+      setAttemptedSave(false);
     }
   };
 
+  const handleFileDrop = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    setIsFileOver(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (task && files.length > 0) onAttachFiles(task.id, files);
+  };
+
+  // Converting takes effect right away, so the item leaves the local checklist as well
+  const handleConvertItem = (item: ChecklistItem) => {
+    if (!task) return;
+    onConvertChecklistItem(task, item);
+    setChecklist(prev => prev.filter(i => i.id !== item.id));
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent
+        className={cn("sm:max-w-lg max-h-[90vh] overflow-y-auto", isFileOver && "ring-2 ring-primary")}
+        onDragOver={(e) => {
+          if (!hasDraggedFiles(e.dataTransfer)) return;
+          e.preventDefault();
+          setIsFileOver(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsFileOver(false);
+        }}
+        onDrop={handleFileDrop}
+      >
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             Edit Task
@@ -84,16 +233,14 @@ export function EnhancedEditTaskModal({ task, isOpen, onClose, onSave }: Enhance
             />
           </div>
           
-          <div className="space-y-2">
-            <Label htmlFor="edit-description">Description</Label>
-            <Textarea
-              id="edit-description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Enter task description..."
-              className="w-full min-h-[100px]"
-            />
-          </div>
+          <MarkdownEditor
+            id="edit-description"
+            label="Description"
+            value={description}
+            onChange={setDescription}
+            placeholder="Enter task description..."
+            className="min-h-[100px]"
+          />
 
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -168,6 +315,84 @@ export function EnhancedEditTaskModal({ task, isOpen, onClose, onSave }: Enhance
             </Select>
           </div>
 
+          <RecurrenceEditor id="edit-recurrence" value={recurrence} onChange={setRecurrence} dueDate={dueDate} />
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-priority">Priority</Label>
+            <PrioritySelect id="edit-priority" value={priority} onChange={setPriority} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-estimate">Estimate ({getEstimateUnitLabel(estimateUnit)})</Label>
+            <Input
+              id="edit-estimate"
+              type="number"
+              min={0}
+              max={MAX_ESTIMATE}
+              step={getEstimateStep(estimateUnit)}
+              value={estimate}
+              onChange={(e) => setEstimate(e.target.value)}
+              placeholder="No estimate"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Labels</Label>
+            <LabelPicker labels={labels} selectedIds={labelIds} onChange={setLabelIds} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Assignees</Label>
+            <AssigneePicker people={people} selectedIds={assigneeIds} onChange={setAssigneeIds} />
+          </div>
+
+          <CustomFieldInputs
+            idPrefix="edit"
+            fields={customFields}
+            drafts={fieldDrafts}
+            onChange={(fieldId, draft) => setFieldDrafts(prev => ({ ...prev, [fieldId]: draft }))}
+            errors={fieldResult.errors}
+            showAllErrors={attemptedSave}
+          />
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label className="flex items-center gap-2">
+                <ListChecks className="h-4 w-4" />
+                Checklist
+              </Label>
+              {checklist.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="edit-complete-with-checklist"
+                    checked={completeWithChecklist}
+                    onCheckedChange={setCompleteWithChecklist}
+                  />
+                  <Label htmlFor="edit-complete-with-checklist" className="text-xs font-normal text-muted-foreground">
+                    Move to {getColumnTitle(workflow, workflow.doneColumnId)} when all checked
+                  </Label>
+                </div>
+              )}
+            </div>
+            <ChecklistEditor items={checklist} onChange={setChecklist} onConvertToTask={handleConvertItem} />
+          </div>
+
+          {task && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                Blocked by
+              </Label>
+              <DependencyPicker
+                task={task}
+                blockedBy={blockedBy}
+                onChange={setBlockedBy}
+                tasks={tasks}
+                workflow={workflow}
+              />
+            </div>
+          )}
+
           {dueDate && (
             <div className="p-3 bg-muted/50 rounded-lg text-sm">
               <p className="font-medium">Task scheduled for:</p>
@@ -184,6 +409,16 @@ export function EnhancedEditTaskModal({ task, isOpen, onClose, onSave }: Enhance
           )}
 
           <DialogFooter className="flex gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              className="sm:mr-auto"
+              onClick={() => task && onSaveAsTemplate(buildTask(task))}
+              disabled={!title.trim()}
+            >
+              <BookmarkPlus className="h-4 w-4 mr-1" />
+              Save as template
+            </Button>
             <Button type="button" variant="outline" onClick={handleReset}>
               Reset
             </Button>
@@ -195,6 +430,54 @@ export function EnhancedEditTaskModal({ task, isOpen, onClose, onSave }: Enhance
             </Button>
           </DialogFooter>
         </form>
+
+        {task && (
+          <div className="space-y-2 border-t pt-4">
+            <Label className="flex items-center gap-2">
+              <Timer className="h-4 w-4" />
+              Time tracking
+            </Label>
+            <TimeEntryList
+              entries={timeEntries}
+              onStart={() => onStartTimer(task.id)}
+              onStop={() => onStopTimer(task.id)}
+              onAdd={(entry) => onAddTimeEntry(task.id, entry)}
+              onUpdate={(entry) => onUpdateTimeEntry(task.id, entry)}
+              onDelete={(entryId) => onDeleteTimeEntry(task.id, entryId)}
+            />
+          </div>
+        )}
+
+        {task && (
+          <div className="space-y-2 border-t pt-4">
+            <Label>Attachments{attachments.length > 0 && ` (${attachments.length})`}</Label>
+            <AttachmentList
+              attachments={attachments}
+              storageEstimate={storageEstimate}
+              onAddFiles={(files) => onAttachFiles(task.id, files)}
+              onRemove={onRemoveAttachment}
+            />
+          </div>
+        )}
+
+        {task && (
+          <div className="space-y-2 border-t pt-4">
+            <Label>Comments{comments.length > 0 && ` (${comments.length})`}</Label>
+            <CommentThread
+              comments={comments}
+              people={people}
+              currentPerson={currentPerson}
+              onAdd={(body) => onAddComment(task.id, body)}
+              onUpdate={(commentId, body) => onUpdateComment(task.id, commentId, body)}
+              onDelete={(commentId) => onDeleteComment(task.id, commentId)}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          <Label>Activity</Label>
+          <ActivityTimeline events={events} workflow={workflow} />
+        </div>
       </DialogContent>
     </Dialog>
   );
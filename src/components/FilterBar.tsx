@@ -1,18 +1,47 @@
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, Filter, Trash2, Download, Upload } from 'lucide-react';
-import { TaskStatus } from '@/types/task';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Search, Filter, Trash2, Download, Upload, Tag, Flag, UserCheck, Rows3, SlidersHorizontal } from 'lucide-react';
+import { TaskPriority, TaskStatus, WorkflowColumn } from '@/types/task';
+import { CustomField, TaskLabel } from '@/types/board';
+import { LabelMatchMode } from '@/utils/labels';
+import { PRIORITY_LEVELS } from '@/utils/priority';
+import { SWIMLANE_GROUPINGS, SwimlaneGrouping } from '@/utils/swimlanes';
+import { CustomFieldFilter, CustomFieldSort } from '@/utils/customFields';
+import { LabelChip } from './LabelChip';
+import { PriorityDot } from './PrioritySelect';
 import { RefObject } from 'react';
 
 interface FilterBarProps {
   searchTerm: string;
   onSearchChange: (value: string) => void;
+  columns: WorkflowColumn[];
   filterStatus: TaskStatus | 'all';
   onFilterChange: (value: TaskStatus | 'all') => void;
+  priorityFilter: TaskPriority | 'all';
+  onPriorityFilterChange: (value: TaskPriority | 'all') => void;
+  labels: TaskLabel[];
+  labelFilter: string[];
+  onLabelFilterChange: (labelIds: string[]) => void;
+  labelMatch: LabelMatchMode;
+  onLabelMatchChange: (mode: LabelMatchMode) => void;
+  assignedToMe: boolean;
+  onAssignedToMeChange: (value: boolean) => void;
+  hasCurrentPerson: boolean;
+  swimlanes: SwimlaneGrouping;
+  onSwimlanesChange: (grouping: SwimlaneGrouping) => void;
+  customFields: CustomField[];
+  fieldFilter: CustomFieldFilter | null;
+  onFieldFilterChange: (filter: CustomFieldFilter | null) => void;
+  fieldSort: CustomFieldSort | null;
+  onFieldSortChange: (sort: CustomFieldSort | null) => void;
   onClearCompleted: () => void;
   onDeleteAll: () => void;
   onExport: () => void;
+  onExportCsv: () => void;
   onImport: (file: File) => void;
   totalTasks: number;
   completedTasks: number;
@@ -22,11 +51,30 @@ interface FilterBarProps {
 export function FilterBar({
   searchTerm,
   onSearchChange,
+  columns,
   filterStatus,
   onFilterChange,
+  priorityFilter,
+  onPriorityFilterChange,
+  labels,
+  labelFilter,
+  onLabelFilterChange,
+  labelMatch,
+  onLabelMatchChange,
+  assignedToMe,
+  onAssignedToMeChange,
+  hasCurrentPerson,
+  swimlanes,
+  onSwimlanesChange,
+  customFields,
+  fieldFilter,
+  onFieldFilterChange,
+  fieldSort,
+  onFieldSortChange,
   onClearCompleted,
   onDeleteAll,
   onExport,
+  onExportCsv,
   onImport,
   totalTasks,
   completedTasks,
@@ -40,6 +88,41 @@ export function FilterBar({
     }
   };
 
+  const filterField = customFields.find(field => field.id === fieldFilter?.fieldId);
+  const activeFieldOptions = (fieldFilter?.value ? 1 : 0) + (fieldSort ? 1 : 0);
+
+  const renderFilterValue = (field: CustomField) => {
+    const value = fieldFilter?.value ?? '';
+    const onChange = (next: string) => onFieldFilterChange({ fieldId: field.id, value: next });
+    if (field.type === 'select' || field.type === 'multi-select' || field.type === 'checkbox') {
+      const options = field.type === 'checkbox' ? ['yes', 'no'] : field.options ?? [];
+      return (
+        <Select value={value} onValueChange={onChange}>
+          <SelectTrigger className="h-8 text-xs" aria-label="Filter value">
+            <SelectValue placeholder="Pick a value" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option} value={option}>
+                {field.type === 'checkbox' ? (option === 'yes' ? 'Checked' : 'Not checked') : option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        type={field.type === 'number' || field.type === 'date' ? field.type : 'text'}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={field.type === 'text' || field.type === 'url' ? 'Contains...' : undefined}
+        className="h-8 text-xs"
+        aria-label="Filter value"
+      />
+    );
+  };
+
   return (
     <div className="bg-card rounded-xl border border-border p-4 space-y-4">
       <div className="flex flex-col sm:flex-row gap-4">
@@ -61,9 +144,165 @@ export function FilterBar({
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Tasks</SelectItem>
-            <SelectItem value="todo">To Do</SelectItem>
-            <SelectItem value="in-progress">In Progress</SelectItem>
-            <SelectItem value="done">Done</SelectItem>
+            {columns.map(column => (
+              <SelectItem key={column.id} value={column.id}>{column.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={priorityFilter} onValueChange={(value) => onPriorityFilterChange(value as TaskPriority | 'all')}>
+          <SelectTrigger className="w-full sm:w-[170px]">
+            <Flag className="h-4 w-4 mr-2" />
+            <SelectValue placeholder="Filter by priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All priorities</SelectItem>
+            {PRIORITY_LEVELS.map(level => (
+              <SelectItem key={level.value} value={level.value}>
+                <span className="flex items-center gap-2">
+                  <PriorityDot className={level.marker} />
+                  {level.label}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="w-full sm:w-auto justify-start font-normal" disabled={labels.length === 0}>
+              <Tag className="h-4 w-4 mr-2" />
+              Labels
+              {labelFilter.length > 0 && (
+                <span className="ml-2 rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+                  {labelFilter.length}
+                </span>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-3 space-y-3" align="end">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground">Match</span>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={labelMatch}
+                onValueChange={(value) => value && onLabelMatchChange(value as LabelMatchMode)}
+              >
+                <ToggleGroupItem value="any" className="h-7 text-xs">Any</ToggleGroupItem>
+                <ToggleGroupItem value="all" className="h-7 text-xs">All</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+              {labels.map(label => (
+                <label key={label.id} className="flex items-center gap-2 cursor-pointer">
+                  <Checkbox
+                    checked={labelFilter.includes(label.id)}
+                    onCheckedChange={(checked) =>
+                      onLabelFilterChange(
+                        checked === true
+                          ? [...labelFilter, label.id]
+                          : labelFilter.filter(id => id !== label.id)
+                      )
+                    }
+                  />
+                  <LabelChip label={label} />
+                </label>
+              ))}
+            </div>
+            {labelFilter.length > 0 && (
+              <Button variant="ghost" size="sm" className="w-full h-7 text-xs" onClick={() => onLabelFilterChange([])}>
+                Clear label filter
+              </Button>
+            )}
+          </PopoverContent>
+        </Popover>
+
+        <Button
+          variant={assignedToMe ? 'default' : 'outline'}
+          className="w-full sm:w-auto justify-start font-normal"
+          onClick={() => onAssignedToMeChange(!assignedToMe)}
+          disabled={!hasCurrentPerson && !assignedToMe}
+          aria-pressed={assignedToMe}
+          title={hasCurrentPerson ? 'Only show tasks assigned to you' : 'Pick who you are in People first'}
+        >
+          <UserCheck className="h-4 w-4 mr-2" />
+          My tasks
+        </Button>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="w-full sm:w-auto justify-start font-normal" disabled={customFields.length === 0}>
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Fields
+              {activeFieldOptions > 0 && (
+                <span className="ml-2 rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+                  {activeFieldOptions}
+                </span>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-3 space-y-4" align="end">
+            <div className="space-y-2">
+              <span className="text-xs text-muted-foreground">Filter by</span>
+              <Select
+                value={fieldFilter?.fieldId ?? 'none'}
+                onValueChange={(value) => onFieldFilterChange(value === 'none' ? null : { fieldId: value, value: '' })}
+              >
+                <SelectTrigger className="h-8 text-xs" aria-label="Filter by field">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No field filter</SelectItem>
+                  {customFields.map(field => (
+                    <SelectItem key={field.id} value={field.id}>{field.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {filterField && renderFilterValue(filterField)}
+            </div>
+            <div className="space-y-2">
+              <span className="text-xs text-muted-foreground">Sort cards by</span>
+              <Select
+                value={fieldSort?.fieldId ?? 'none'}
+                onValueChange={(value) =>
+                  onFieldSortChange(value === 'none' ? null : { fieldId: value, direction: fieldSort?.direction ?? 'asc' })
+                }
+              >
+                <SelectTrigger className="h-8 text-xs" aria-label="Sort by field">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Board order</SelectItem>
+                  {customFields.map(field => (
+                    <SelectItem key={field.id} value={field.id}>{field.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {fieldSort && (
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  value={fieldSort.direction}
+                  onValueChange={(value) => value && onFieldSortChange({ ...fieldSort, direction: value as 'asc' | 'desc' })}
+                >
+                  <ToggleGroupItem value="asc" className="h-7 text-xs">Ascending</ToggleGroupItem>
+                  <ToggleGroupItem value="desc" className="h-7 text-xs">Descending</ToggleGroupItem>
+                </ToggleGroup>
+              )}
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Select value={swimlanes} onValueChange={(value) => onSwimlanesChange(value as SwimlaneGrouping)}>
+          <SelectTrigger className="w-full sm:w-[170px]" aria-label="Swimlanes">
+            <Rows3 className="h-4 w-4 mr-2" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SWIMLANE_GROUPINGS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
@@ -108,7 +347,18 @@ export function FilterBar({
             className="text-xs sm:text-sm h-8 sm:h-9"
           >
             <Download className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" />
-            Export
+            <span className="hidden sm:inline">Export</span> JSON
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onExportCsv}
+            disabled={totalTasks === 0}
+            className="text-xs sm:text-sm h-8 sm:h-9"
+          >
+            <Download className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" />
+            <span className="hidden sm:inline">Export</span> CSV
           </Button>
           
           <label>
@@ -125,7 +375,7 @@ export function FilterBar({
             </Button>
             <input
               type="file"
-              accept=".json"
+              accept=".json,.csv"
               onChange={handleFileUpload}
               className="hidden"
             />
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback, ReactNode } from 'react';
 import {
   DndContext,
   DragEndEvent,
@@ -9,26 +9,89 @@ import {
   useSensor,
   useSensors,
 } from '@dnd-kit/core';
-import { arrayMove } from '@dnd-kit/sortable';
-import { Task, TaskStatus, TaskColumn as TaskColumnType } from '@/types/task';
-import { TaskColumn } from './TaskColumn';
+import { ChecklistItem, CustomFieldValue, Task, TaskPriority, TaskRecurrence, TaskStatus, TimeEntry, TaskColumn as TaskColumnType, Workflow } from '@/types/task';
+import { Board, BoardSettings, CustomField, TaskLabel } from '@/types/board';
+import { LaneDropData, TaskColumn, TaskColumnHeader } from './TaskColumn';
+import { SwimlaneHeader } from './SwimlaneHeader';
 import { TaskCard } from './TaskCard';
 import { EnhancedAddTaskModal } from './EnhancedAddTaskModal';
 import { EnhancedEditTaskModal } from './EnhancedEditTaskModal';
 import { FilterBar } from './FilterBar';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
-import { Plus, Moon, Sun, ClipboardList, Bell, Keyboard } from 'lucide-react';
+import { Plus, Moon, Sun, ClipboardList, Bell, Keyboard, Columns3, Undo2, Redo2, History, Trash2, Archive, Tag, Users, Timer, Settings2, SlidersHorizontal, LayoutTemplate } from 'lucide-react';
 import { toast } from 'sonner';
 import { useTheme } from '@/hooks/useTheme';
 import { LiveClock } from './LiveClock';
 import { DateFilter, type DateFilterType } from './DateFilter';
 import { TaskStatistics } from './TaskStatistics';
 import { KeyboardShortcutsHelp } from './KeyboardShortcutsHelp';
-import { scheduleNotification, requestNotificationPermission } from '@/utils/notifications';
+import { ColumnManagerDialog } from './ColumnManagerDialog';
+import { RecoveryNotice } from './RecoveryNotice';
+import { ActivityFeed } from './ActivityFeed';
+import { TrashDialog } from './TrashDialog';
+import { ArchiveDialog } from './ArchiveDialog';
+import { LabelManagerDialog } from './LabelManagerDialog';
+import { PeopleDialog } from './PeopleDialog';
+import { PersonAvatar } from './PersonAvatar';
+import { TimesheetDialog } from './TimesheetDialog';
+import { BoardSettingsDialog } from './BoardSettingsDialog';
+import { CustomFieldManagerDialog } from './CustomFieldManagerDialog';
+import { TaskTemplatesDialog } from './TaskTemplatesDialog';
+import { rearmReminders, requestNotificationPermission } from '@/utils/notifications';
 import { DateRange } from 'react-day-picker';
-import { startOfDay, endOfDay, startOfWeek, endOfWeek, isAfter, isBefore, isWithinInterval, isPast, isToday } from 'date-fns';
-import { useKeyboardShortcuts, ShortcutConfig } from '@/hooks/useKeyboardShortcuts';
+import { format, isValid, startOfDay, endOfDay, startOfWeek, endOfWeek, isAfter, isBefore, isWithinInterval, isPast, isToday } from 'date-fns';
+import { useKeyboardShortcuts, ShortcutConfig, COLUMN_FOCUS_KEYS, COLUMN_MOVE_KEYS, PRIORITY_KEYS } from '@/hooks/useKeyboardShortcuts';
+import { useWorkflow } from '@/hooks/useWorkflow';
+import { useLabels } from '@/hooks/useLabels';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { useTaskTemplates } from '@/hooks/useTaskTemplates';
+import { usePeople } from '@/hooks/usePeople';
+import { useAttachments } from '@/hooks/useAttachments';
+import {
+  getBoardSettings,
+  loadArchiveSettings,
+  loadBoardFilters,
+  loadTrashRetentionDays,
+  saveArchiveSettings,
+  saveBoardFilters,
+  saveTrashRetentionDays,
+} from '@/utils/boardStorage';
+import { ArchiveSettings, archiveTask, isArchivable, isArchived, unarchiveTask } from '@/utils/archive';
+import { isTrashExpired, isTrashed, moveToTrash, restoreFromTrash } from '@/utils/trash';
+import { useBoardTasks } from '@/hooks/useBoardTasks';
+import { useReminders } from '@/hooks/useReminders';
+import { useTaskHistory } from '@/hooks/useTaskHistory';
+import { useActivityLog } from '@/hooks/useActivityLog';
+import { createReminderEvent, deserializeEvent } from '@/utils/activity';
+import { TaskEvent } from '@/types/activity';
+import { applyChecklistCompletion, parseChecklist } from '@/utils/checklist';
+import { getOpenBlockers, remapTaskIds } from '@/utils/dependencies';
+import { LabelMatchMode, getTaskLabels, matchesLabels, mergeLabels } from '@/utils/labels';
+import { getAssignees, isAssignedTo, mergePeople } from '@/utils/people';
+import { MAX_COMMENT_LENGTH, createComment, parseComments } from '@/utils/comments';
+import { MAX_DESCRIPTION_LENGTH, toggleTaskListItem } from '@/utils/markdown';
+import { parseRecurrence, spawnRecurrences } from '@/utils/recurrence';
+import { parseEstimate } from '@/utils/estimates';
+import { isOverWipLimit } from '@/utils/wip';
+import {
+  CustomFieldFilter,
+  CustomFieldSort,
+  matchesCustomFieldFilter,
+  mergeCustomFields,
+  parseCustomFieldValues,
+  sortByCustomField,
+} from '@/utils/customFields';
+import { downloadCsv, parseCsv, toCsv } from '@/utils/csv';
+import { parseTaskRows, tasksToRows } from '@/utils/taskCsv';
+import { applyTemplate, createTemplateFromTask } from '@/utils/templates';
+import { TaskTemplate } from '@/types/template';
+import { ensureRanks, getDropRank, isValidRank, rankAfter, sortByRank } from '@/utils/rank';
+import { Swimlane, SwimlaneGrouping, buildSwimlanes, getLaneId, moveToLane } from '@/utils/swimlanes';
+import { getRunningEntry, getTimerStatus, parseTimeEntries, startTimer, stopTimer } from '@/utils/timeTracking';
+import { PRIORITY_LEVELS, getPriority, getPriorityLevel, isTaskPriority, sortByPriority } from '@/utils/priority';
+import { createId } from '@/utils/ids';
+import { getColumn, getColumnTitle, getFallbackStatus, getInitialStatus, isDoneStatus, normalizeStatus, withStatus } from '@/utils/workflow';
 import { GeneratedTask } from '@/utils/aiTaskGenerator';
 import {
   AlertDialog,
@@ -41,24 +104,76 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 
-const STORAGE_KEY = 'kanban-tasks';
+interface KanbanBoardProps {
+  board: Board;
+  onWorkflowChange: (updater: (prev: Workflow) => Workflow) => void;
+  onLabelsChange: (updater: (prev: TaskLabel[]) => TaskLabel[]) => void;
+  onCustomFieldsChange: (updater: (prev: CustomField[]) => CustomField[]) => void;
+  onSettingsChange: (updater: (prev: BoardSettings) => BoardSettings) => void;
+  // Stops the timers running on other boards, resolving to the tasks they belonged to
+  onStopOtherTimers: () => Promise<Task[]>;
+  boardSwitcher?: ReactNode;
+}
 
-export function KanbanBoard() {
+export function KanbanBoard({
+  board,
+  onWorkflowChange,
+  onLabelsChange,
+  onCustomFieldsChange,
+  onSettingsChange,
+  onStopOtherTimers,
+  boardSwitcher,
+}: KanbanBoardProps) {
   const { theme, toggleTheme } = useTheme();
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const { workflow } = board;
+  const settings = getBoardSettings(board);
+  const { addColumn, updateColumn, moveColumn, removeColumn, setDoneColumn, toggleTimerColumn } = useWorkflow(workflow, onWorkflowChange);
+  const { addLabel, updateLabel, removeLabel } = useLabels(board.labels, onLabelsChange);
+  const customFields = useMemo(() => board.customFields ?? [], [board.customFields]);
+  const { addField, updateField, moveField, removeField } = useCustomFields(onCustomFieldsChange);
+  const cardFields = useMemo(() => customFields.filter(field => field.showOnCard), [customFields]);
+  const { people, setPeople, currentPerson, setCurrentPersonId, addPerson, updatePerson, removePerson } = usePeople();
+  const { templates, addTemplate, updateTemplate, removeTemplate } = useTaskTemplates();
+  const [initialFilters] = useState(() => loadBoardFilters(board.id));
+  const { tasks, setTasks, isLoaded, isSynced } = useBoardTasks(board.id);
+  const { commit: commitHistory, undo, redo, canUndo, canRedo, nextUndoLabel, nextRedoLabel } =
+    useTaskHistory(board.id, tasks, setTasks);
+  const { attachmentsByTask, storageEstimate, addFiles, removeAttachments, removeTaskAttachments } = useAttachments(board.id);
+  const { events, recordEvents, importEvents } = useActivityLog(board.id, tasks, isLoaded, isSynced, currentPerson?.name);
   const [activeId, setActiveId] = useState<string | null>(null);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterStatus, setFilterStatus] = useState<TaskStatus | 'all'>('all');
+  const [searchTerm, setSearchTerm] = useState(initialFilters.searchTerm);
+  const [filterStatus, setFilterStatus] = useState<TaskStatus | 'all'>(initialFilters.filterStatus);
   const [showDeleteAllDialog, setShowDeleteAllDialog] = useState(false);
-  const [dateFilterType, setDateFilterType] = useState<DateFilterType>('all');
-  const [customDateRange, setCustomDateRange] = useState<DateRange | undefined>();
+  const [dateFilterType, setDateFilterType] = useState<DateFilterType>(initialFilters.dateFilterType);
+  const [customDateRange, setCustomDateRange] = useState<DateRange | undefined>(initialFilters.customDateRange);
+  const [labelFilter, setLabelFilter] = useState<string[]>(initialFilters.labelIds);
+  const [labelMatch, setLabelMatch] = useState<LabelMatchMode>(initialFilters.labelMatch);
+  const [priorityFilter, setPriorityFilter] = useState<TaskPriority | 'all'>(initialFilters.priority);
+  const [prioritySortedColumns, setPrioritySortedColumns] = useState<TaskStatus[]>(initialFilters.prioritySortedColumns);
+  const [assignedToMe, setAssignedToMe] = useState(initialFilters.assignedToMe);
+  const [swimlanes, setSwimlanes] = useState<SwimlaneGrouping>(initialFilters.swimlanes);
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>(initialFilters.collapsedLanes);
+  const [fieldFilter, setFieldFilter] = useState<CustomFieldFilter | null>(initialFilters.fieldFilter);
+  const [fieldSort, setFieldSort] = useState<CustomFieldSort | null>(initialFilters.fieldSort);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showStatistics, setShowStatistics] = useState(true);
+  const [showColumnManager, setShowColumnManager] = useState(false);
+  const [showLabelManager, setShowLabelManager] = useState(false);
+  const [showFieldManager, setShowFieldManager] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showPeople, setShowPeople] = useState(false);
+  const [showActivity, setShowActivity] = useState(false);
+  const [showTimesheet, setShowTimesheet] = useState(false);
+  const [showBoardSettings, setShowBoardSettings] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(loadTrashRetentionDays);
+  const [showArchive, setShowArchive] = useState(false);
+  const [archiveSettings, setArchiveSettings] = useState(loadArchiveSettings);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const [focusedColumn, setFocusedColumn] = useState<number>(0);
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -71,24 +186,8 @@ export function KanbanBoard() {
     })
   );
 
-  // Load tasks from localStorage on mount and request notification permission
+  // Request notification permission on mount
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        setTasks(parsed.map((task: any) => ({
-          ...task,
-          createdAt: new Date(task.createdAt),
-          updatedAt: new Date(task.updatedAt),
-          dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
-        })));
-      } catch (error) {
-        console.error('Failed to load tasks:', error);
-      }
-    }
-    
-    // Request notification permission
     requestNotificationPermission().then(granted => {
       setNotificationsEnabled(granted);
       if (granted) {
@@ -97,17 +196,215 @@ export function KanbanBoard() {
     });
   }, []);
 
-  // Save tasks to localStorage whenever they change
+  const handleUndo = useCallback(() => {
+    const step = undo();
+    if (step?.applied) {
+      toast.info(`Undid: ${step.entry.label}`);
+    } else if (step) {
+      toast.warning(`Could not undo "${step.entry.label}": the task was changed since, maybe in another tab`);
+    }
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    const step = redo();
+    if (step?.applied) {
+      toast.info(`Redid: ${step.entry.label}`);
+    } else if (step) {
+      toast.warning(`Could not redo "${step.entry.label}": the task was changed since, maybe in another tab`);
+    }
+  }, [redo]);
+
+  const undoAction = useMemo(() => ({ label: 'Undo', onClick: handleUndo }), [handleUndo]);
+
+  // Firing a reminder is not an undoable edit, so it bypasses commitTasks
+  const handleReminderShown = useCallback((task: Task) => {
+    recordEvents([createReminderEvent(board.id, task)]);
+    setTasks(prev => prev.map(t => t.id === task.id ? { ...t, notificationSent: true } : t));
+  }, [board.id, recordEvents, setTasks]);
+
+  useReminders(board.id, tasks, notificationsEnabled, handleReminderShown);
+
+  // Completing a recurring task creates its next instance in the same step, so one undo reverts both.
+  // Edits that move a task's due date or reminder let a reminder that already went off fire again.
+  // New tasks are ranked here too, so the history entry holds them as they are saved.
+  const commitTasks = useCallback((label: string, updater: (prev: Task[]) => Task[]) => {
+    let spawned: Task[] = [];
+    commitHistory(label, prev => {
+      const result = spawnRecurrences(workflow, prev, rearmReminders(prev, updater(prev)));
+      spawned = result.spawned;
+      return ensureRanks(result.tasks);
+    });
+
+    if (spawned.length === 1) {
+      toast.info(`Next "${spawned[0].title}" is due ${format(spawned[0].dueDate!, 'PPP')}`);
+    } else if (spawned.length > 1) {
+      toast.info(`Scheduled the next ${spawned.length} recurring tasks`);
+    }
+  }, [commitHistory, workflow]);
+
+  // Filters are remembered per board
+  useEffect(() => {
+    saveBoardFilters(board.id, {
+      searchTerm,
+      filterStatus,
+      dateFilterType,
+      customDateRange,
+      labelIds: labelFilter,
+      labelMatch,
+      priority: priorityFilter,
+      prioritySortedColumns,
+      assignedToMe,
+      swimlanes,
+      collapsedLanes,
+      fieldFilter,
+      fieldSort,
+    });
+  }, [
+    board.id,
+    searchTerm,
+    filterStatus,
+    dateFilterType,
+    customDateRange,
+    labelFilter,
+    labelMatch,
+    priorityFilter,
+    prioritySortedColumns,
+    assignedToMe,
+    swimlanes,
+    collapsedLanes,
+    fieldFilter,
+    fieldSort,
+  ]);
+
+  // Drop a status filter that points at a column which no longer exists
+  useEffect(() => {
+    if (filterStatus !== 'all' && !getColumn(workflow, filterStatus)) {
+      setFilterStatus('all');
+    }
+  }, [workflow, filterStatus]);
+
+  // Likewise for label filters whose label was deleted
+  useEffect(() => {
+    const known = labelFilter.filter(id => board.labels.some(label => label.id === id));
+    if (known.length !== labelFilter.length) {
+      setLabelFilter(known);
+    }
+  }, [board.labels, labelFilter]);
+
+  // And for filtering or sorting by a custom field that was deleted
+  const filterField = customFields.find(field => field.id === fieldFilter?.fieldId);
+  const sortField = customFields.find(field => field.id === fieldSort?.fieldId);
+  useEffect(() => {
+    if (fieldFilter && !filterField) setFieldFilter(null);
+    if (fieldSort && !sortField) setFieldSort(null);
+  }, [fieldFilter, filterField, fieldSort, sortField]);
+
+  // "My tasks" means nothing once nobody is picked as the current profile
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(tasks));
-  }, [tasks]);
+    if (assignedToMe && !currentPerson) {
+      setAssignedToMe(false);
+    }
+  }, [assignedToMe, currentPerson]);
+
+  // Trashed and archived tasks keep their place in the list but stay off the board
+  const boardTasks = useMemo(() => tasks.filter(task => !isTrashed(task) && !isArchived(task)), [tasks]);
+  const trashedTasks = useMemo(() => tasks.filter(isTrashed), [tasks]);
+  const archivedTasks = useMemo(() => tasks.filter(task => isArchived(task) && !isTrashed(task)), [tasks]);
+  const archivableCount = tasks.filter(task => isArchivable(task, workflow, archiveSettings.afterDays)).length;
+  // The rank for the bottom of a column, judged by the cards shown in it
+  const rankAtBottom = (list: Task[], status: TaskStatus) =>
+    rankAfter(list.filter(task => task.status === status && !isTrashed(task) && !isArchived(task)));
+
+  const blockersByTask = useMemo(() => {
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    const result = new Map<string, Task[]>();
+    for (const task of boardTasks) {
+      const blockers = getOpenBlockers(task, tasksById, workflow);
+      if (blockers.length > 0) result.set(task.id, blockers);
+    }
+    return result;
+  }, [tasks, boardTasks, workflow]);
+
+  // Let people know when finishing (or removing) a blocker frees up the tasks waiting on it
+  const previousBlockersRef = useRef<Map<string, Task[]> | null>(null);
+  useEffect(() => {
+    if (!isLoaded) return;
+    const previous = previousBlockersRef.current;
+    previousBlockersRef.current = blockersByTask;
+    if (!previous) return;
+
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    const unblocked = [...previous.keys()]
+      .filter(id => !blockersByTask.has(id))
+      .map(id => tasksById.get(id))
+      .filter((task): task is Task =>
+        !!task && !isTrashed(task) && !isArchived(task) && (task.blockedBy?.length ?? 0) > 0
+      );
+    if (unblocked.length === 1) {
+      toast.info(`"${unblocked[0].title}" is no longer blocked`);
+    } else if (unblocked.length > 1) {
+      toast.info(`${unblocked.length} tasks are no longer blocked`);
+    }
+  }, [isLoaded, tasks, blockersByTask]);
 
-  // Filter and organize tasks into columns
+  // Blocked tasks may not be moved to the done column. A move past a column's WIP limit is
+  // warned about, or refused when the board is strict about limits.
+  const checkCanMove = useCallback((task: Task, status: TaskStatus) => {
+    const blockers = blockersByTask.get(task.id);
+    if (blockers && isDoneStatus(workflow, status)) {
+      toast.error(`"${task.title}" is blocked by ${blockers.map(blocker => `"${blocker.title}"`).join(', ')}`);
+      return false;
+    }
+
+    const column = getColumn(workflow, status);
+    if (!column || task.status === status) return true;
+    const count = boardTasks.filter(t => t.status === status).length + 1;
+    if (!isOverWipLimit(column, count)) return true;
+    if (settings.wipMode === 'strict') {
+      toast.error(`${column.title} is full (WIP limit ${column.wipLimit})`);
+      return false;
+    }
+    toast.warning(`${column.title} is over its WIP limit (${count}/${column.wipLimit})`);
+    return true;
+  }, [blockersByTask, workflow, boardTasks, settings.wipMode]);
+
+  // Purge trashed tasks past the retention period; this is housekeeping, not an undoable edit
+  useEffect(() => {
+    if (!isLoaded) return;
+    const expiredIds = tasks.filter(task => isTrashExpired(task, trashRetentionDays)).map(task => task.id);
+    if (expiredIds.length > 0) {
+      setTasks(prev => prev.filter(task => !isTrashExpired(task, trashRetentionDays)));
+      removeTaskAttachments(expiredIds);
+    }
+  }, [isLoaded, tasks, trashRetentionDays, setTasks, removeTaskAttachments]);
+
+  // Auto-archive is housekeeping too, so it stays out of the undo history
+  useEffect(() => {
+    if (!isLoaded || !archiveSettings.autoArchive) return;
+    const { afterDays } = archiveSettings;
+    if (tasks.some(task => isArchivable(task, workflow, afterDays))) {
+      setTasks(prev => prev.map(task => isArchivable(task, workflow, afterDays) ? archiveTask(task) : task));
+    }
+  }, [isLoaded, tasks, workflow, archiveSettings, setTasks]);
+
+  // So is ranking tasks that arrived without a place in their column (older boards, other tabs)
+  useEffect(() => {
+    if (!isLoaded) return;
+    if (ensureRanks(tasks) !== tasks) {
+      setTasks(prev => ensureRanks(prev));
+    }
+  }, [isLoaded, tasks, setTasks]);
+
+  // Filter and organize tasks into columns, in rank order
   const filteredTasks = useMemo(() => {
-    return tasks.filter(task => {
+    return sortByRank(boardTasks.filter(task => {
       const matchesSearch = task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                           task.description.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesFilter = filterStatus === 'all' || task.status === filterStatus;
+      const matchesLabelFilter = matchesLabels(task, labelFilter, labelMatch);
+      const matchesPriority = priorityFilter === 'all' || getPriority(task) === priorityFilter;
+      const matchesAssignee = !assignedToMe || !currentPerson || isAssignedTo(task, currentPerson.id);
+      const matchesField = !fieldFilter?.value || !filterField || matchesCustomFieldFilter(task, filterField, fieldFilter.value);
       
       // Date filtering
       let matchesDate = true;
@@ -126,7 +423,7 @@ export function KanbanBoard() {
             });
             break;
           case 'overdue':
-            matchesDate = isPast(taskDate) && !isToday(taskDate) && task.status !== 'done';
+            matchesDate = isPast(taskDate) && !isToday(taskDate) && !isDoneStatus(workflow, task.status);
             break;
           case 'custom':
             if (customDateRange?.from && customDateRange?.to) {
@@ -141,27 +438,55 @@ export function KanbanBoard() {
         matchesDate = false;
       }
       
-      return matchesSearch && matchesFilter && matchesDate;
-    });
-  }, [tasks, searchTerm, filterStatus, dateFilterType, customDateRange]);
-
-  const columns: TaskColumnType[] = [
-    {
-      id: 'todo',
-      title: 'To Do',
-      tasks: filteredTasks.filter(task => task.status === 'todo'),
-    },
-    {
-      id: 'in-progress',
-      title: 'In Progress',
-      tasks: filteredTasks.filter(task => task.status === 'in-progress'),
-    },
-    {
-      id: 'done',
-      title: 'Done',
-      tasks: filteredTasks.filter(task => task.status === 'done'),
-    },
-  ];
+      return matchesSearch && matchesFilter && matchesLabelFilter && matchesPriority && matchesAssignee && matchesField && matchesDate;
+    }));
+  }, [
+    boardTasks,
+    searchTerm,
+    filterStatus,
+    labelFilter,
+    labelMatch,
+    priorityFilter,
+    assignedToMe,
+    currentPerson,
+    fieldFilter,
+    filterField,
+    dateFilterType,
+    customDateRange,
+    workflow,
+  ]);
+
+  // Sorting by a custom field applies to every column and takes precedence over priority sorting
+  const columns: TaskColumnType[] = workflow.columns.map(column => {
+    const columnTasks = filteredTasks.filter(task => task.status === column.id);
+    let tasks = prioritySortedColumns.includes(column.id) ? sortByPriority(columnTasks) : columnTasks;
+    if (fieldSort && sortField) {
+      tasks = sortByCustomField(tasks, sortField, fieldSort.direction);
+    }
+    return { ...column, tasks };
+  });
+
+  const laneContext = useMemo(() => ({ labels: board.labels, people }), [board.labels, people]);
+  const lanes = useMemo(
+    () => buildSwimlanes(filteredTasks, swimlanes, laneContext),
+    [filteredTasks, swimlanes, laneContext]
+  );
+
+  // Collapsed lanes belong to one grouping, so switching starts with every lane open
+  const changeSwimlanes = (grouping: SwimlaneGrouping) => {
+    setSwimlanes(grouping);
+    setCollapsedLanes([]);
+  };
+
+  const toggleLane = (laneId: string) => {
+    setCollapsedLanes(prev => prev.includes(laneId) ? prev.filter(id => id !== laneId) : [...prev, laneId]);
+  };
+
+  const togglePrioritySort = (columnId: TaskStatus) => {
+    setPrioritySortedColumns(prev =>
+      prev.includes(columnId) ? prev.filter(id => id !== columnId) : [...prev, columnId]
+    );
+  };
 
   const handleDragStart = (event: DragStartEvent) => {
     setActiveId(event.active.id as string);
@@ -181,56 +506,62 @@ export function KanbanBoard() {
       return;
     }
 
-    // Determine the target status - either from column drop or task drop
+    // Determine the target status - from a column, a swimlane cell or a task drop
     let targetStatus: TaskStatus | null = null;
-    let dropIndex: number | undefined;
+    let targetLaneId: string | undefined;
+    let dropRank: string | undefined;
+    const laneDrop = over.data.current as LaneDropData | undefined;
     
-    // Check if dropped directly on a column
-    if (['todo', 'in-progress', 'done'].includes(over.id as string)) {
+    if (laneDrop?.laneId !== undefined) {
+      targetStatus = laneDrop.status;
+      targetLaneId = laneDrop.laneId;
+    } else if (getColumn(workflow, over.id as string)) {
+      // Dropped directly on a column
       targetStatus = over.id as TaskStatus;
     } else {
-      // Dropped on a task - find which column it belongs to
+      // Dropped on a task - find which column (and lane) it belongs to
       const overTask = tasks.find(task => task.id === over.id);
       if (overTask) {
         targetStatus = overTask.status;
-        // Calculate the drop position
-        const columnTasks = tasks.filter(task => task.status === overTask.status);
-        dropIndex = columnTasks.findIndex(task => task.id === over.id);
+        if (swimlanes !== 'none') {
+          targetLaneId = getLaneId(overTask, swimlanes, laneContext);
+        }
+        // Sorted columns have no manual order to drop into. Elsewhere the card lands next to the
+        // one it was dropped on, among the cards still visible under the filters.
+        if (!prioritySortedColumns.includes(overTask.status) && !sortField) {
+          const visible = (columns.find(column => column.id === overTask.status)?.tasks ?? [])
+            .filter(task => targetLaneId === undefined || getLaneId(task, swimlanes, laneContext) === targetLaneId);
+          dropRank = getDropRank(visible, activeTask.id, overTask.id);
+        }
       }
     }
 
-    if (!targetStatus) {
+    const isMove = targetStatus !== null && activeTask.status !== targetStatus;
+    const sourceLaneId = getLaneId(activeTask, swimlanes, laneContext);
+    // Dropping onto a task in a lane that takes no drops (like Overdue) only changes the column
+    const targetLane = lanes.find(lane => lane.id === targetLaneId && lane.canDrop && lane.id !== sourceLaneId);
+    if (
+      !targetStatus ||
+      (!isMove && !targetLane && dropRank === undefined) ||
+      (isMove && !checkCanMove(activeTask, targetStatus))
+    ) {
       setActiveId(null);
       return;
     }
 
-    // Update the task status and reorder if needed
-    setTasks(prevTasks => {
-      let updatedTasks = [...prevTasks];
-      
-      // First, update the task status if it changed
-      if (activeTask.status !== targetStatus) {
-        updatedTasks = updatedTasks.map(task =>
-          task.id === active.id
-            ? { ...task, status: targetStatus, updatedAt: new Date() }
-            : task
-        );
-      }
-      
-      // Then handle reordering within the target column
-      if (dropIndex !== undefined) {
-        const targetColumnTasks = updatedTasks.filter(task => task.status === targetStatus);
-        const activeTaskIndex = targetColumnTasks.findIndex(task => task.id === active.id);
-        
-        if (activeTaskIndex !== -1 && activeTaskIndex !== dropIndex) {
-          const reorderedColumnTasks = arrayMove(targetColumnTasks, activeTaskIndex, dropIndex);
-          const otherTasks = updatedTasks.filter(task => task.status !== targetStatus);
-          updatedTasks = [...otherTasks, ...reorderedColumnTasks];
+    // Update the task status, lane and rank. A card dropped on a column rather than on another
+    // card goes to the bottom of it.
+    commitTasks(isMove || targetLane ? 'Move task' : 'Reorder task', prevTasks =>
+      prevTasks.map(task => {
+        if (task.id !== active.id) return task;
+        let moved = isMove ? withStatus(workflow, task, targetStatus) : task;
+        if (targetLane) {
+          moved = moveToLane(moved, swimlanes, sourceLaneId, targetLane.id);
         }
-      }
-      
-      return updatedTasks;
-    });
+        const rank = dropRank ?? rankAtBottom(prevTasks.filter(t => t.id !== task.id), targetStatus);
+        return { ...moved, rank, updatedAt: new Date() };
+      })
+    );
     
     // Clear filters if needed to show the moved task
     if (activeTask.status !== targetStatus) {
@@ -249,7 +580,9 @@ export function KanbanBoard() {
         }
       }
       
-      toast.success(`Task moved to ${columns.find(c => c.id === targetStatus)?.title}`);
+      toast.success(`Task moved to ${columns.find(c => c.id === targetStatus)?.title}`, { action: undoAction });
+    } else if (targetLane) {
+      toast.success(`Task moved to ${targetLane.title}`, { action: undoAction });
     }
     
     setActiveId(null);
@@ -260,79 +593,313 @@ export function KanbanBoard() {
     description: string; 
     dueDate?: Date; 
     dueTime?: string; 
-    reminderTime?: number 
+    reminderTime?: number;
+    priority?: TaskPriority;
+    checklist?: ChecklistItem[];
+    labelIds?: string[];
+    assigneeIds?: string[];
+    recurrence?: TaskRecurrence;
+    estimate?: number;
+    customFields?: Record<string, CustomFieldValue>;
   }) => {
     const newTask: Task = {
       id: Date.now().toString(),
       title: taskData.title,
       description: taskData.description,
-      status: 'todo',
+      status: getInitialStatus(workflow),
       createdAt: new Date(),
       updatedAt: new Date(),
       dueDate: taskData.dueDate,
       dueTime: taskData.dueTime,
       reminderTime: taskData.reminderTime,
+      priority: taskData.priority,
+      checklist: taskData.checklist,
+      labelIds: taskData.labelIds,
+      assigneeIds: taskData.assigneeIds,
+      recurrence: taskData.recurrence,
+      estimate: taskData.estimate,
+      customFields: taskData.customFields,
     };
-    setTasks(prev => [...prev, newTask]);
-    
-    // Schedule notification if reminder is set
-    if (newTask.reminderTime && notificationsEnabled) {
-      scheduleNotification(newTask);
+    commitTasks('Add task', prev => [...prev, { ...newTask, rank: rankAtBottom(prev, newTask.status) }]);
+    toast.success('Task added successfully', { action: undoAction });
+  };
+
+  const handleUseTemplate = (template: TaskTemplate) => {
+    handleAddTask(applyTemplate(template, board.labels));
+  };
+
+  const handleSaveAsTemplate = (task: Task) => {
+    addTemplate(createTemplateFromTask(task, board.labels));
+    toast.success(`Saved "${task.title}" as a template`, {
+      action: { label: 'Templates', onClick: () => setShowTemplates(true) },
+    });
+  };
+
+  // The new task lands next to its parent, in the same column
+  // A checklist completing moves its task only where a manual move would be allowed; otherwise the
+  // task stays in its column
+  const completeChecklist = (task: Task): Task => {
+    const completed = applyChecklistCompletion(workflow, task);
+    return completed.status === task.status || checkCanMove(task, completed.status) ? completed : task;
+  };
+
+  const handleConvertChecklistItem = (parent: Task, item: ChecklistItem) => {
+    const now = new Date();
+    const newTask: Task = {
+      id: createId(),
+      title: item.text.slice(0, 100),
+      description: `From checklist of "${parent.title}"`,
+      status: parent.status,
+      createdAt: now,
+      updatedAt: now,
+    };
+    // Like an edit, removing the last open item only completes the parent once nothing blocks it
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    const isBlocked = getOpenBlockers(parent, tasksById, workflow).length > 0;
+    const current = tasksById.get(parent.id) ?? parent;
+    const remaining = { ...current, checklist: current.checklist?.filter(i => i.id !== item.id), updatedAt: now };
+    const updatedParent = isBlocked ? remaining : completeChecklist(remaining);
+    commitTasks('Convert checklist item', prev => {
+      const index = prev.findIndex(task => task.id === parent.id);
+      const next = prev.map(task => task.id === parent.id ? updatedParent : task);
+      next.splice(index + 1, 0, newTask);
+      return next;
+    });
+    toast.success(`"${newTask.title}" added as a task`, { action: undoAction });
+  };
+
+  const handleEditTask = (editedTask: Task) => {
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    const isBlocked = getOpenBlockers(editedTask, tasksById, workflow).length > 0;
+    const updatedTask = isBlocked ? editedTask : completeChecklist(editedTask);
+    // Comments and time entries saved while the modal was open are newer than the copy it was editing
+    commitTasks('Edit task', prev =>
+      prev.map(task =>
+        task.id === updatedTask.id
+          ? { ...updatedTask, comments: task.comments, timeEntries: task.timeEntries }
+          : task
+      )
+    );
+    if (updatedTask.status !== editedTask.status) {
+      toast.info(`Checklist complete - moved to ${getColumnTitle(workflow, updatedTask.status)}`);
     }
-    
-    toast.success('Task added successfully');
+    toast.success('Task updated successfully', { action: undoAction });
   };
 
-  const handleEditTask = (updatedTask: Task) => {
-    setTasks(prev =>
+  const handleToggleDescriptionTask = (taskId: string, line: number) => {
+    commitTasks('Toggle description item', prev =>
       prev.map(task =>
-        task.id === updatedTask.id ? updatedTask : task
+        task.id === taskId
+          ? { ...task, description: toggleTaskListItem(task.description, line), updatedAt: new Date() }
+          : task
       )
     );
-    
-    // Schedule notification if reminder is set
-    if (updatedTask.reminderTime && notificationsEnabled) {
-      scheduleNotification(updatedTask);
+  };
+
+  const handleStartTimer = (taskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+    const running = tasks.find(t => t.id !== taskId && getRunningEntry(t));
+    const timerStatus = getTimerStatus(workflow, task);
+    // A full column keeps the task where it is; the timer still starts
+    const movesTo = timerStatus && checkCanMove(task, timerStatus) ? timerStatus : undefined;
+    const timerWorkflow = movesTo ? workflow : { ...workflow, timerColumnId: undefined };
+    commitTasks('Start timer', prev => startTimer(timerWorkflow, prev, taskId));
+    if (running) {
+      toast.info(`Stopped the timer on "${running.title}"`);
     }
-    
-    toast.success('Task updated successfully');
+    onStopOtherTimers()
+      .then(stopped => stopped.forEach(other => toast.info(`Stopped the timer on "${other.title}"`)))
+      .catch(error => {
+        console.error('Failed to stop timers on other boards:', error);
+        toast.error('Failed to stop timers on other boards');
+      });
+    if (movesTo) {
+      toast.success(`Timer started - moved to ${getColumnTitle(workflow, movesTo)}`, { action: undoAction });
+    }
+  };
+
+  const handleStopTimer = (taskId: string) => {
+    commitTasks('Stop timer', prev => prev.map(task => task.id === taskId ? stopTimer(task) : task));
+  };
+
+  const handleAddTimeEntry = (taskId: string, entry: TimeEntry) => {
+    commitTasks('Add time entry', prev =>
+      prev.map(task =>
+        task.id === taskId
+          ? { ...task, timeEntries: [...(task.timeEntries ?? []), entry], updatedAt: new Date() }
+          : task
+      )
+    );
+  };
+
+  const handleUpdateTimeEntry = (taskId: string, entry: TimeEntry) => {
+    commitTasks('Edit time entry', prev =>
+      prev.map(task =>
+        task.id === taskId
+          ? { ...task, timeEntries: task.timeEntries?.map(e => e.id === entry.id ? entry : e), updatedAt: new Date() }
+          : task
+      )
+    );
+  };
+
+  const handleDeleteTimeEntry = (taskId: string, entryId: string) => {
+    commitTasks('Delete time entry', prev =>
+      prev.map(task => {
+        if (task.id !== taskId) return task;
+        const timeEntries = task.timeEntries?.filter(entry => entry.id !== entryId);
+        return { ...task, timeEntries: timeEntries?.length ? timeEntries : undefined, updatedAt: new Date() };
+      })
+    );
+    toast.success('Time entry deleted', { action: undoAction });
+  };
+
+  const handleAddComment = (taskId: string, body: string) => {
+    const comment = createComment(body, currentPerson);
+    commitTasks('Add comment', prev =>
+      prev.map(task =>
+        task.id === taskId
+          ? { ...task, comments: [...(task.comments ?? []), comment], updatedAt: new Date() }
+          : task
+      )
+    );
+  };
+
+  const handleUpdateComment = (taskId: string, commentId: string, body: string) => {
+    const now = new Date();
+    commitTasks('Edit comment', prev =>
+      prev.map(task =>
+        task.id === taskId
+          ? {
+              ...task,
+              comments: task.comments?.map(comment =>
+                comment.id === commentId
+                  ? { ...comment, body: body.trim().slice(0, MAX_COMMENT_LENGTH), editedAt: now }
+                  : comment
+              ),
+              updatedAt: now,
+            }
+          : task
+      )
+    );
+  };
+
+  const handleDeleteComment = (taskId: string, commentId: string) => {
+    commitTasks('Delete comment', prev =>
+      prev.map(task => {
+        if (task.id !== taskId) return task;
+        const comments = task.comments?.filter(comment => comment.id !== commentId);
+        return { ...task, comments: comments?.length ? comments : undefined, updatedAt: new Date() };
+      })
+    );
+    toast.success('Comment deleted', { action: undoAction });
   };
 
   const handleDeleteTask = () => {
     if (deleteTaskId) {
-      setTasks(prev => prev.filter(task => task.id !== deleteTaskId));
+      commitTasks('Delete task', prev => prev.map(task => task.id === deleteTaskId ? moveToTrash(task) : task));
       setDeleteTaskId(null);
-      toast.success('Task deleted successfully');
+      toast.success('Task moved to trash', { action: undoAction });
     }
   };
 
   const handleCompleteTask = (taskId: string) => {
-    setTasks(prev =>
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || !checkCanMove(task, workflow.doneColumnId)) return;
+    commitTasks('Complete task', prev =>
       prev.map(task =>
         task.id === taskId
-          ? { ...task, status: 'done', updatedAt: new Date() }
+          ? withStatus(workflow, task, workflow.doneColumnId)
           : task
       )
     );
-    toast.success('Task marked as complete');
+    toast.success('Task marked as complete', { action: undoAction });
   };
 
   const handleClearCompleted = () => {
-    setTasks(prev => prev.filter(task => task.status !== 'done'));
-    toast.success('Completed tasks cleared');
+    commitTasks('Clear completed', prev =>
+      prev.map(task => !isTrashed(task) && isDoneStatus(workflow, task.status) ? moveToTrash(task) : task)
+    );
+    toast.success('Completed tasks moved to trash', { action: undoAction });
   };
 
   const handleDeleteAll = () => {
-    setTasks([]);
+    commitTasks('Delete all tasks', prev => prev.map(task => isTrashed(task) ? task : moveToTrash(task)));
     setShowDeleteAllDialog(false);
-    toast.success('All tasks deleted');
+    toast.success('All tasks moved to trash', { action: undoAction });
+  };
+
+  const handleRestoreTasks = (taskIds: string[]) => {
+    const ids = new Set(taskIds);
+    commitTasks(ids.size === 1 ? 'Restore task' : 'Restore tasks', prev =>
+      prev.map(task => ids.has(task.id) && isTrashed(task) ? restoreFromTrash(task) : task)
+    );
+    toast.success(ids.size === 1 ? 'Task restored' : `${ids.size} tasks restored`, { action: undoAction });
+  };
+
+  const handlePurgeTasks = (taskIds: string[]) => {
+    const ids = new Set(taskIds);
+    commitTasks(ids.size === 1 ? 'Purge task' : 'Purge tasks', prev =>
+      prev.filter(task => !(ids.has(task.id) && isTrashed(task)))
+    );
+    removeTaskAttachments(trashedTasks.filter(task => ids.has(task.id)).map(task => task.id));
+    toast.success(ids.size === 1 ? 'Task permanently deleted' : `${ids.size} tasks permanently deleted`);
+  };
+
+  const handleArchiveTask = (taskId: string) => {
+    commitTasks('Archive task', prev => prev.map(task => task.id === taskId ? archiveTask(task) : task));
+    toast.success('Task archived', { action: undoAction });
+  };
+
+  const handleArchiveDone = () => {
+    const { afterDays } = archiveSettings;
+    commitTasks('Archive done tasks', prev =>
+      prev.map(task => isArchivable(task, workflow, afterDays) ? archiveTask(task) : task)
+    );
+    toast.success(`${archivableCount} task(s) archived`, { action: undoAction });
+  };
+
+  const handleUnarchiveTask = (taskId: string) => {
+    commitTasks('Unarchive task', prev => prev.map(task => task.id === taskId ? unarchiveTask(task) : task));
+    toast.success('Task moved back to the board', { action: undoAction });
+  };
+
+  const handleArchiveSettingsChange = (settings: ArchiveSettings) => {
+    setArchiveSettings(settings);
+    saveArchiveSettings(settings);
   };
 
+  const handleTrashRetentionChange = (days: number) => {
+    setTrashRetentionDays(days);
+    saveTrashRetentionDays(days);
+  };
+
+  const boardSlug = board.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'board';
+
   const handleExport = () => {
-    const dataStr = JSON.stringify(tasks, null, 2);
+    const exportedTasks = tasks.filter(task => !isTrashed(task));
+    // Only the people these tasks mention, as assignees or comment authors, travel with the file
+    const referencedIds = new Set(exportedTasks.flatMap(task => [
+      ...(task.assigneeIds ?? []),
+      ...(task.comments ?? []).flatMap(comment => comment.authorId ? [comment.authorId] : []),
+    ]));
+    const exportedPeople = people.filter(person => referencedIds.has(person.id));
+    const dataStr = JSON.stringify(
+      {
+        version: 1,
+        board: board.name,
+        labels: board.labels,
+        people: exportedPeople,
+        customFields,
+        tasks: exportedTasks,
+        events,
+      },
+      null,
+      2
+    );
     const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
     
-    const exportFileDefaultName = `tasks_${new Date().toISOString().split('T')[0]}.json`;
+    const exportFileDefaultName = `${boardSlug}_tasks_${new Date().toISOString().split('T')[0]}.json`;
     
     const linkElement = document.createElement('a');
     linkElement.setAttribute('href', dataUri);
@@ -342,14 +909,47 @@ export function KanbanBoard() {
     toast.success('Tasks exported successfully');
   };
 
+  // A flat table for spreadsheets; comments, checklists and history only travel in the JSON export
+  const handleExportCsv = () => {
+    const rows = tasksToRows(tasks.filter(task => !isTrashed(task)), { workflow, labels: board.labels, people, customFields });
+    downloadCsv(`${boardSlug}_tasks_${new Date().toISOString().split('T')[0]}.csv`, toCsv(rows));
+    toast.success('Tasks exported successfully');
+  };
+
   const handleImport = (file: File) => {
+    const isCsv = file.name.toLowerCase().endsWith('.csv');
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const imported = JSON.parse(e.target?.result as string);
+        const text = e.target?.result as string;
+        // A CSV file is read into the shape of a JSON export, so both share the checks below
+        const parsed = isCsv ? parseTaskRows(parseCsv(text), { workflow, customFields }) : JSON.parse(text);
+        // Older exports are a bare array of tasks; newer ones wrap tasks and their activity
+        const imported = Array.isArray(parsed) ? parsed : parsed?.tasks;
         if (Array.isArray(imported)) {
+          // Labels are matched to the board's by name; unknown label ids are dropped
+          const { labels: mergedLabels, idMap: labelIdMap } = mergeLabels(board.labels, parsed?.labels);
+          const knownLabelIds = new Set(mergedLabels.map(label => label.id));
+          const importLabelIds = (raw: unknown): string[] | undefined => {
+            if (!Array.isArray(raw)) return undefined;
+            const ids = raw
+              .map(id => labelIdMap.get(String(id)) ?? String(id))
+              .filter(id => knownLabelIds.has(id));
+            return ids.length > 0 ? [...new Set(ids)] : undefined;
+          };
+          const { people: mergedPeople, idMap: personIdMap } = mergePeople(people, parsed?.people);
+          const knownPersonIds = new Set(mergedPeople.map(person => person.id));
+          const importAssigneeIds = (raw: unknown): string[] | undefined => {
+            if (!Array.isArray(raw)) return undefined;
+            const ids = raw
+              .map(id => personIdMap.get(String(id)) ?? String(id))
+              .filter(id => knownPersonIds.has(id));
+            return ids.length > 0 ? [...new Set(ids)] : undefined;
+          };
+          const { fields: mergedFields, idMap: fieldIdMap } = mergeCustomFields(customFields, parsed?.customFields);
+
           // Validate and sanitize each task
-          const validTasks = imported
+          const validTasks: Task[] = imported
             .filter((task: any) => 
               typeof task === 'object' && 
               task !== null &&
@@ -359,12 +959,26 @@ export function KanbanBoard() {
             .map((task: any) => ({
               id: String(task.id || Date.now().toString() + Math.random()),
               title: String(task.title).slice(0, 100).trim(), // Enforce max length
-              description: String(task.description || '').slice(0, 500).trim(), // Enforce max length
-              status: ['todo', 'in-progress', 'done'].includes(task.status) 
-                ? task.status 
-                : 'todo', // Validate status
+              description: String(task.description || '').slice(0, MAX_DESCRIPTION_LENGTH).trim(), // Enforce max length
+              status: normalizeStatus(workflow, task.status), // Validate status against the workflow
+              rank: isValidRank(task.rank) ? task.rank : undefined,
+              dueDate: task.dueDate && isValid(new Date(task.dueDate)) ? new Date(task.dueDate) : undefined,
+              dueTime: typeof task.dueTime === 'string' && /^\d{2}:\d{2}$/.test(task.dueTime) ? task.dueTime : undefined,
               createdAt: new Date(task.createdAt || Date.now()),
               updatedAt: new Date(task.updatedAt || Date.now()),
+              priority: isTaskPriority(task.priority) && task.priority !== 'none' ? task.priority : undefined,
+              estimate: parseEstimate(task.estimate),
+              checklist: parseChecklist(task.checklist),
+              completeWithChecklist: task.completeWithChecklist === true || undefined,
+              completedAt: task.completedAt && isValid(new Date(task.completedAt)) ? new Date(task.completedAt) : undefined,
+              archivedAt: task.archivedAt && isValid(new Date(task.archivedAt)) ? new Date(task.archivedAt) : undefined,
+              blockedBy: Array.isArray(task.blockedBy) ? task.blockedBy.map(String) : undefined,
+              labelIds: importLabelIds(task.labelIds),
+              assigneeIds: importAssigneeIds(task.assigneeIds),
+              comments: parseComments(task.comments, personIdMap),
+              timeEntries: parseTimeEntries(task.timeEntries),
+              recurrence: parseRecurrence(task.recurrence),
+              customFields: parseCustomFieldValues(mergedFields, task.customFields, fieldIdMap),
             }));
           
           if (validTasks.length === 0) {
@@ -372,21 +986,158 @@ export function KanbanBoard() {
             return;
           }
           
-          setTasks(validTasks);
-          toast.success(`Imported ${validTasks.length} tasks successfully`);
+          // Fresh ids keep imports from clashing with existing tasks; links and history follow along
+          const { tasks: importedTasks, idMap } = remapTaskIds(validTasks);
+          const importedEvents = (Array.isArray(parsed?.events) ? parsed.events : [])
+            .map((raw: unknown) => deserializeEvent(raw, board.id))
+            .filter((event: TaskEvent | null): event is TaskEvent => !!event && idMap.has(event.taskId))
+            .map((event: TaskEvent) => ({ ...event, id: createId(), taskId: idMap.get(event.taskId)! }));
+          importEvents(importedEvents);
+          if (mergedLabels.length > board.labels.length) {
+            onLabelsChange(() => mergedLabels);
+          }
+          if (mergedPeople.length > people.length) {
+            setPeople(() => mergedPeople);
+          }
+          if (fieldIdMap.size > 0) {
+            onCustomFieldsChange(() => mergedFields);
+          }
+          // The trash survives an import
+          commitTasks('Import tasks', prev => [...importedTasks, ...prev.filter(isTrashed)]);
+          toast.success(`Imported ${validTasks.length} tasks successfully`, { action: undoAction });
         } else {
-          toast.error('Invalid file format - expected an array of tasks');
+          toast.error('Invalid file format - expected exported tasks');
         }
       } catch (error) {
         console.error('Import error:', error);
-        toast.error('Failed to import tasks - invalid JSON format');
+        toast.error(`Failed to import tasks - invalid ${isCsv ? 'CSV' : 'JSON'} format`);
       }
     };
     reader.readAsText(file);
   };
 
   const activeTask = tasks.find(task => task.id === activeId);
-  const completedCount = tasks.filter(task => task.status === 'done').length;
+  const completedCount = boardTasks.filter(task => isDoneStatus(workflow, task.status)).length;
+
+  const taskCounts = useMemo(() => {
+    return boardTasks.reduce((counts, task) => {
+      counts[task.status] = (counts[task.status] ?? 0) + 1;
+      return counts;
+    }, {} as Record<TaskStatus, number>);
+  }, [boardTasks]);
+
+  // The same column is rendered whole, or cut into one cell per swimlane
+  const renderColumn = (column: TaskColumnType, lane?: Swimlane) => (
+    <TaskColumn
+      key={lane ? `${lane.id}:${column.id}` : column.id}
+      column={column}
+      lane={lane}
+      wipCount={taskCounts[column.id] ?? 0}
+      isDoneColumn={isDoneStatus(workflow, column.id)}
+      selectedTaskId={selectedTaskId}
+      blockersByTask={blockersByTask}
+      labels={board.labels}
+      people={people}
+      cardFields={cardFields}
+      attachmentCounts={attachmentCounts}
+      onAttachFiles={addFiles}
+      onToggleDescriptionTask={handleToggleDescriptionTask}
+      onStartTimer={handleStartTimer}
+      onStopTimer={handleStopTimer}
+      estimateUnit={settings.estimateUnit}
+      isPrioritySorted={prioritySortedColumns.includes(column.id)}
+      onTogglePrioritySort={() => togglePrioritySort(column.id)}
+      onEdit={(task) => {
+        setEditingTask(task);
+        setIsEditModalOpen(true);
+      }}
+      onDelete={setDeleteTaskId}
+      onComplete={handleCompleteTask}
+      onArchive={handleArchiveTask}
+      onTaskSelect={setSelectedTaskId}
+    />
+  );
+
+  const labelCounts = useMemo(() => {
+    return boardTasks.reduce((counts, task) => {
+      for (const id of task.labelIds ?? []) {
+        counts[id] = (counts[id] ?? 0) + 1;
+      }
+      return counts;
+    }, {} as Record<string, number>);
+  }, [boardTasks]);
+
+  const attachmentCounts = useMemo(
+    () => new Map([...attachmentsByTask].map(([taskId, attachments]) => [taskId, attachments.length])),
+    [attachmentsByTask]
+  );
+
+  const assignedCounts = useMemo(() => {
+    return boardTasks.reduce((counts, task) => {
+      for (const id of task.assigneeIds ?? []) {
+        counts[id] = (counts[id] ?? 0) + 1;
+      }
+      return counts;
+    }, {} as Record<string, number>);
+  }, [boardTasks]);
+
+  // Trashed and archived tasks lose the label too, so a restore never shows a dangling id
+  const handleRemoveLabel = (labelId: string) => {
+    if (tasks.some(task => task.labelIds?.includes(labelId))) {
+      commitTasks('Remove label', prev =>
+        prev.map(task => {
+          if (!task.labelIds?.includes(labelId)) return task;
+          const labelIds = task.labelIds.filter(id => id !== labelId);
+          return { ...task, labelIds: labelIds.length > 0 ? labelIds : undefined, updatedAt: new Date() };
+        })
+      );
+    }
+    removeLabel(labelId);
+  };
+
+  const fieldCounts = useMemo(() => {
+    return boardTasks.reduce((counts, task) => {
+      for (const id of Object.keys(task.customFields ?? {})) {
+        counts[id] = (counts[id] ?? 0) + 1;
+      }
+      return counts;
+    }, {} as Record<string, number>);
+  }, [boardTasks]);
+
+  // As with labels, every task loses the value, trashed and archived ones included
+  const handleRemoveField = (fieldId: string) => {
+    if (tasks.some(task => task.customFields && fieldId in task.customFields)) {
+      commitTasks('Remove custom field', prev =>
+        prev.map(task => {
+          if (!task.customFields || !(fieldId in task.customFields)) return task;
+          const { [fieldId]: _removed, ...rest } = task.customFields;
+          return { ...task, customFields: Object.keys(rest).length > 0 ? rest : undefined, updatedAt: new Date() };
+        })
+      );
+    }
+    removeField(fieldId);
+  };
+
+  const handleRemoveColumn = (columnId: TaskStatus) => {
+    const fallback = getFallbackStatus(workflow, columnId);
+    if (!fallback) return;
+
+    // Trashed tasks move too, so a restore never lands in a missing column
+    const movedCount = taskCounts[columnId] ?? 0;
+    commitTasks('Move tasks out of deleted column', prev =>
+      prev.map(task =>
+        task.status === columnId
+          ? withStatus(workflow, task, fallback)
+          : task
+      )
+    );
+    removeColumn(columnId);
+    toast.success(
+      movedCount > 0
+        ? `Column deleted, ${movedCount} task(s) moved to ${getColumnTitle(workflow, fallback)}`
+        : 'Column deleted'
+    );
+  };
 
   const handleDateFilterChange = (type: DateFilterType, range?: DateRange) => {
     setDateFilterType(type);
@@ -407,8 +1158,8 @@ export function KanbanBoard() {
 
   // Keyboard navigation helpers
   const getSelectedTask = useCallback(() => {
-    return tasks.find(t => t.id === selectedTaskId);
-  }, [tasks, selectedTaskId]);
+    return boardTasks.find(t => t.id === selectedTaskId);
+  }, [boardTasks, selectedTaskId]);
 
   const selectNextTask = useCallback(() => {
     const allTasks = filteredTasks;
@@ -436,32 +1187,48 @@ export function KanbanBoard() {
 
   const moveTaskToStatus = useCallback((status: TaskStatus) => {
     const task = getSelectedTask();
-    if (task && task.status !== status) {
-      setTasks(prev => 
+    if (task && task.status !== status && checkCanMove(task, status)) {
+      commitTasks('Move task', prev => 
         prev.map(t => 
           t.id === task.id 
-            ? { ...t, status, updatedAt: new Date() }
+            ? withStatus(workflow, t, status)
             : t
         )
       );
-      toast.success(`Task moved to ${status}`);
+      toast.success(`Task moved to ${getColumnTitle(workflow, status)}`, { action: undoAction });
     }
-  }, [getSelectedTask]);
+  }, [getSelectedTask, workflow, commitTasks, undoAction, checkCanMove]);
 
   const toggleTaskCompletion = useCallback(() => {
     const task = getSelectedTask();
     if (task) {
-      const newStatus = task.status === 'done' ? 'todo' : 'done';
-      setTasks(prev =>
+      const isDone = isDoneStatus(workflow, task.status);
+      const newStatus = isDone ? getInitialStatus(workflow) : workflow.doneColumnId;
+      if (!checkCanMove(task, newStatus)) return;
+      commitTasks(isDone ? 'Reopen task' : 'Complete task', prev =>
         prev.map(t =>
           t.id === task.id
-            ? { ...t, status: newStatus, updatedAt: new Date() }
+            ? withStatus(workflow, t, newStatus)
             : t
         )
       );
-      toast.success(newStatus === 'done' ? 'Task completed' : 'Task reopened');
+      toast.success(isDone ? 'Task reopened' : 'Task completed', { action: undoAction });
     }
-  }, [getSelectedTask]);
+  }, [getSelectedTask, workflow, commitTasks, undoAction, checkCanMove]);
+
+  const setSelectedTaskPriority = useCallback((priority: TaskPriority) => {
+    const task = getSelectedTask();
+    if (task && getPriority(task) !== priority) {
+      commitTasks('Change priority', prev =>
+        prev.map(t =>
+          t.id === task.id
+            ? { ...t, priority: priority !== 'none' ? priority : undefined, updatedAt: new Date() }
+            : t
+        )
+      );
+      toast.success(`Priority set to ${getPriorityLevel(priority).label}`, { action: undoAction });
+    }
+  }, [getSelectedTask, commitTasks, undoAction]);
 
   const deleteSelectedTask = useCallback(() => {
     if (selectedTaskId) {
@@ -486,7 +1253,7 @@ export function KanbanBoard() {
           id: `ai-${Date.now()}-1`,
           title: 'Review quarterly goals',
           description: 'Analyze progress on Q4 objectives and prepare report',
-          status: 'todo',
+          status: getInitialStatus(workflow),
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -494,7 +1261,7 @@ export function KanbanBoard() {
           id: `ai-${Date.now()}-2`,
           title: 'Schedule team meeting',
           description: 'Organize weekly sync to discuss project updates',
-          status: 'todo',
+          status: getInitialStatus(workflow),
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -502,22 +1269,33 @@ export function KanbanBoard() {
           id: `ai-${Date.now()}-3`,
           title: 'Update documentation',
           description: 'Ensure all project documentation is current',
-          status: 'todo',
+          status: getInitialStatus(workflow),
           createdAt: new Date(),
           updatedAt: new Date(),
         }
       ];
-      setTasks(prev => [...prev, ...aiTasks]);
-      toast.success('AI tasks generated successfully');
+      commitTasks('Generate AI tasks', prev => [...prev, ...aiTasks]);
+      toast.success('AI tasks generated successfully', { action: undoAction });
     } catch (error) {
       toast.error('Failed to generate AI tasks');
     }
-  }, []);
+  }, [workflow, commitTasks, undoAction]);
+
+  const focusColumn = useCallback((index: number) => {
+    setFocusedColumn(index);
+    const firstTask = filteredTasks.find(task => task.status === workflow.columns[index]?.id);
+    if (firstTask) {
+      setSelectedTaskId(firstTask.id);
+    }
+  }, [filteredTasks, workflow]);
 
   // Set up keyboard shortcuts
   const shortcuts: ShortcutConfig[] = [
     // Task Management
     { key: 'n', ctrl: true, action: () => setIsAddModalOpen(true), description: 'New task' },
+    { key: 'z', ctrl: true, action: handleUndo, description: 'Undo' },
+    { key: 'z', ctrl: true, shift: true, action: handleRedo, description: 'Redo' },
+    { key: 'y', ctrl: true, action: handleRedo, description: 'Redo' },
     { key: 'Delete', action: deleteSelectedTask, description: 'Delete selected task' },
     { key: 'Enter', action: editSelectedTask, description: 'Edit selected task' },
     { key: 'd', ctrl: true, shift: true, action: handleClearCompleted, description: 'Delete all completed' },
@@ -526,15 +1304,25 @@ export function KanbanBoard() {
     // Navigation
     { key: 'ArrowUp', action: selectPreviousTask, description: 'Previous task' },
     { key: 'ArrowDown', action: selectNextTask, description: 'Next task' },
-    { key: '1', action: () => setFocusedColumn(0), description: 'Focus Todo' },
-    { key: '2', action: () => setFocusedColumn(1), description: 'Focus In Progress' },
-    { key: '3', action: () => setFocusedColumn(2), description: 'Focus Done' },
+    ...workflow.columns.slice(0, COLUMN_FOCUS_KEYS.length).map((column, index) => ({
+      key: COLUMN_FOCUS_KEYS[index],
+      action: () => focusColumn(index),
+      description: `Focus ${column.title}`,
+    })),
     
     // Task Movement
-    { key: 'q', action: () => moveTaskToStatus('todo'), description: 'Move to Todo' },
-    { key: 'w', action: () => moveTaskToStatus('in-progress'), description: 'Move to In Progress' },
-    { key: 'e', action: () => moveTaskToStatus('done'), description: 'Move to Done' },
+    ...workflow.columns.slice(0, COLUMN_MOVE_KEYS.length).map((column, index) => ({
+      key: COLUMN_MOVE_KEYS[index],
+      action: () => moveTaskToStatus(column.id),
+      description: `Move to ${column.title}`,
+    })),
     { key: ' ', action: toggleTaskCompletion, description: 'Toggle completion' },
+    ...PRIORITY_LEVELS.map(level => ({
+      key: PRIORITY_KEYS[level.value],
+      alt: true,
+      action: () => setSelectedTaskPriority(level.value),
+      description: `Set priority: ${level.label}`,
+    })),
     
     // Filtering
     { key: 'f', ctrl: true, action: () => searchInputRef.current?.focus(), description: 'Focus search' },
@@ -563,9 +1351,128 @@ export function KanbanBoard() {
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
           <div className="flex items-center gap-3">
             <ClipboardList className="h-6 w-6 sm:h-8 sm:w-8 text-primary" aria-label="Task Manager" />
+            {boardSwitcher}
             <LiveClock />
           </div>
           <div className="flex flex-wrap items-center gap-2 sm:gap-3 w-full sm:w-auto">
+            <div className="flex items-center">
+              <Button
+                onClick={handleUndo}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 sm:h-9 sm:w-9"
+                disabled={!canUndo}
+                title={nextUndoLabel ? `Undo ${nextUndoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={handleRedo}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 sm:h-9 sm:w-9"
+                disabled={!canRedo}
+                title={nextRedoLabel ? `Redo ${nextRedoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button 
+              onClick={() => setShowTimesheet(true)}
+              variant="outline"
+              size="sm"
+              className="text-xs sm:text-sm"
+            >
+              <Timer className="h-4 w-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Timesheet</span>
+            </Button>
+            <Button 
+              onClick={() => setShowActivity(true)}
+              variant="outline"
+              size="sm"
+              className="text-xs sm:text-sm"
+            >
+              <History className="h-4 w-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Activity</span>
+            </Button>
+            <Button 
+              onClick={() => setShowArchive(true)}
+              variant="outline"
+              size="sm"
+              className="text-xs sm:text-sm"
+            >
+              <Archive className="h-4 w-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Archive</span>
+            </Button>
+            <Button 
+              onClick={() => setShowTrash(true)}
+              variant="outline"
+              size="sm"
+              className="text-xs sm:text-sm"
+            >
+              <Trash2 className="h-4 w-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Trash</span>
+              {trashedTasks.length > 0 && (
+                <span className="ml-1 rounded-full bg-muted px-1.5 text-xs">{trashedTasks.length}</span>
+              )}
+            </Button>
+            <Button 
+              onClick={() => setShowPeople(true)}
+              variant="outline"
+              size="sm"
+              className="text-xs sm:text-sm"
+              title={currentPerson ? `Signed in as ${currentPerson.name}` : undefined}
+            >
+              {currentPerson
+                ? <PersonAvatar person={currentPerson} className="h-5 w-5 mr-1 sm:mr-2" />
+                : <Users className="h-4 w-4 mr-1 sm:mr-2" />}
+              <span className="hidden sm:inline">People</span>
+            </Button>
+            <Button 
+              onClick={() => setShowLabelManager(true)}
+              variant="outline"
+              size="sm"
+              className="text-xs sm:text-sm"
+            >
+              <Tag className="h-4 w-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Labels</span>
+            </Button>
+            <Button 
+              onClick={() => setShowTemplates(true)}
+              variant="outline"
+              size="sm"
+              className="text-xs sm:text-sm"
+            >
+              <LayoutTemplate className="h-4 w-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Templates</span>
+            </Button>
+            <Button 
+              onClick={() => setShowFieldManager(true)}
+              variant="outline"
+              size="sm"
+              className="text-xs sm:text-sm"
+            >
+              <SlidersHorizontal className="h-4 w-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Fields</span>
+            </Button>
+            <Button 
+              onClick={() => setShowColumnManager(true)}
+              variant="outline"
+              size="sm"
+              className="text-xs sm:text-sm"
+            >
+              <Columns3 className="h-4 w-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Columns</span>
+            </Button>
+            <Button 
+              onClick={() => setShowBoardSettings(true)}
+              variant="outline"
+              size="sm"
+              className="text-xs sm:text-sm"
+            >
+              <Settings2 className="h-4 w-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Settings</span>
+            </Button>
             <Button 
               onClick={() => setShowShortcuts(true)}
               variant="outline"
@@ -606,7 +1513,16 @@ export function KanbanBoard() {
           </div>
         </div>
 
-        {showStatistics && <TaskStatistics tasks={tasks} />}
+        <RecoveryNotice />
+
+        {showStatistics && (
+          <TaskStatistics
+            tasks={[...boardTasks, ...archivedTasks]}
+            doneStatus={workflow.doneColumnId}
+            people={people}
+            estimateUnit={settings.estimateUnit}
+          />
+        )}
 
         <DateFilter 
           filterType={dateFilterType}
@@ -617,13 +1533,32 @@ export function KanbanBoard() {
         <FilterBar
           searchTerm={searchTerm}
           onSearchChange={setSearchTerm}
+          columns={workflow.columns}
           filterStatus={filterStatus}
           onFilterChange={setFilterStatus}
+          priorityFilter={priorityFilter}
+          onPriorityFilterChange={setPriorityFilter}
+          labels={board.labels}
+          labelFilter={labelFilter}
+          onLabelFilterChange={setLabelFilter}
+          labelMatch={labelMatch}
+          onLabelMatchChange={setLabelMatch}
+          assignedToMe={assignedToMe}
+          onAssignedToMeChange={setAssignedToMe}
+          hasCurrentPerson={!!currentPerson}
+          swimlanes={swimlanes}
+          onSwimlanesChange={changeSwimlanes}
+          customFields={customFields}
+          fieldFilter={fieldFilter}
+          onFieldFilterChange={setFieldFilter}
+          fieldSort={fieldSort}
+          onFieldSortChange={setFieldSort}
           onClearCompleted={handleClearCompleted}
           onDeleteAll={() => setShowDeleteAllDialog(true)}
           onExport={handleExport}
+          onExportCsv={handleExportCsv}
           onImport={handleImport}
-          totalTasks={tasks.length}
+          totalTasks={boardTasks.length}
           completedTasks={completedCount}
           searchInputRef={searchInputRef}
         />
@@ -634,28 +1569,58 @@ export function KanbanBoard() {
           onDragStart={handleDragStart}
           onDragEnd={handleDragEnd}
         >
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            {columns.map(column => (
-              <TaskColumn
-                key={column.id}
-                column={column}
-                selectedTaskId={selectedTaskId}
-                onEdit={(task) => {
-                  setEditingTask(task);
-                  setIsEditModalOpen(true);
-                }}
-                onDelete={setDeleteTaskId}
-                onComplete={handleCompleteTask}
-                onTaskSelect={setSelectedTaskId}
-              />
-            ))}
-          </div>
+          {!isLoaded ? (
+            <div className="w-full text-center py-12 text-muted-foreground text-sm">
+              Loading tasks...
+            </div>
+          ) : swimlanes === 'none' ? (
+            <div className="flex flex-col md:flex-row gap-6 md:overflow-x-auto md:pb-2">
+              {columns.map(column => renderColumn(column))}
+            </div>
+          ) : (
+            <div className="space-y-4 md:overflow-x-auto md:pb-2">
+              <div className="hidden md:flex gap-6">
+                {columns.map(column => (
+                  <TaskColumnHeader
+                    key={column.id}
+                    column={column}
+                    wipCount={taskCounts[column.id] ?? 0}
+                    estimateUnit={settings.estimateUnit}
+                    isPrioritySorted={prioritySortedColumns.includes(column.id)}
+                    onTogglePrioritySort={() => togglePrioritySort(column.id)}
+                    standalone
+                  />
+                ))}
+              </div>
+              {lanes.map(lane => {
+                const isCollapsed = collapsedLanes.includes(lane.id);
+                const laneTaskIds = new Set(lane.tasks.map(task => task.id));
+                return (
+                  <section key={lane.id} className="space-y-2">
+                    <SwimlaneHeader lane={lane} isCollapsed={isCollapsed} onToggle={() => toggleLane(lane.id)} />
+                    {!isCollapsed && (
+                      <div className="flex flex-col md:flex-row gap-6">
+                        {columns.map(column =>
+                          renderColumn({ ...column, tasks: column.tasks.filter(task => laneTaskIds.has(task.id)) }, lane)
+                        )}
+                      </div>
+                    )}
+                  </section>
+                );
+              })}
+            </div>
+          )}
           
           <DragOverlay>
             {activeTask && (
               <div className="rotate-3 opacity-90">
                 <TaskCard
                   task={activeTask}
+                  isDone={isDoneStatus(workflow, activeTask.status)}
+                  labels={getTaskLabels(activeTask, board.labels)}
+                  assignees={getAssignees(activeTask, people)}
+                  fields={cardFields}
+                  estimateUnit={settings.estimateUnit}
                   onEdit={() => {}}
                   onDelete={() => {}}
                   onComplete={() => {}}
@@ -669,6 +1634,11 @@ export function KanbanBoard() {
           isOpen={isAddModalOpen}
           onClose={() => setIsAddModalOpen(false)}
           onAdd={handleAddTask}
+          labels={board.labels}
+          people={people}
+          estimateUnit={settings.estimateUnit}
+          customFields={customFields}
+          templates={templates}
         />
 
         <EnhancedEditTaskModal
@@ -679,6 +1649,30 @@ export function KanbanBoard() {
             setEditingTask(null);
           }}
           onSave={handleEditTask}
+          onSaveAsTemplate={handleSaveAsTemplate}
+          onConvertChecklistItem={handleConvertChecklistItem}
+          tasks={boardTasks}
+          labels={board.labels}
+          people={people}
+          currentPerson={currentPerson}
+          comments={(editingTask && tasks.find(task => task.id === editingTask.id)?.comments) ?? []}
+          onAddComment={handleAddComment}
+          onUpdateComment={handleUpdateComment}
+          onDeleteComment={handleDeleteComment}
+          timeEntries={(editingTask && tasks.find(task => task.id === editingTask.id)?.timeEntries) ?? []}
+          onStartTimer={handleStartTimer}
+          onStopTimer={handleStopTimer}
+          onAddTimeEntry={handleAddTimeEntry}
+          onUpdateTimeEntry={handleUpdateTimeEntry}
+          onDeleteTimeEntry={handleDeleteTimeEntry}
+          attachments={(editingTask && attachmentsByTask.get(editingTask.id)) ?? []}
+          storageEstimate={storageEstimate}
+          onAttachFiles={addFiles}
+          onRemoveAttachment={(attachmentId) => removeAttachments([attachmentId])}
+          events={editingTask ? events.filter(event => event.taskId === editingTask.id) : []}
+          workflow={workflow}
+          estimateUnit={settings.estimateUnit}
+          customFields={customFields}
         />
 
         <AlertDialog open={!!deleteTaskId} onOpenChange={() => setDeleteTaskId(null)}>
@@ -686,7 +1680,7 @@ export function KanbanBoard() {
             <AlertDialogHeader>
               <AlertDialogTitle>Are you sure?</AlertDialogTitle>
               <AlertDialogDescription>
-                This action cannot be undone. This will permanently delete the task.
+                The task will be moved to the trash, where it can be restored until it is purged.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
@@ -703,7 +1697,7 @@ export function KanbanBoard() {
             <AlertDialogHeader>
               <AlertDialogTitle>Delete all tasks?</AlertDialogTitle>
               <AlertDialogDescription>
-                This action cannot be undone. This will permanently delete all {tasks.length} tasks.
+                All {boardTasks.length} tasks will be moved to the trash, where they can be restored until they are purged.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
@@ -715,9 +1709,114 @@ export function KanbanBoard() {
           </AlertDialogContent>
         </AlertDialog>
 
+        <ColumnManagerDialog
+          isOpen={showColumnManager}
+          onClose={() => setShowColumnManager(false)}
+          workflow={workflow}
+          taskCounts={taskCounts}
+          onAddColumn={addColumn}
+          onUpdateColumn={updateColumn}
+          onMoveColumn={moveColumn}
+          onRemoveColumn={handleRemoveColumn}
+          onSetDoneColumn={setDoneColumn}
+          onToggleTimerColumn={toggleTimerColumn}
+        />
+
+        <LabelManagerDialog
+          isOpen={showLabelManager}
+          onClose={() => setShowLabelManager(false)}
+          labels={board.labels}
+          labelCounts={labelCounts}
+          onAddLabel={addLabel}
+          onUpdateLabel={updateLabel}
+          onRemoveLabel={handleRemoveLabel}
+        />
+
+        <CustomFieldManagerDialog
+          isOpen={showFieldManager}
+          onClose={() => setShowFieldManager(false)}
+          fields={customFields}
+          fieldCounts={fieldCounts}
+          onAddField={addField}
+          onUpdateField={updateField}
+          onMoveField={moveField}
+          onRemoveField={handleRemoveField}
+        />
+
+        <TaskTemplatesDialog
+          isOpen={showTemplates}
+          onClose={() => setShowTemplates(false)}
+          templates={templates}
+          labels={board.labels}
+          onAddTemplate={addTemplate}
+          onUpdateTemplate={updateTemplate}
+          onRemoveTemplate={removeTemplate}
+          onUseTemplate={handleUseTemplate}
+        />
+
+        <PeopleDialog
+          isOpen={showPeople}
+          onClose={() => setShowPeople(false)}
+          people={people}
+          currentPersonId={currentPerson?.id}
+          assignedCounts={assignedCounts}
+          onAddPerson={addPerson}
+          onUpdatePerson={updatePerson}
+          onRemovePerson={removePerson}
+          onSetCurrentPerson={setCurrentPersonId}
+        />
+
+        <ArchiveDialog
+          isOpen={showArchive}
+          onClose={() => setShowArchive(false)}
+          tasks={archivedTasks}
+          workflow={workflow}
+          archivableCount={archivableCount}
+          settings={archiveSettings}
+          onSettingsChange={handleArchiveSettingsChange}
+          onArchiveDone={handleArchiveDone}
+          onUnarchive={handleUnarchiveTask}
+        />
+
+        <TrashDialog
+          isOpen={showTrash}
+          onClose={() => setShowTrash(false)}
+          tasks={trashedTasks}
+          workflow={workflow}
+          retentionDays={trashRetentionDays}
+          onRetentionChange={handleTrashRetentionChange}
+          onRestore={handleRestoreTasks}
+          onPurge={handlePurgeTasks}
+        />
+
+        <BoardSettingsDialog
+          isOpen={showBoardSettings}
+          onClose={() => setShowBoardSettings(false)}
+          boardName={board.name}
+          settings={settings}
+          onChange={onSettingsChange}
+        />
+
+        <TimesheetDialog
+          isOpen={showTimesheet}
+          onClose={() => setShowTimesheet(false)}
+          boardName={board.name}
+          tasks={tasks.filter(task => !isTrashed(task))}
+          workflow={workflow}
+        />
+
+        <ActivityFeed
+          isOpen={showActivity}
+          onClose={() => setShowActivity(false)}
+          boardName={board.name}
+          events={events}
+          workflow={workflow}
+        />
+
         <KeyboardShortcutsHelp
           isOpen={showShortcuts}
           onClose={() => setShowShortcuts(false)}
+          columns={workflow.columns}
         />
       </div>
     </div>
@@ -7,15 +7,17 @@ import {
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { defaultShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { defaultShortcuts, getColumnShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { WorkflowColumn } from '@/types/task';
 
 interface KeyboardShortcutsHelpProps {
   isOpen: boolean;
   onClose: () => void;
+  columns: WorkflowColumn[];
 }
 
-export function KeyboardShortcutsHelp({ isOpen, onClose }: KeyboardShortcutsHelpProps) {
-  const shortcutsByCategory = defaultShortcuts.reduce((acc, shortcut) => {
+export function KeyboardShortcutsHelp({ isOpen, onClose, columns }: KeyboardShortcutsHelpProps) {
+  const shortcutsByCategory = [...defaultShortcuts, ...getColumnShortcuts(columns)].reduce((acc, shortcut) => {
     const category = shortcut.category || 'General';
     if (!acc[category]) {
       acc[category] = [];
@@ -0,0 +1,24 @@
+import { cn } from '@/lib/utils';
+import { TaskLabel } from '@/types/board';
+import { COLUMN_COLOR_STYLES } from '@/utils/workflow';
+
+interface LabelChipProps {
+  label: TaskLabel;
+  className?: string;
+}
+
+export function LabelChip({ label, className }: LabelChipProps) {
+  const styles = COLUMN_COLOR_STYLES[label.color] ?? COLUMN_COLOR_STYLES.gray;
+  return (
+    <span
+      className={cn(
+        'inline-flex max-w-[140px] items-center rounded-full border px-2 py-0.5 text-xs font-medium',
+        styles.column,
+        styles.header,
+        className
+      )}
+    >
+      <span className="truncate">{label.name}</span>
+    </span>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2 } from 'lucide-react';
+import { TaskLabel } from '@/types/board';
+import { ColumnColor } from '@/types/task';
+import { MAX_LABEL_NAME_LENGTH } from '@/utils/labels';
+import { ColorPicker } from './ColorPicker';
+
+interface LabelManagerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  labels: TaskLabel[];
+  labelCounts: Record<string, number>;
+  onAddLabel: (name: string, color: ColumnColor) => void;
+  onUpdateLabel: (id: string, changes: { name?: string; color?: ColumnColor }) => void;
+  onRemoveLabel: (id: string) => void;
+}
+
+export function LabelManagerDialog({
+  isOpen,
+  onClose,
+  labels,
+  labelCounts,
+  onAddLabel,
+  onUpdateLabel,
+  onRemoveLabel,
+}: LabelManagerDialogProps) {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<ColumnColor>('blue');
+  const [pendingRemoval, setPendingRemoval] = useState<TaskLabel | null>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newName.trim()) {
+      onAddLabel(newName, newColor);
+      setNewName('');
+    }
+  };
+
+  const handleRemove = (label: TaskLabel) => {
+    if (labelCounts[label.id]) {
+      setPendingRemoval(label);
+    } else {
+      onRemoveLabel(label.id);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Manage Labels</DialogTitle>
+            <DialogDescription>
+              Labels belong to this board and can be combined freely on its tasks.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {labels.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No labels yet</p>
+            )}
+            {labels.map(label => (
+              <div key={label.id} className="flex items-center gap-2">
+                <ColorPicker
+                  value={label.color}
+                  onChange={(color) => onUpdateLabel(label.id, { color })}
+                  label="Label color"
+                />
+                <Input
+                  value={label.name}
+                  onChange={(e) => onUpdateLabel(label.id, { name: e.target.value })}
+                  onBlur={(e) => {
+                    if (!e.target.value.trim()) {
+                      onUpdateLabel(label.id, { name: 'Untitled' });
+                    }
+                  }}
+                  maxLength={MAX_LABEL_NAME_LENGTH}
+                  aria-label="Label name"
+                />
+                <span className="text-xs text-muted-foreground w-6 text-center shrink-0">
+                  {labelCounts[label.id] ?? 0}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleRemove(label)}
+                  aria-label="Delete label"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleAdd} className="flex items-center gap-2 pt-4 border-t">
+            <ColorPicker value={newColor} onChange={setNewColor} label="Label color" />
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New label, e.g. Bug"
+              maxLength={MAX_LABEL_NAME_LENGTH}
+            />
+            <Button type="submit" disabled={!newName.trim()} className="shrink-0">
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingRemoval} onOpenChange={() => setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingRemoval?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will be removed from {pendingRemoval ? labelCounts[pendingRemoval.id] : 0} task(s).
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingRemoval) onRemoveLabel(pendingRemoval.id);
+                setPendingRemoval(null);
+              }}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete Label
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,38 @@
+import { cn } from '@/lib/utils';
+import { TaskLabel } from '@/types/board';
+import { LabelChip } from './LabelChip';
+
+interface LabelPickerProps {
+  labels: TaskLabel[];
+  selectedIds: string[];
+  onChange: (labelIds: string[]) => void;
+}
+
+export function LabelPicker({ labels, selectedIds, onChange }: LabelPickerProps) {
+  if (labels.length === 0) {
+    return <p className="text-xs text-muted-foreground">This board has no labels yet. Add some from the Labels button.</p>;
+  }
+
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {labels.map(label => {
+        const isSelected = selectedIds.includes(label.id);
+        return (
+          <button
+            key={label.id}
+            type="button"
+            onClick={() => toggle(label.id)}
+            aria-pressed={isSelected}
+            className="rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <LabelChip label={label} className={cn(!isSelected && 'opacity-40 hover:opacity-70')} />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
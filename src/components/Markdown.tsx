@@ -0,0 +1,101 @@
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '@/utils/markdown';
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+  // Without a handler task-list checkboxes are shown read-only
+  onToggleTask?: (line: number) => void;
+}
+
+function renderInline(nodes: MarkdownInline[]) {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary underline underline-offset-2 hover:no-underline"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, index: number, onToggleTask?: (line: number) => void) {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={index}>{renderInline(block.children)}</p>;
+    case 'heading': {
+      const sizes = { 1: 'text-base', 2: 'text-sm', 3: 'text-sm' };
+      return <p key={index} className={cn('font-semibold', sizes[block.level])}>{renderInline(block.children)}</p>;
+    }
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className={cn('pl-5 space-y-0.5', block.ordered ? 'list-decimal' : 'list-disc')}>
+          {block.items.map((item, itemIndex) =>
+            item.checked === undefined ? (
+              <li key={itemIndex}>{renderInline(item.children)}</li>
+            ) : (
+              <li key={itemIndex} className="list-none -ml-5 flex items-start gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={item.checked}
+                  disabled={!onToggleTask}
+                  onChange={() => onToggleTask?.(item.line)}
+                  onClick={(e) => e.stopPropagation()}
+                  onPointerDown={(e) => e.stopPropagation()}
+                  className="mt-[0.2rem] h-3.5 w-3.5 shrink-0 accent-primary"
+                />
+                <span className={cn(item.checked && 'line-through text-muted-foreground')}>
+                  {renderInline(item.children)}
+                </span>
+              </li>
+            )
+          )}
+        </List>
+      );
+    }
+    case 'quote':
+      return (
+        <blockquote key={index} className="border-l-2 border-border pl-3 text-muted-foreground">
+          {renderInline(block.children)}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre key={index} className="overflow-x-auto rounded-md bg-muted p-2 font-mono text-xs">
+          <code>{block.text}</code>
+        </pre>
+      );
+  }
+}
+
+export function Markdown({ source, className, onToggleTask }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return (
+    <div className={cn('space-y-2 text-sm break-words', className)}>
+      {blocks.map((block, index) => renderBlock(block, index, onToggleTask))}
+    </div>
+  );
+}
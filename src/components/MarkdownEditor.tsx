@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { cn } from '@/lib/utils';
+import { MAX_DESCRIPTION_LENGTH, toggleTaskListItem } from '@/utils/markdown';
+import { Markdown } from './Markdown';
+
+interface MarkdownEditorProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  maxLength?: number;
+  className?: string;
+}
+
+export function MarkdownEditor({
+  id,
+  label,
+  value,
+  onChange,
+  placeholder,
+  maxLength = MAX_DESCRIPTION_LENGTH,
+  className,
+}: MarkdownEditorProps) {
+  const [mode, setMode] = useState<'write' | 'preview'>('write');
+
+  return (
+    <Tabs value={mode} onValueChange={(next) => setMode(next as 'write' | 'preview')} className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={id}>{label}</Label>
+        <TabsList className="h-8">
+          <TabsTrigger value="write" className="h-6 px-2 text-xs">Write</TabsTrigger>
+          <TabsTrigger value="preview" className="h-6 px-2 text-xs">Preview</TabsTrigger>
+        </TabsList>
+      </div>
+      <TabsContent value="write" className="mt-0">
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value.slice(0, maxLength))}
+          placeholder={placeholder}
+          className={cn('w-full font-mono text-sm', className)}
+          maxLength={maxLength}
+        />
+      </TabsContent>
+      <TabsContent value="preview" className="mt-0">
+        <div className={cn('w-full overflow-y-auto rounded-md border px-3 py-2 max-h-80', className)}>
+          {value.trim() ? (
+            <Markdown source={value} onToggleTask={(line) => onChange(toggleTaskListItem(value, line))} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to preview</p>
+          )}
+        </div>
+      </TabsContent>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Markdown supported: # headings, - lists, - [ ] tasks, `code`, [links](https://...)</span>
+        <span>{value.length} / {maxLength}</span>
+      </div>
+    </Tabs>
+  );
+}
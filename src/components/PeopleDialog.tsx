@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2, UserCheck } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Person } from '@/types/person';
+import { ColumnColor } from '@/types/task';
+import { MAX_INITIALS_LENGTH, MAX_PERSON_NAME_LENGTH, getInitials } from '@/utils/people';
+import { ColorPicker } from './ColorPicker';
+import { PersonAvatar } from './PersonAvatar';
+
+interface PeopleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  people: Person[];
+  currentPersonId?: string;
+  assignedCounts: Record<string, number>;
+  onAddPerson: (name: string, color: ColumnColor, initials?: string) => void;
+  onUpdatePerson: (id: string, changes: { name?: string; initials?: string; color?: ColumnColor }) => void;
+  onRemovePerson: (id: string) => void;
+  onSetCurrentPerson: (id: string | null) => void;
+}
+
+export function PeopleDialog({
+  isOpen,
+  onClose,
+  people,
+  currentPersonId,
+  assignedCounts,
+  onAddPerson,
+  onUpdatePerson,
+  onRemovePerson,
+  onSetCurrentPerson,
+}: PeopleDialogProps) {
+  const [newName, setNewName] = useState('');
+  const [newInitials, setNewInitials] = useState('');
+  const [newColor, setNewColor] = useState<ColumnColor>('blue');
+  const [pendingRemoval, setPendingRemoval] = useState<Person | null>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newName.trim()) {
+      onAddPerson(newName, newColor, newInitials);
+      setNewName('');
+      setNewInitials('');
+    }
+  };
+
+  const handleRemove = (person: Person) => {
+    if (assignedCounts[person.id]) {
+      setPendingRemoval(person);
+    } else {
+      onRemovePerson(person.id);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>People</DialogTitle>
+            <DialogDescription>
+              Everyone who can be assigned tasks on this device. Mark yourself to use the "My tasks" filter.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {people.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">Nobody here yet</p>
+            )}
+            {people.map(person => {
+              const isCurrent = person.id === currentPersonId;
+              return (
+                <div key={person.id} className="flex items-center gap-2">
+                  <PersonAvatar person={person} className="h-8 w-8" />
+                  <ColorPicker
+                    value={person.color}
+                    onChange={(color) => onUpdatePerson(person.id, { color })}
+                    label="Avatar color"
+                  />
+                  <Input
+                    value={person.name}
+                    onChange={(e) => onUpdatePerson(person.id, { name: e.target.value })}
+                    onBlur={(e) => {
+                      if (!e.target.value.trim()) {
+                        onUpdatePerson(person.id, { name: 'Unnamed' });
+                      }
+                    }}
+                    maxLength={MAX_PERSON_NAME_LENGTH}
+                    aria-label="Name"
+                  />
+                  <Input
+                    value={person.initials}
+                    onChange={(e) => onUpdatePerson(person.id, { initials: e.target.value })}
+                    onBlur={(e) => {
+                      if (!e.target.value.trim()) {
+                        onUpdatePerson(person.id, { initials: getInitials(person.name) });
+                      }
+                    }}
+                    maxLength={MAX_INITIALS_LENGTH}
+                    className="w-16 shrink-0 uppercase"
+                    aria-label="Initials"
+                  />
+                  <span className="text-xs text-muted-foreground w-6 text-center shrink-0" title="Tasks on this board">
+                    {assignedCounts[person.id] ?? 0}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className={cn('h-8 w-8 shrink-0', isCurrent ? 'text-primary bg-primary/10' : 'text-muted-foreground')}
+                    onClick={() => onSetCurrentPerson(isCurrent ? null : person.id)}
+                    title={isCurrent ? 'This is you' : 'This is me'}
+                    aria-pressed={isCurrent}
+                  >
+                    <UserCheck className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleRemove(person)}
+                    aria-label="Remove person"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          <form onSubmit={handleAdd} className="flex items-center gap-2 pt-4 border-t">
+            <ColorPicker value={newColor} onChange={setNewColor} label="Avatar color" />
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Name"
+              maxLength={MAX_PERSON_NAME_LENGTH}
+            />
+            <Input
+              value={newInitials}
+              onChange={(e) => setNewInitials(e.target.value)}
+              placeholder={newName.trim() ? getInitials(newName) : 'AB'}
+              maxLength={MAX_INITIALS_LENGTH}
+              className="w-16 shrink-0 uppercase"
+              aria-label="Initials"
+            />
+            <Button type="submit" disabled={!newName.trim()} className="shrink-0">
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingRemoval} onOpenChange={() => setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {pendingRemoval?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They are assigned to {pendingRemoval ? assignedCounts[pendingRemoval.id] : 0} task(s) on this board.
+              Those tasks will no longer show them as an assignee.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingRemoval) onRemovePerson(pendingRemoval.id);
+                setPendingRemoval(null);
+              }}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
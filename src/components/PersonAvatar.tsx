@@ -0,0 +1,43 @@
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import { Person } from '@/types/person';
+import { getInitials } from '@/utils/people';
+import { COLUMN_COLOR_STYLES } from '@/utils/workflow';
+
+interface PersonAvatarProps {
+  person: Person;
+  className?: string;
+}
+
+export function PersonAvatar({ person, className }: PersonAvatarProps) {
+  const styles = COLUMN_COLOR_STYLES[person.color] ?? COLUMN_COLOR_STYLES.gray;
+  return (
+    <Avatar className={cn('h-6 w-6', className)} title={person.name}>
+      <AvatarFallback className={cn('text-[10px] font-semibold text-white', styles.swatch)}>
+        {person.initials || getInitials(person.name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+interface AvatarStackProps {
+  people: Person[];
+  max?: number;
+}
+
+export function AvatarStack({ people, max = 3 }: AvatarStackProps) {
+  const shown = people.slice(0, max);
+  const hidden = people.length - shown.length;
+  return (
+    <div className="flex -space-x-1.5" title={people.map(person => person.name).join(', ')}>
+      {shown.map(person => (
+        <PersonAvatar key={person.id} person={person} className="ring-2 ring-background" />
+      ))}
+      {hidden > 0 && (
+        <Avatar className="h-6 w-6 ring-2 ring-background">
+          <AvatarFallback className="text-[10px] font-semibold">+{hidden}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { TaskPriority } from '@/types/task';
+import { PRIORITY_LEVELS } from '@/utils/priority';
+
+interface PrioritySelectProps {
+  id?: string;
+  value: TaskPriority;
+  onChange: (priority: TaskPriority) => void;
+}
+
+export function PriorityDot({ className }: { className: string }) {
+  return <span className={cn('inline-block h-2.5 w-2.5 rounded-full border border-border', className)} />;
+}
+
+export function PrioritySelect({ id, value, onChange }: PrioritySelectProps) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as TaskPriority)}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {PRIORITY_LEVELS.map(level => (
+          <SelectItem key={level.value} value={level.value}>
+            <span className="flex items-center gap-2">
+              <PriorityDot className={level.marker} />
+              {level.label}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
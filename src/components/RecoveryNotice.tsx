@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Download, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { RecoveredBlob, taskRepository } from '@/utils/taskRepository';
+
+// Surfaces stored data that could not be read so it can be downloaded instead of lost
+export function RecoveryNotice() {
+  const [blobs, setBlobs] = useState<RecoveredBlob[]>([]);
+
+  useEffect(() => {
+    taskRepository.listRecoveredBlobs()
+      .then(setBlobs)
+      .catch(error => console.error('Failed to list recovered data:', error));
+  }, []);
+
+  const handleDownload = (blob: RecoveredBlob) => {
+    const dataUri = 'data:application/json;charset=utf-8,' + encodeURIComponent(blob.content);
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', dataUri);
+    linkElement.setAttribute('download', `recovered_${format(blob.createdAt, 'yyyy-MM-dd_HHmm')}.json`);
+    linkElement.click();
+  };
+
+  const handleDismiss = async (blob: RecoveredBlob) => {
+    await taskRepository.deleteRecoveredBlob(blob.id);
+    setBlobs(prev => prev.filter(b => b.id !== blob.id));
+  };
+
+  if (blobs.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {blobs.map(blob => (
+        <Alert key={blob.id} variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Some saved data could not be read</AlertTitle>
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+            <span>
+              Data from {blob.source} was preserved on {format(blob.createdAt, 'PPp')}. Download it before dismissing.
+            </span>
+            <span className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => handleDownload(blob)}>
+                <Download className="h-4 w-4 mr-1" />
+                Download
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => handleDismiss(blob)}>
+                <X className="h-4 w-4 mr-1" />
+                Dismiss
+              </Button>
+            </span>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+}
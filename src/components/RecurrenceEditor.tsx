@@ -0,0 +1,146 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Repeat } from 'lucide-react';
+import { TaskRecurrence } from '@/types/task';
+import {
+  MAX_RECURRENCE_INTERVAL_DAYS,
+  RECURRENCE_TYPES,
+  RecurrenceType,
+  WEEKDAY_NAMES,
+  WEEK_OF_MONTH_NAMES,
+  createRecurrence,
+  describeRecurrence,
+} from '@/utils/recurrence';
+
+interface RecurrenceEditorProps {
+  id: string;
+  value?: TaskRecurrence;
+  onChange: (recurrence: TaskRecurrence | undefined) => void;
+  dueDate?: Date; // seeds the weekday or day of month when a rule is picked
+}
+
+const clampNumber = (value: string, min: number, max: number) =>
+  Math.min(max, Math.max(min, parseInt(value) || min));
+
+export function RecurrenceEditor({ id, value, onChange, dueDate }: RecurrenceEditorProps) {
+  const toggleDay = (day: number) => {
+    if (value?.type !== 'weekly') return;
+    const days = value.days.includes(day) ? value.days.filter(d => d !== day) : [...value.days, day];
+    // A weekly rule needs at least one day
+    if (days.length > 0) onChange({ ...value, days });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="flex items-center gap-2">
+        <Repeat className="h-4 w-4" />
+        Repeat
+      </Label>
+      <Select
+        value={value?.type ?? 'none'}
+        onValueChange={(type) => onChange(type === 'none' ? undefined : createRecurrence(type as RecurrenceType, dueDate))}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          {RECURRENCE_TYPES.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value?.type === 'weekly' && (
+        <div className="flex gap-1" role="group" aria-label="Repeat on">
+          {WEEKDAY_NAMES.map((name, day) => (
+            <Button
+              key={name}
+              type="button"
+              variant={value.days.includes(day) ? 'default' : 'outline'}
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => toggleDay(day)}
+              aria-pressed={value.days.includes(day)}
+              title={name}
+            >
+              {name.charAt(0)}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {value?.type === 'monthly-day' && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>On day</span>
+          <Input
+            type="number"
+            min={1}
+            max={31}
+            value={value.day}
+            onChange={(e) => onChange({ ...value, day: clampNumber(e.target.value, 1, 31) })}
+            className="w-20"
+            aria-label="Day of month"
+          />
+        </div>
+      )}
+
+      {value?.type === 'monthly-weekday' && (
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={value.week.toString()}
+            onValueChange={(week) => onChange({ ...value, week: parseInt(week) as 1 | 2 | 3 | 4 | -1 })}
+          >
+            <SelectTrigger aria-label="Week of month">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(WEEK_OF_MONTH_NAMES).map(([week, name]) => (
+                <SelectItem key={week} value={week}>{name.charAt(0).toUpperCase() + name.slice(1)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={value.weekday.toString()}
+            onValueChange={(weekday) => onChange({ ...value, weekday: parseInt(weekday) })}
+          >
+            <SelectTrigger aria-label="Weekday">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEKDAY_NAMES.map((name, day) => (
+                <SelectItem key={name} value={day.toString()}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {value?.type === 'after-completion' && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Every</span>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_RECURRENCE_INTERVAL_DAYS}
+            value={value.intervalDays}
+            onChange={(e) =>
+              onChange({ ...value, intervalDays: clampNumber(e.target.value, 1, MAX_RECURRENCE_INTERVAL_DAYS) })
+            }
+            className="w-20"
+            aria-label="Days after completion"
+          />
+          <span>days after it is completed</span>
+        </div>
+      )}
+
+      {value && (
+        <p className="text-xs text-muted-foreground">
+          {describeRecurrence(value)}. The next one is created when this task is done.
+        </p>
+      )}
+    </div>
+  );
+}
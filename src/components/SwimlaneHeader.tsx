@@ -0,0 +1,31 @@
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Swimlane } from '@/utils/swimlanes';
+import { COLUMN_COLOR_STYLES } from '@/utils/workflow';
+
+interface SwimlaneHeaderProps {
+  lane: Swimlane;
+  isCollapsed: boolean;
+  onToggle: () => void;
+}
+
+export function SwimlaneHeader({ lane, isCollapsed, onToggle }: SwimlaneHeaderProps) {
+  const Chevron = isCollapsed ? ChevronRight : ChevronDown;
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      className="flex w-full items-center gap-2 rounded-md px-2 py-1 text-left hover:bg-accent"
+      aria-expanded={!isCollapsed}
+    >
+      <Chevron className="h-4 w-4 text-muted-foreground" />
+      {lane.color && (
+        <span className={cn('h-2.5 w-2.5 rounded-full', COLUMN_COLOR_STYLES[lane.color].swatch)} />
+      )}
+      <span className="font-medium">{lane.title}</span>
+      <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+        {lane.tasks.length}
+      </span>
+    </button>
+  );
+}
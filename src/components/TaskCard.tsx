@@ -1,23 +1,51 @@
+import { useState } from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { Task } from '@/types/task';
+import { CustomField, EstimateUnit, TaskLabel } from '@/types/board';
+import { Person } from '@/types/person';
+import { LabelChip } from './LabelChip';
+import { AvatarStack } from './PersonAvatar';
+import { Markdown } from './Markdown';
+import { TrackedTimeBadge } from './TrackedTimeBadge';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { GripVertical, Edit2, Trash2, Check, Clock, Calendar, Bell } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { GripVertical, Edit2, Trash2, Check, Clock, Calendar, Bell, Archive, ListChecks, Lock, MessageSquare, Paperclip, Repeat, Play, Square } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { format, isPast, isToday, isTomorrow } from 'date-fns';
+import { getChecklistProgress } from '@/utils/checklist';
+import { getPriority, getPriorityLevel } from '@/utils/priority';
+import { getCommentCount } from '@/utils/comments';
+import { hasDraggedFiles } from '@/utils/attachments';
+import { describeRecurrence } from '@/utils/recurrence';
+import { getRunningEntry } from '@/utils/timeTracking';
+import { formatEstimate } from '@/utils/estimates';
+import { formatCustomFieldValue, getCustomFieldValue } from '@/utils/customFields';
 
 interface TaskCardProps {
   task: Task;
+  isDone?: boolean;
   isSelected?: boolean;
+  blockers?: Task[];
+  labels?: TaskLabel[];
+  assignees?: Person[];
+  fields?: CustomField[]; // the board's fields shown on cards
+  attachmentCount?: number;
+  onAttachFiles?: (taskId: string, files: File[]) => void;
+  onToggleDescriptionTask?: (taskId: string, line: number) => void;
+  onStartTimer?: (taskId: string) => void;
+  onStopTimer?: (taskId: string) => void;
+  estimateUnit?: EstimateUnit;
   onEdit: (task: Task) => void;
   onDelete: (taskId: string) => void;
   onComplete: (taskId: string) => void;
+  onArchive?: (taskId: string) => void;
   onSelect?: () => void;
 }
 
-export function TaskCard({ task, isSelected, onEdit, onDelete, onComplete, onSelect }: TaskCardProps) {
+export function TaskCard({ task, isDone, isSelected, blockers = [], labels = [], assignees = [], fields = [], attachmentCount = 0, onAttachFiles, onToggleDescriptionTask, onStartTimer, onStopTimer, estimateUnit = 'points', onEdit, onDelete, onComplete, onArchive, onSelect }: TaskCardProps) {
   const {
     attributes,
     listeners,
@@ -27,6 +55,12 @@ export function TaskCard({ task, isSelected, onEdit, onDelete, onComplete, onSel
     isDragging,
   } = useSortable({ id: task.id });
 
+  const [isFileOver, setIsFileOver] = useState(false);
+  const fieldValues = fields.flatMap(field => {
+    const value = getCustomFieldValue(task, field);
+    return value === undefined ? [] : [{ field, value }];
+  });
+
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
@@ -42,7 +76,7 @@ export function TaskCard({ task, isSelected, onEdit, onDelete, onComplete, onSel
     }
     
     const now = new Date();
-    const isOverdue = task.status !== 'done' && isPast(dueDate) && !isToday(dueDate);
+    const isOverdue = !isDone && isPast(dueDate) && !isToday(dueDate);
     
     let dateText = '';
     if (isToday(dueDate)) {
@@ -57,6 +91,11 @@ export function TaskCard({ task, isSelected, onEdit, onDelete, onComplete, onSel
   };
   
   const dueDateInfo = getDueDateDisplay();
+  const checklistProgress = getChecklistProgress(task);
+  const priority = getPriority(task);
+  const isTimerRunning = !!getRunningEntry(task);
+  const priorityLevel = getPriorityLevel(priority);
+  const commentCount = getCommentCount(task);
 
   return (
     <div
@@ -67,12 +106,36 @@ export function TaskCard({ task, isSelected, onEdit, onDelete, onComplete, onSel
         isDragging && 'opacity-50'
       )}
       onClick={onSelect}
+      onDragOver={(e) => {
+        if (!onAttachFiles || !hasDraggedFiles(e.dataTransfer)) return;
+        e.preventDefault();
+        setIsFileOver(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsFileOver(false);
+      }}
+      onDrop={(e) => {
+        if (!onAttachFiles || !hasDraggedFiles(e.dataTransfer)) return;
+        e.preventDefault();
+        setIsFileOver(false);
+        const files = Array.from(e.dataTransfer.files);
+        if (files.length > 0) onAttachFiles(task.id, files);
+      }}
     >
       <Card className={cn(
-        "p-4 cursor-default hover:shadow-md transition-shadow duration-200 bg-gradient-card border-border/50",
+        "relative overflow-hidden p-4 cursor-default hover:shadow-md transition-shadow duration-200 bg-gradient-card border-border/50",
         isDragging && "shadow-drag",
-        isSelected && "ring-2 ring-primary ring-offset-2 ring-offset-background"
+        isSelected && "ring-2 ring-primary ring-offset-2 ring-offset-background",
+        isFileOver && "ring-2 ring-primary bg-primary/5"
       )}>
+        {priority !== 'none' && (
+          <div
+            className={cn("absolute inset-y-0 left-0 w-1", priorityLevel.marker)}
+            title={`${priorityLevel.label} priority`}
+          >
+            <span className="sr-only">{priorityLevel.label} priority</span>
+          </div>
+        )}
         <div className="flex items-start gap-2">
           <button
             className="mt-1 cursor-grab active:cursor-grabbing text-muted-foreground hover:text-foreground transition-colors"
@@ -83,15 +146,73 @@ export function TaskCard({ task, isSelected, onEdit, onDelete, onComplete, onSel
           </button>
           
           <div className="flex-1 min-w-0">
+            {labels.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-1.5">
+                {labels.map(label => <LabelChip key={label.id} label={label} />)}
+              </div>
+            )}
             <h3 className="font-medium text-foreground mb-1 truncate">
               {task.title}
             </h3>
-            <p className="text-sm text-muted-foreground line-clamp-2">
-              {task.description}
-            </p>
+            {task.description && (
+              // Clipped rather than line-clamped, since the description can span several blocks
+              <Markdown
+                source={task.description}
+                className="max-h-16 overflow-hidden space-y-1 text-muted-foreground"
+                onToggleTask={onToggleDescriptionTask && ((line) => onToggleDescriptionTask(task.id, line))}
+              />
+            )}
+
+            {fieldValues.length > 0 && (
+              <dl className="mt-2 space-y-0.5 text-xs">
+                {fieldValues.map(({ field, value }) => (
+                  <div key={field.id} className="flex gap-1 min-w-0">
+                    <dt className="text-muted-foreground shrink-0">{field.name}:</dt>
+                    <dd className="truncate">
+                      {field.type === 'url' ? (
+                        <a
+                          href={value as string}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary hover:underline"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          {value as string}
+                        </a>
+                      ) : (
+                        formatCustomFieldValue(field, value)
+                      )}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+
+            {checklistProgress && (
+              <div className="flex items-center gap-2 mt-2" title="Checklist progress">
+                <ListChecks className={cn(
+                  "h-3.5 w-3.5 shrink-0",
+                  checklistProgress.done === checklistProgress.total ? "text-done" : "text-muted-foreground"
+                )} />
+                <Progress value={(checklistProgress.done / checklistProgress.total) * 100} className="h-1.5" />
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {checklistProgress.done}/{checklistProgress.total}
+                </span>
+              </div>
+            )}
             
-            {(dueDateInfo || task.reminderTime) && (
+            {(dueDateInfo || task.reminderTime || task.recurrence || task.timeEntries || !!task.estimate || blockers.length > 0 || commentCount > 0 || attachmentCount > 0) && (
               <div className="flex items-center gap-2 mt-2 flex-wrap">
+                {blockers.length > 0 && (
+                  <Badge
+                    variant="outline"
+                    className="text-xs border-orange-500/50 text-orange-600 dark:text-orange-400"
+                    title={`Blocked by ${blockers.map(blocker => blocker.title).join(', ')}`}
+                  >
+                    <Lock className="h-3 w-3 mr-1" />
+                    Blocked{blockers.length > 1 ? ` by ${blockers.length}` : ''}
+                  </Badge>
+                )}
                 {dueDateInfo && (
                   <Badge 
                     variant={dueDateInfo.isOverdue ? "destructive" : "secondary"}
@@ -107,11 +228,35 @@ export function TaskCard({ task, isSelected, onEdit, onDelete, onComplete, onSel
                     {task.reminderTime} min reminder
                   </Badge>
                 )}
+                {!!task.estimate && (
+                  <Badge variant="secondary" className="text-xs tabular-nums" title="Estimate">
+                    {formatEstimate(task.estimate, estimateUnit)}
+                  </Badge>
+                )}
+                {task.timeEntries && <TrackedTimeBadge task={task} />}
+                {task.recurrence && (
+                  <Badge variant="outline" className="text-xs" title="Repeats - edit the task to change or stop it">
+                    <Repeat className="h-3 w-3 mr-1" />
+                    {describeRecurrence(task.recurrence)}
+                  </Badge>
+                )}
+                {attachmentCount > 0 && (
+                  <Badge variant="outline" className="text-xs" title={`${attachmentCount} attachment${attachmentCount === 1 ? '' : 's'}`}>
+                    <Paperclip className="h-3 w-3 mr-1" />
+                    {attachmentCount}
+                  </Badge>
+                )}
+                {commentCount > 0 && (
+                  <Badge variant="outline" className="text-xs" title={`${commentCount} comment${commentCount === 1 ? '' : 's'}`}>
+                    <MessageSquare className="h-3 w-3 mr-1" />
+                    {commentCount}
+                  </Badge>
+                )}
               </div>
             )}
             
             <div className="flex items-center gap-1 mt-3">
-              {task.status !== 'done' && (
+              {!isDone && (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -121,6 +266,38 @@ export function TaskCard({ task, isSelected, onEdit, onDelete, onComplete, onSel
                   <Check className="h-3.5 w-3.5" />
                 </Button>
               )}
+              {onStartTimer && onStopTimer && (isTimerRunning ? (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-primary hover:text-primary"
+                  onClick={() => onStopTimer(task.id)}
+                  title="Stop timer"
+                >
+                  <Square className="h-3.5 w-3.5 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-muted-foreground hover:text-primary"
+                  onClick={() => onStartTimer(task.id)}
+                  title="Start timer"
+                >
+                  <Play className="h-3.5 w-3.5" />
+                </Button>
+              ))}
+              {isDone && onArchive && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-muted-foreground hover:text-primary"
+                  onClick={() => onArchive(task.id)}
+                  title="Archive"
+                >
+                  <Archive className="h-3.5 w-3.5" />
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="icon"
@@ -137,6 +314,11 @@ export function TaskCard({ task, isSelected, onEdit, onDelete, onComplete, onSel
               >
                 <Trash2 className="h-3.5 w-3.5" />
               </Button>
+              {assignees.length > 0 && (
+                <div className="ml-auto">
+                  <AvatarStack people={assignees} />
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -3,68 +3,141 @@ import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable'
 import { TaskColumn as TaskColumnType } from '@/types/task';
 import { TaskCard } from './TaskCard';
 import { cn } from '@/lib/utils';
-import { Task } from '@/types/task';
+import { Task, TaskStatus } from '@/types/task';
+import { COLUMN_COLOR_STYLES } from '@/utils/workflow';
+import { isOverWipLimit } from '@/utils/wip';
+import { CustomField, EstimateUnit, TaskLabel } from '@/types/board';
+import { getTaskLabels } from '@/utils/labels';
+import { Person } from '@/types/person';
+import { getAssignees } from '@/utils/people';
+import { formatEstimate, sumEstimates } from '@/utils/estimates';
+import { Button } from '@/components/ui/button';
+import { ArrowDownWideNarrow } from 'lucide-react';
+
+// What a swimlane cell tells handleDragEnd about a drop onto it
+export interface LaneDropData {
+  status: TaskStatus;
+  laneId: string;
+}
+
+interface TaskColumnHeaderProps {
+  column: TaskColumnType;
+  wipCount?: number; // every task in the column, not just the ones passing the filters
+  estimateUnit?: EstimateUnit;
+  isPrioritySorted?: boolean;
+  onTogglePrioritySort?: () => void;
+  standalone?: boolean; // drawn above the swimlanes, apart from the column's cells
+  className?: string;
+}
 
 interface TaskColumnProps {
   column: TaskColumnType;
+  lane?: { id: string; canDrop: boolean }; // set for a column's cell within a swimlane, which has no header of its own
+  wipCount?: number;
+  isDoneColumn?: boolean;
   selectedTaskId?: string | null;
+  blockersByTask?: Map<string, Task[]>;
+  labels?: TaskLabel[];
+  people?: Person[];
+  cardFields?: CustomField[];
+  attachmentCounts?: Map<string, number>;
+  onAttachFiles?: (taskId: string, files: File[]) => void;
+  onToggleDescriptionTask?: (taskId: string, line: number) => void;
+  onStartTimer?: (taskId: string) => void;
+  onStopTimer?: (taskId: string) => void;
+  estimateUnit?: EstimateUnit;
+  isPrioritySorted?: boolean;
+  onTogglePrioritySort?: () => void;
   onEdit: (task: Task) => void;
   onDelete: (taskId: string) => void;
   onComplete: (taskId: string) => void;
+  onArchive?: (taskId: string) => void;
   onTaskSelect?: (taskId: string) => void;
 }
 
-export function TaskColumn({ column, selectedTaskId, onEdit, onDelete, onComplete, onTaskSelect }: TaskColumnProps) {
+export function TaskColumnHeader({ column, wipCount = column.tasks.length, estimateUnit = 'points', isPrioritySorted, onTogglePrioritySort, standalone, className }: TaskColumnHeaderProps) {
+  const colorStyles = COLUMN_COLOR_STYLES[column.color] ?? COLUMN_COLOR_STYLES.gray;
+  const estimateTotal = sumEstimates(column.tasks);
+  const isOverLimit = isOverWipLimit(column, wipCount);
+
+  return (
+    <div
+      className={cn(
+        "p-4",
+        standalone && "flex-1 min-w-[280px] rounded-xl border-2 border-dashed",
+        standalone && (isOverLimit ? "bg-destructive/10 border-destructive/50" : colorStyles.column),
+        className
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <h2 className={cn("font-semibold text-lg", colorStyles.header)}>
+          {column.title}
+        </h2>
+        <div className="flex items-center gap-1">
+          {onTogglePrioritySort && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn("h-7 w-7", isPrioritySorted ? "text-primary bg-primary/10" : "text-muted-foreground")}
+              onClick={onTogglePrioritySort}
+              title={isPrioritySorted ? 'Sorted by priority, then due date' : 'Sort by priority, then due date'}
+              aria-pressed={isPrioritySorted}
+            >
+              <ArrowDownWideNarrow className="h-4 w-4" />
+            </Button>
+          )}
+          <span
+            className={cn(
+              "text-sm font-medium px-2 py-1 rounded-full bg-background/80",
+              isOverLimit ? "text-destructive" : "text-muted-foreground"
+            )}
+            title={column.wipLimit ? `WIP limit of ${column.wipLimit}` : undefined}
+          >
+            {column.wipLimit ? `${wipCount}/${column.wipLimit}` : column.tasks.length}
+            {estimateTotal > 0 && (
+              <span title="Estimated in this column"> · {formatEstimate(estimateTotal, estimateUnit)}</span>
+            )}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function TaskColumn({ column, lane, wipCount = column.tasks.length, isDoneColumn, selectedTaskId, blockersByTask, labels = [], people = [], cardFields, attachmentCounts, onAttachFiles, onToggleDescriptionTask, onStartTimer, onStopTimer, estimateUnit = 'points', isPrioritySorted, onTogglePrioritySort, onEdit, onDelete, onComplete, onArchive, onTaskSelect }: TaskColumnProps) {
   const { setNodeRef, isOver } = useDroppable({
-    id: column.id,
+    id: lane ? `${lane.id}:${column.id}` : column.id,
+    data: lane ? ({ status: column.id, laneId: lane.id } as LaneDropData) : undefined,
+    disabled: lane && !lane.canDrop,
   });
 
-  const getColumnStyles = () => {
-    switch (column.id) {
-      case 'todo':
-        return 'bg-muted/50 border-muted';
-      case 'in-progress':
-        return 'bg-yellow-500/10 border-yellow-500/30';
-      case 'done':
-        return 'bg-green-500/10 border-green-500/30';
-      default:
-        return 'bg-muted/30 border-border';
-    }
-  };
-
-  const getHeaderStyles = () => {
-    switch (column.id) {
-      case 'todo':
-        return 'text-muted-foreground';
-      case 'in-progress':
-        return 'text-yellow-600 dark:text-yellow-400';
-      case 'done':
-        return 'text-green-600 dark:text-green-400';
-      default:
-        return 'text-foreground';
-    }
-  };
+  const colorStyles = COLUMN_COLOR_STYLES[column.color] ?? COLUMN_COLOR_STYLES.gray;
+  const isOverLimit = isOverWipLimit(column, wipCount);
 
   return (
     <div
       ref={setNodeRef}
       className={cn(
-        "flex flex-col h-full rounded-xl border-2 border-dashed transition-all duration-200",
-        getColumnStyles(),
+        "flex flex-col h-full md:flex-1 md:min-w-[280px] rounded-xl border-2 border-dashed transition-all duration-200",
+        isOverLimit ? "bg-destructive/10 border-destructive/50" : colorStyles.column,
         isOver && "border-primary bg-primary/5 scale-[1.02]"
       )}
     >
-      <div className="p-4 border-b border-border/50">
-        <div className="flex items-center justify-between">
-          <h2 className={cn("font-semibold text-lg", getHeaderStyles())}>
-            {column.title}
-          </h2>
-          <span className="text-sm font-medium px-2 py-1 rounded-full bg-background/80 text-muted-foreground">
-            {column.tasks.length}
-          </span>
-        </div>
-      </div>
+      {!lane && (
+        <TaskColumnHeader
+          column={column}
+          wipCount={wipCount}
+          estimateUnit={estimateUnit}
+          isPrioritySorted={isPrioritySorted}
+          onTogglePrioritySort={onTogglePrioritySort}
+          className="border-b border-border/50"
+        />
+      )}
       
+      {lane && (
+        <div className={cn("md:hidden px-4 pt-3 text-sm font-medium", colorStyles.header)}>{column.title}</div>
+      )}
+
       <div className="flex-1 p-4 space-y-3 overflow-y-auto">
         <SortableContext
           items={column.tasks.map(task => task.id)}
@@ -74,17 +147,29 @@ export function TaskColumn({ column, selectedTaskId, onEdit, onDelete, onComplet
             <TaskCard
               key={task.id}
               task={task}
+              isDone={isDoneColumn}
               isSelected={selectedTaskId === task.id}
+              blockers={blockersByTask?.get(task.id)}
+              labels={getTaskLabels(task, labels)}
+              assignees={getAssignees(task, people)}
+              fields={cardFields}
+              attachmentCount={attachmentCounts?.get(task.id)}
+              onAttachFiles={onAttachFiles}
+              onToggleDescriptionTask={onToggleDescriptionTask}
+              onStartTimer={onStartTimer}
+              onStopTimer={onStopTimer}
+              estimateUnit={estimateUnit}
               onEdit={onEdit}
               onDelete={onDelete}
               onComplete={onComplete}
+              onArchive={onArchive}
               onSelect={() => onTaskSelect?.(task.id)}
             />
           ))}
         </SortableContext>
         
-        {column.tasks.length === 0 && (
-          <div className="text-center py-8 text-muted-foreground text-sm">
+        {column.tasks.length === 0 && (!lane || lane.canDrop) && (
+          <div className={cn("text-center text-muted-foreground text-sm", lane ? "py-2" : "py-8")}>
             Drop tasks here
           </div>
         )}
@@ -1,19 +1,65 @@
-import { Task } from '@/types/task';
+import { useState } from 'react';
+import { Task, TaskStatus } from '@/types/task';
 import { CheckCircle2, Clock, AlertCircle, ListTodo } from 'lucide-react';
 import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { startOfDay, startOfMonth, startOfWeek, subDays } from 'date-fns';
+import { getCompletedAt, isArchived } from '@/utils/archive';
+import { Person } from '@/types/person';
+import { isAssignedTo } from '@/utils/people';
+import { PersonAvatar } from './PersonAvatar';
+import { EstimateUnit } from '@/types/board';
+import { formatEstimate, sumEstimates } from '@/utils/estimates';
+import { formatDuration, getTrackedTime } from '@/utils/timeTracking';
 
 interface TaskStatisticsProps {
-  tasks: Task[];
+  tasks: Task[]; // board tasks plus archived ones
+  doneStatus: TaskStatus;
+  people?: Person[];
+  estimateUnit?: EstimateUnit;
 }
 
-export function TaskStatistics({ tasks }: TaskStatisticsProps) {
-  const totalTasks = tasks.length;
-  const completedTasks = tasks.filter(t => t.status === 'done').length;
-  const pendingTasks = tasks.filter(t => t.status !== 'done').length;
-  
+type StatisticsRange = 'all' | 'today' | 'week' | 'month' | '30days';
+
+const RANGE_OPTIONS: Array<{ value: StatisticsRange; label: string }> = [
+  { value: 'all', label: 'All time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'This week' },
+  { value: 'month', label: 'This month' },
+  { value: '30days', label: 'Last 30 days' },
+];
+
+function getRangeStart(range: StatisticsRange, now: Date): Date | undefined {
+  switch (range) {
+    case 'today':
+      return startOfDay(now);
+    case 'week':
+      return startOfWeek(now);
+    case 'month':
+      return startOfMonth(now);
+    case '30days':
+      return startOfDay(subDays(now, 30));
+    default:
+      return undefined;
+  }
+}
+
+export function TaskStatistics({ tasks, doneStatus, people = [], estimateUnit = 'points' }: TaskStatisticsProps) {
+  const [range, setRange] = useState<StatisticsRange>('all');
   const now = new Date();
-  const overdueTasks = tasks.filter(t => {
-    if (t.status === 'done' || !t.dueDate) return false;
+  const rangeStart = getRangeStart(range, now);
+  const inRange = (date: Date) => !rangeStart || date >= rangeStart;
+
+  // Archived tasks only count towards created/completed totals, they are no longer on the board
+  const boardTasks = tasks.filter(t => !isArchived(t));
+  const totalTasks = tasks.filter(t => inRange(t.createdAt)).length;
+  const completed = tasks.filter(t => (isArchived(t) || t.status === doneStatus) && inRange(getCompletedAt(t)));
+  const completedTasks = completed.length;
+  const archivedCompleted = completed.filter(isArchived).length;
+  const pendingTasks = boardTasks.filter(t => t.status !== doneStatus).length;
+  
+  const overdueTasks = boardTasks.filter(t => {
+    if (t.status === doneStatus || !t.dueDate) return false;
     const dueDate = new Date(t.dueDate);
     if (t.dueTime) {
       const [hours, minutes] = t.dueTime.split(':');
@@ -22,9 +68,38 @@ export function TaskStatistics({ tasks }: TaskStatisticsProps) {
     return dueDate < now;
   }).length;
 
+  // Open work is what is on the board now; completed work follows the selected range
+  const personStats = people
+    .map(person => ({
+      person,
+      open: boardTasks.filter(t => t.status !== doneStatus && isAssignedTo(t, person.id)).length,
+      done: completed.filter(t => isAssignedTo(t, person.id)).length,
+    }))
+    .filter(stat => stat.open > 0 || stat.done > 0);
+  const knownIds = new Set(people.map(person => person.id));
+  const unassignedOpen = boardTasks.filter(t =>
+    t.status !== doneStatus && !(t.assigneeIds ?? []).some(id => knownIds.has(id))
+  ).length;
+
+  // Only tasks with both an estimate and tracked time can be compared; the range does not apply,
+  // since time is usually logged long before a task is completed
+  const compared = tasks
+    .filter(t => t.estimate && t.timeEntries?.length)
+    .map(t => ({ task: t, estimate: t.estimate!, tracked: getTrackedTime(t, now) }));
+  const estimatedTotal = sumEstimates(compared.map(c => c.task));
+  const trackedTotal = compared.reduce((sum, c) => sum + c.tracked, 0);
+  const trackedHours = trackedTotal / 3_600_000;
+  // In hours the estimate is directly comparable; points are compared through the average pace
+  const hoursPerUnit = estimateUnit === 'hours' ? 1 : estimatedTotal > 0 ? trackedHours / estimatedTotal : 0;
+  const overruns = compared
+    .map(c => ({ ...c, ratio: hoursPerUnit > 0 ? c.tracked / 3_600_000 / (c.estimate * hoursPerUnit) : 0 }))
+    .filter(c => c.ratio > 1.1)
+    .sort((a, b) => b.ratio - a.ratio)
+    .slice(0, 5);
+
   const stats = [
     {
-      label: 'Total Tasks',
+      label: range === 'all' ? 'Total Tasks' : 'Created',
       value: totalTasks,
       icon: ListTodo,
       color: 'text-primary',
@@ -33,6 +108,7 @@ export function TaskStatistics({ tasks }: TaskStatisticsProps) {
     {
       label: 'Completed',
       value: completedTasks,
+      hint: archivedCompleted > 0 ? `${archivedCompleted} archived` : undefined,
       icon: CheckCircle2,
       color: 'text-green-600 dark:text-green-400',
       bgColor: 'bg-green-600/10 dark:bg-green-400/10'
@@ -54,23 +130,112 @@ export function TaskStatistics({ tasks }: TaskStatisticsProps) {
   ];
 
   return (
-    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
-      {stats.map((stat) => {
-        const Icon = stat.icon;
-        return (
-          <Card key={stat.label} className="p-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm text-muted-foreground">{stat.label}</p>
-                <p className="text-2xl font-bold mt-1">{stat.value}</p>
-              </div>
-              <div className={`${stat.bgColor} p-3 rounded-lg`}>
-                <Icon className={`h-5 w-5 ${stat.color}`} />
+    <div className="space-y-3 mb-6">
+      <div className="flex justify-end">
+        <Select value={range} onValueChange={(value) => setRange(value as StatisticsRange)}>
+          <SelectTrigger className="w-[140px] h-8 text-xs" aria-label="Statistics range">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat) => {
+          const Icon = stat.icon;
+          return (
+            <Card key={stat.label} className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">{stat.label}</p>
+                  <p className="text-2xl font-bold mt-1">{stat.value}</p>
+                  {stat.hint && <p className="text-xs text-muted-foreground">{stat.hint}</p>}
+                </div>
+                <div className={`${stat.bgColor} p-3 rounded-lg`}>
+                  <Icon className={`h-5 w-5 ${stat.color}`} />
+                </div>
               </div>
+            </Card>
+          );
+        })}
+      </div>
+      {compared.length > 0 && (
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground mb-3">Estimate vs. actual</p>
+          <div className="flex flex-wrap gap-x-8 gap-y-2 text-sm">
+            <div>
+              <p className="text-xs text-muted-foreground">Estimated</p>
+              <p className="text-lg font-semibold">{formatEstimate(estimatedTotal, estimateUnit)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Tracked</p>
+              <p className="text-lg font-semibold">{formatDuration(trackedTotal)}</p>
+            </div>
+            <div>
+              {estimateUnit === 'hours' ? (
+                <>
+                  <p className="text-xs text-muted-foreground">Difference</p>
+                  <p className={`text-lg font-semibold ${trackedHours > estimatedTotal ? 'text-destructive' : 'text-green-600 dark:text-green-400'}`}>
+                    {trackedHours > estimatedTotal ? '+' : ''}{Math.round((trackedHours / estimatedTotal - 1) * 100)}%
+                  </p>
+                </>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground">Average pace</p>
+                  <p className="text-lg font-semibold">{formatDuration(hoursPerUnit * 3_600_000)} per point</p>
+                </>
+              )}
             </div>
-          </Card>
-        );
-      })}
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Across {compared.length} task{compared.length === 1 ? '' : 's'} with both an estimate and tracked time
+          </p>
+          {overruns.length > 0 && (
+            <div className="mt-3 space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">
+                {estimateUnit === 'hours' ? 'Over their estimate' : 'Slower than the average pace'}
+              </p>
+              {overruns.map(({ task, estimate, tracked }) => (
+                <div key={task.id} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 min-w-0 truncate">{task.title}</span>
+                  <span className="text-muted-foreground tabular-nums shrink-0">
+                    {formatEstimate(estimate, estimateUnit)} · {formatDuration(tracked)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      )}
+      {personStats.length > 0 && (
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground mb-3">By person</p>
+          <div className="flex flex-wrap gap-x-6 gap-y-3">
+            {personStats.map(({ person, open, done }) => (
+              <div key={person.id} className="flex items-center gap-2">
+                <PersonAvatar person={person} className="h-7 w-7" />
+                <div className="leading-tight">
+                  <p className="text-sm font-medium">{person.name}</p>
+                  <p className="text-xs text-muted-foreground">{open} open · {done} completed</p>
+                </div>
+              </div>
+            ))}
+            {unassignedOpen > 0 && (
+              <div className="flex items-center gap-2">
+                <div className="leading-tight">
+                  <p className="text-sm font-medium text-muted-foreground">Unassigned</p>
+                  <p className="text-xs text-muted-foreground">{unassignedOpen} open</p>
+                </div>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
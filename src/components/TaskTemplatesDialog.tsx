@@ -0,0 +1,400 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bell, Calendar, Edit2, ListChecks, Plus, Search, Trash2 } from 'lucide-react';
+import { TaskLabel } from '@/types/board';
+import { TaskTemplate } from '@/types/template';
+import { TaskTemplateChanges } from '@/hooks/useTaskTemplates';
+import { MAX_CHECKLIST_ITEM_LENGTH } from '@/utils/checklist';
+import { MAX_DESCRIPTION_LENGTH } from '@/utils/markdown';
+import {
+  DEFAULT_TEMPLATE_CATEGORY,
+  MAX_TEMPLATE_CATEGORY_LENGTH,
+  createTaskTemplate,
+  formatRelativeDue,
+  groupTemplatesByCategory,
+  matchesTemplate,
+  parseRelativeDue,
+} from '@/utils/templates';
+import { LabelPicker } from './LabelPicker';
+
+interface TaskTemplatesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  templates: TaskTemplate[];
+  labels: TaskLabel[];
+  onAddTemplate: (template: TaskTemplate) => void;
+  onUpdateTemplate: (id: string, changes: TaskTemplateChanges) => void;
+  onRemoveTemplate: (id: string) => void;
+  onUseTemplate: (template: TaskTemplate) => void;
+}
+
+// The editor works on a copy, so nothing is saved until the user says so
+interface TemplateDraft {
+  id?: string;
+  title: string;
+  category: string;
+  description: string;
+  checklist: string; // one item per line
+  labelNames: string[];
+  due: string;
+  dueTime: string;
+  reminderTime: string;
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  title: '',
+  category: DEFAULT_TEMPLATE_CATEGORY,
+  description: '',
+  checklist: '',
+  labelNames: [],
+  due: '',
+  dueTime: '',
+  reminderTime: 'none',
+};
+
+function toDraft(template: TaskTemplate): TemplateDraft {
+  return {
+    id: template.id,
+    title: template.title,
+    category: template.category,
+    description: template.description,
+    checklist: (template.checklist ?? []).join('\n'),
+    labelNames: template.labelNames ?? [],
+    due: template.due ? formatRelativeDue(template.due) : '',
+    dueTime: template.dueTime ?? '',
+    reminderTime: template.reminderTime !== undefined ? String(template.reminderTime) : 'none',
+  };
+}
+
+export function TaskTemplatesDialog({
+  isOpen,
+  onClose,
+  templates,
+  labels,
+  onAddTemplate,
+  onUpdateTemplate,
+  onRemoveTemplate,
+  onUseTemplate,
+}: TaskTemplatesDialogProps) {
+  const [search, setSearch] = useState('');
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [pendingRemoval, setPendingRemoval] = useState<TaskTemplate | null>(null);
+
+  const groups = groupTemplatesByCategory(templates.filter(template => !search.trim() || matchesTemplate(template, search)));
+  const categories = [...new Set(templates.map(template => template.category))].sort();
+  const due = draft?.due.trim() ? parseRelativeDue(draft.due) : undefined;
+  const dueError = !!draft?.due.trim() && !due;
+
+  // Labels are stored by name; names this board has no label for are kept as they are
+  const boardLabelNames = new Set(labels.map(label => label.name.toLowerCase()));
+  const selectedLabelIds = labels
+    .filter(label => draft?.labelNames.some(name => name.toLowerCase() === label.name.toLowerCase()))
+    .map(label => label.id);
+  const otherLabelNames = draft?.labelNames.filter(name => !boardLabelNames.has(name.toLowerCase())) ?? [];
+
+  const update = (changes: Partial<TemplateDraft>) => setDraft(prev => prev && { ...prev, ...changes });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.title.trim() || dueError) return;
+    const checklist = draft.checklist
+      .split('\n')
+      .map(line => line.trim().slice(0, MAX_CHECKLIST_ITEM_LENGTH))
+      .filter(Boolean);
+    const fields = {
+      title: draft.title.trim().slice(0, 100),
+      category: draft.category.trim().slice(0, MAX_TEMPLATE_CATEGORY_LENGTH) || DEFAULT_TEMPLATE_CATEGORY,
+      description: draft.description.trim().slice(0, MAX_DESCRIPTION_LENGTH),
+      checklist: checklist.length > 0 ? checklist : undefined,
+      labelNames: draft.labelNames.length > 0 ? draft.labelNames : undefined,
+      due,
+      dueTime: due && draft.dueTime ? draft.dueTime : undefined,
+      reminderTime: due && draft.reminderTime !== 'none' ? parseInt(draft.reminderTime) : undefined,
+    };
+    if (draft.id) {
+      onUpdateTemplate(draft.id, fields);
+    } else {
+      onAddTemplate(createTaskTemplate(fields));
+    }
+    setDraft(null);
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    setSearch('');
+    onClose();
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={handleClose}>
+        <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft ? (draft.id ? 'Edit Template' : 'New Template') : 'Task Templates'}</DialogTitle>
+            <DialogDescription>
+              Reusable tasks for every board on this device. Start typing a template's title in Add Task to use it.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft ? (
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="grid grid-cols-[1fr_10rem] gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="template-title">Title</Label>
+                  <Input
+                    id="template-title"
+                    value={draft.title}
+                    onChange={(e) => update({ title: e.target.value })}
+                    maxLength={100}
+                    autoFocus
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-category">Category</Label>
+                  <Input
+                    id="template-category"
+                    value={draft.category}
+                    onChange={(e) => update({ category: e.target.value })}
+                    maxLength={MAX_TEMPLATE_CATEGORY_LENGTH}
+                    list="template-categories"
+                  />
+                  <datalist id="template-categories">
+                    {categories.map(category => <option key={category} value={category} />)}
+                  </datalist>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Description</Label>
+                <Textarea
+                  id="template-description"
+                  value={draft.description}
+                  onChange={(e) => update({ description: e.target.value })}
+                  maxLength={MAX_DESCRIPTION_LENGTH}
+                  className="min-h-[80px]"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-checklist" className="flex items-center gap-2">
+                  <ListChecks className="h-4 w-4" />
+                  Checklist
+                </Label>
+                <Textarea
+                  id="template-checklist"
+                  value={draft.checklist}
+                  onChange={(e) => update({ checklist: e.target.value })}
+                  placeholder="One item per line"
+                  className="min-h-[60px]"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Labels</Label>
+                <LabelPicker
+                  labels={labels}
+                  selectedIds={selectedLabelIds}
+                  onChange={(ids) =>
+                    update({
+                      labelNames: [
+                        ...otherLabelNames,
+                        ...labels.filter(label => ids.includes(label.id)).map(label => label.name),
+                      ],
+                    })
+                  }
+                />
+                {otherLabelNames.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Also {otherLabelNames.join(', ')}, on boards that have {otherLabelNames.length === 1 ? 'it' : 'them'}
+                  </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="template-due" className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4" />
+                    Due
+                  </Label>
+                  <Input
+                    id="template-due"
+                    value={draft.due}
+                    onChange={(e) => update({ due: e.target.value })}
+                    onBlur={() => due && update({ due: formatRelativeDue(due) })}
+                    placeholder="+3 days"
+                    aria-invalid={dueError}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-due-time">Time</Label>
+                  <Input
+                    id="template-due-time"
+                    type="time"
+                    value={draft.dueTime}
+                    onChange={(e) => update({ dueTime: e.target.value })}
+                    disabled={!due}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-reminder" className="flex items-center gap-2">
+                    <Bell className="h-4 w-4" />
+                    Reminder
+                  </Label>
+                  <Select value={draft.reminderTime} onValueChange={(value) => update({ reminderTime: value })} disabled={!due}>
+                    <SelectTrigger id="template-reminder">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No reminder</SelectItem>
+                      <SelectItem value="0">At due time</SelectItem>
+                      <SelectItem value="5">5 minutes before</SelectItem>
+                      <SelectItem value="10">10 minutes before</SelectItem>
+                      <SelectItem value="15">15 minutes before</SelectItem>
+                      <SelectItem value="30">30 minutes before</SelectItem>
+                      <SelectItem value="60">1 hour before</SelectItem>
+                      <SelectItem value="120">2 hours before</SelectItem>
+                      <SelectItem value="1440">1 day before</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {dueError && (
+                <p className="text-xs text-destructive">
+                  Write the due date relative to the day the task is created, like "+3 days", "2 weeks" or "today"
+                </p>
+              )}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={!draft.title.trim() || dueError}>
+                  Save Template
+                </Button>
+              </DialogFooter>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search templates..."
+                    className="pl-9"
+                  />
+                </div>
+                <Button onClick={() => setDraft(EMPTY_DRAFT)} className="shrink-0">
+                  <Plus className="h-4 w-4 mr-1" />
+                  New
+                </Button>
+              </div>
+
+              {groups.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  {templates.length === 0
+                    ? 'No templates yet. Create one here, or use "Save as template" when editing a task.'
+                    : 'No templates match your search'}
+                </p>
+              )}
+              {groups.map(group => (
+                <section key={group.category} className="space-y-1">
+                  <h3 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{group.category}</h3>
+                  {group.templates.map(template => (
+                    <div key={template.id} className="flex items-center gap-2 rounded-md border p-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium truncate">{template.title}</div>
+                        <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                          {template.due && <span>Due {formatRelativeDue(template.due).toLowerCase()}</span>}
+                          {template.checklist && <span>{template.checklist.length} checklist items</span>}
+                          {template.labelNames && <span>{template.labelNames.join(', ')}</span>}
+                        </div>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="shrink-0"
+                        onClick={() => onUseTemplate(template)}
+                        title="Add a task from this template"
+                      >
+                        <Plus className="h-3.5 w-3.5 mr-1" />
+                        Use
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        onClick={() => setDraft(toDraft(template))}
+                        aria-label="Edit template"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                        onClick={() => setPendingRemoval(template)}
+                        aria-label="Delete template"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </section>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingRemoval} onOpenChange={() => setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingRemoval?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The template is removed from every board. Tasks already created from it stay as they are.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingRemoval) onRemoveTemplate(pendingRemoval.id);
+                setPendingRemoval(null);
+              }}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete Template
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
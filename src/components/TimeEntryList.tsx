@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { format, subMinutes } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Pencil, Play, Plus, Square, Trash2 } from 'lucide-react';
+import { TimeEntry } from '@/types/task';
+import { useNow } from '@/hooks/useNow';
+import {
+  MAX_TIME_ENTRY_NOTE_LENGTH,
+  createTimeEntry,
+  formatDuration,
+  getEntryDuration,
+  isValidTimeEntry,
+} from '@/utils/timeTracking';
+
+interface TimeEntryListProps {
+  entries: TimeEntry[];
+  onStart: () => void;
+  onStop: () => void;
+  onAdd: (entry: TimeEntry) => void;
+  onUpdate: (entry: TimeEntry) => void;
+  onDelete: (entryId: string) => void;
+}
+
+interface EntryDraft {
+  id?: string; // missing for a new manual entry
+  start: string;
+  end: string;
+  note: string;
+}
+
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+function toDraft(entry: TimeEntry): EntryDraft {
+  return {
+    id: entry.id,
+    start: format(entry.start, INPUT_FORMAT),
+    end: entry.end ? format(entry.end, INPUT_FORMAT) : '',
+    note: entry.note ?? '',
+  };
+}
+
+export function TimeEntryList({ entries, onStart, onStop, onAdd, onUpdate, onDelete }: TimeEntryListProps) {
+  const [draft, setDraft] = useState<EntryDraft | null>(null);
+  const isRunning = entries.some(entry => !entry.end);
+  const now = useNow(isRunning);
+  const total = entries.reduce((sum, entry) => sum + getEntryDuration(entry, now), 0);
+
+  const startManualEntry = () => {
+    const end = new Date();
+    setDraft({ start: format(subMinutes(end, 30), INPUT_FORMAT), end: format(end, INPUT_FORMAT), note: '' });
+  };
+
+  const draftEntry = (() => {
+    if (!draft) return null;
+    const existing = entries.find(entry => entry.id === draft.id);
+    // The running entry keeps running; only its start and note can change
+    const end = existing && !existing.end ? undefined : new Date(draft.end);
+    const entry = existing
+      ? { ...existing, start: new Date(draft.start), end, note: draft.note.trim().slice(0, MAX_TIME_ENTRY_NOTE_LENGTH) || undefined }
+      : createTimeEntry(new Date(draft.start), new Date(draft.end), draft.note);
+    return isValidTimeEntry(entry) ? entry : null;
+  })();
+
+  const handleSave = () => {
+    if (!draft || !draftEntry) return;
+    if (draft.id) {
+      onUpdate(draftEntry);
+    } else {
+      onAdd(draftEntry);
+    }
+    setDraft(null);
+  };
+
+  const renderDraft = (isRunningEntry: boolean) => draft && (
+    <div className="space-y-2 rounded-md border p-2">
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="datetime-local"
+          value={draft.start}
+          onChange={(e) => setDraft({ ...draft, start: e.target.value })}
+          aria-label="Start"
+        />
+        <Input
+          type="datetime-local"
+          value={draft.end}
+          onChange={(e) => setDraft({ ...draft, end: e.target.value })}
+          disabled={isRunningEntry}
+          placeholder={isRunningEntry ? 'Running' : undefined}
+          aria-label="End"
+        />
+      </div>
+      <Input
+        value={draft.note}
+        onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+        placeholder="Note (optional)"
+        maxLength={MAX_TIME_ENTRY_NOTE_LENGTH}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-destructive">
+          {!draftEntry && (isRunningEntry ? 'The start cannot be in the future' : 'The end has to be after the start')}
+        </span>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+          <Button type="button" size="sm" onClick={handleSave} disabled={!draftEntry}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        {isRunning ? (
+          <Button type="button" variant="outline" size="sm" onClick={onStop}>
+            <Square className="h-3.5 w-3.5 mr-1 fill-current" />
+            Stop timer
+          </Button>
+        ) : (
+          <Button type="button" variant="outline" size="sm" onClick={onStart}>
+            <Play className="h-3.5 w-3.5 mr-1" />
+            Start timer
+          </Button>
+        )}
+        <Button type="button" variant="ghost" size="sm" onClick={startManualEntry} disabled={!!draft}>
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Add entry
+        </Button>
+        {entries.length > 0 && (
+          <span className="ml-auto text-sm font-medium tabular-nums">{formatDuration(total)}</span>
+        )}
+      </div>
+
+      {draft && !draft.id && renderDraft(false)}
+
+      {entries.length > 0 && (
+        <ul className="space-y-1">
+          {[...entries].reverse().map(entry =>
+            draft?.id === entry.id ? (
+              <li key={entry.id}>{renderDraft(!entry.end)}</li>
+            ) : (
+              <li key={entry.id} className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground shrink-0">
+                  {format(entry.start, 'MMM d, HH:mm')} – {entry.end ? format(entry.end, 'HH:mm') : 'now'}
+                </span>
+                <span className="flex-1 min-w-0 truncate" title={entry.note}>{entry.note}</span>
+                <span className="tabular-nums shrink-0">{formatDuration(getEntryDuration(entry, now))}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0 text-muted-foreground"
+                  onClick={() => setDraft(toDraft(entry))}
+                  aria-label="Edit time entry"
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0 text-muted-foreground hover:text-destructive"
+                  onClick={() => onDelete(entry.id)}
+                  aria-label="Delete time entry"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </li>
+            )
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Download } from 'lucide-react';
+import { Task, Workflow } from '@/types/task';
+import { useNow } from '@/hooks/useNow';
+import { downloadCsv, toCsv } from '@/utils/csv';
+import {
+  TimesheetGrouping,
+  buildTimesheet,
+  formatDuration,
+  getRunningEntry,
+  timesheetToRows,
+} from '@/utils/timeTracking';
+import { getColumnTitle } from '@/utils/workflow';
+
+interface TimesheetDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boardName: string;
+  tasks: Task[];
+  workflow: Workflow;
+}
+
+export function TimesheetDialog({ isOpen, onClose, boardName, tasks, workflow }: TimesheetDialogProps) {
+  const [grouping, setGrouping] = useState<TimesheetGrouping>('day');
+  const isRunning = isOpen && tasks.some(task => getRunningEntry(task));
+  const now = useNow(isRunning);
+  const groups = useMemo(() => buildTimesheet(tasks, grouping, now), [tasks, grouping, now]);
+  const total = groups.reduce((sum, group) => sum + group.total, 0);
+
+  const handleExport = () => {
+    const rows = timesheetToRows(groups, task => getColumnTitle(workflow, task.status));
+    const boardSlug = boardName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'board';
+    downloadCsv(`${boardSlug}_timesheet_${format(new Date(), 'yyyy-MM-dd')}.csv`, toCsv(rows));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Timesheet</DialogTitle>
+          <DialogDescription>
+            Time tracked on this board's tasks, {formatDuration(total)} in total.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <Tabs value={grouping} onValueChange={(value) => setGrouping(value as TimesheetGrouping)}>
+            <TabsList>
+              <TabsTrigger value="day">By day</TabsTrigger>
+              <TabsTrigger value="week">By week</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={groups.length === 0}>
+            <Download className="h-4 w-4 mr-1" />
+            Export CSV
+          </Button>
+        </div>
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No time tracked yet. Start a timer from a task card to get going.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => (
+              <section key={group.start.getTime()} className="space-y-1">
+                <div className="flex items-center justify-between border-b pb-1 text-sm font-medium">
+                  <h3>{group.label}</h3>
+                  <span className="tabular-nums">{formatDuration(group.total)}</span>
+                </div>
+                <ul className="space-y-1">
+                  {group.rows.map(({ task, entry, duration }) => (
+                    <li key={entry.id} className="flex items-center gap-2 text-sm">
+                      <span className="text-muted-foreground shrink-0 tabular-nums">
+                        {format(entry.start, grouping === 'day' ? 'HH:mm' : 'EEE HH:mm')} – {entry.end ? format(entry.end, 'HH:mm') : 'now'}
+                      </span>
+                      <span className="flex-1 min-w-0 truncate">
+                        {task.title}
+                        {entry.note && <span className="text-muted-foreground"> · {entry.note}</span>}
+                      </span>
+                      <span className="tabular-nums shrink-0">{formatDuration(duration)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,27 @@
+import { Badge } from '@/components/ui/badge';
+import { Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Task } from '@/types/task';
+import { useNow } from '@/hooks/useNow';
+import { formatDuration, getRunningEntry, getTrackedTime } from '@/utils/timeTracking';
+
+interface TrackedTimeBadgeProps {
+  task: Task;
+}
+
+// Ticks every second while the task's timer runs; idle cards never re-render for it
+export function TrackedTimeBadge({ task }: TrackedTimeBadgeProps) {
+  const isRunning = !!getRunningEntry(task);
+  const now = useNow(isRunning);
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn('text-xs tabular-nums', isRunning && 'border-primary text-primary')}
+      title={isRunning ? 'Timer running' : 'Tracked time'}
+    >
+      <Timer className={cn('h-3 w-3 mr-1', isRunning && 'animate-pulse')} />
+      {formatDuration(getTrackedTime(task, now))}
+    </Badge>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RotateCcw, Trash2, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { Task, Workflow } from '@/types/task';
+import { getColumnTitle } from '@/utils/workflow';
+import { TRASH_RETENTION_OPTIONS, daysUntilPurge } from '@/utils/trash';
+
+interface TrashDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tasks: Task[];
+  workflow: Workflow;
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onRestore: (taskIds: string[]) => void;
+  onPurge: (taskIds: string[]) => void;
+}
+
+export function TrashDialog({
+  isOpen,
+  onClose,
+  tasks,
+  workflow,
+  retentionDays,
+  onRetentionChange,
+  onRestore,
+  onPurge,
+}: TrashDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [purgeIds, setPurgeIds] = useState<string[] | null>(null);
+
+  // Forget selections for tasks that were restored or purged
+  useEffect(() => {
+    setSelectedIds(prev => new Set(tasks.filter(task => prev.has(task.id)).map(task => task.id)));
+  }, [tasks]);
+
+  const sorted = [...tasks].sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0));
+  const allSelected = tasks.length > 0 && selectedIds.size === tasks.length;
+  const bulkIds = selectedIds.size > 0 ? [...selectedIds] : tasks.map(task => task.id);
+
+  const toggleSelected = (taskId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(taskId);
+      else next.delete(taskId);
+      return next;
+    });
+  };
+
+  const handlePurge = () => {
+    if (purgeIds) onPurge(purgeIds);
+    setPurgeIds(null);
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Trash</DialogTitle>
+            <DialogDescription>
+              Deleted tasks can be restored to their original column and position until they are purged.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="trash-retention" className="text-sm whitespace-nowrap">Purge automatically after</Label>
+              <Select value={retentionDays.toString()} onValueChange={(value) => onRetentionChange(parseInt(value))}>
+                <SelectTrigger id="trash-retention" className="w-[110px] h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRASH_RETENTION_OPTIONS.map(option => (
+                    <SelectItem key={option.days} value={option.days.toString()}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => onRestore(bulkIds)} disabled={tasks.length === 0}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                {selectedIds.size > 0 ? `Restore ${selectedIds.size}` : 'Restore all'}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPurgeIds(bulkIds)}
+                disabled={tasks.length === 0}
+                className="text-destructive hover:text-destructive"
+              >
+                <XCircle className="h-4 w-4 mr-1" />
+                {selectedIds.size > 0 ? `Purge ${selectedIds.size}` : 'Empty trash'}
+              </Button>
+            </div>
+          </div>
+
+          {tasks.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground text-sm">
+              <Trash2 className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              The trash is empty
+            </div>
+          ) : (
+            <div className="flex-1 overflow-y-auto -mx-2 px-2">
+              <div className="flex items-center gap-3 py-2 border-b">
+                <Checkbox
+                  id="trash-select-all"
+                  checked={allSelected}
+                  onCheckedChange={(checked) =>
+                    setSelectedIds(checked === true ? new Set(tasks.map(task => task.id)) : new Set())
+                  }
+                />
+                <Label htmlFor="trash-select-all" className="text-sm text-muted-foreground">
+                  {tasks.length} deleted task{tasks.length === 1 ? '' : 's'}
+                </Label>
+              </div>
+              <ul className="divide-y">
+                {sorted.map(task => {
+                  const remaining = daysUntilPurge(task, retentionDays);
+                  return (
+                    <li key={task.id} className="flex items-center gap-3 py-2">
+                      <Checkbox
+                        checked={selectedIds.has(task.id)}
+                        onCheckedChange={(checked) => toggleSelected(task.id, checked === true)}
+                        aria-label={`Select ${task.title}`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{task.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {getColumnTitle(workflow, task.status)}
+                          {task.deletedAt && ` · deleted ${format(task.deletedAt, 'PPp')}`}
+                          {remaining !== undefined && ` · purged in ${remaining} day${remaining === 1 ? '' : 's'}`}
+                        </p>
+                      </div>
+                      <Button size="sm" variant="ghost" onClick={() => onRestore([task.id])}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => setPurgeIds([task.id])}
+                        aria-label={`Purge ${task.title}`}
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={purgeIds !== null} onOpenChange={() => setPurgeIds(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Permanently delete {purgeIds?.length === 1 ? 'this task' : `${purgeIds?.length ?? 0} tasks`}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Purged tasks are removed from the trash and can no longer be restored from it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePurge} className="bg-destructive text-destructive-foreground">
+              Purge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
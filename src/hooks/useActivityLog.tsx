@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Task } from '@/types/task';
+import { TaskEvent } from '@/types/activity';
+import { deriveTaskEvents } from '@/utils/activity';
+import { taskRepository } from '@/utils/taskRepository';
+import { broadcast, subscribe } from '@/utils/tabSync';
+
+// Watches the board's tasks and appends an event for every change made in this tab, whatever caused
+// it. Changes synced from another tab were logged there. `actor` is the name of whoever is using the
+// app, when known.
+export function useActivityLog(
+  boardId: string,
+  tasks: Task[],
+  isTasksLoaded: boolean,
+  isSynced: (tasks: Task[]) => boolean,
+  actor?: string
+) {
+  const [events, setEvents] = useState<TaskEvent[]>([]);
+  const [isEventsLoaded, setIsEventsLoaded] = useState(false);
+  const eventsRef = useRef(events);
+  const observedRef = useRef<Task[] | null>(null);
+  const actorRef = useRef(actor);
+  actorRef.current = actor;
+
+  useEffect(() => {
+    let cancelled = false;
+    taskRepository.listEvents(boardId)
+      .then(stored => {
+        if (cancelled) return;
+        eventsRef.current = stored;
+        setEvents(stored);
+        setIsEventsLoaded(true);
+      })
+      .catch(error => console.error('Failed to load activity:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId]);
+
+  const recordEvents = useCallback((newEvents: TaskEvent[]) => {
+    if (newEvents.length === 0) return;
+    eventsRef.current = [...eventsRef.current, ...newEvents];
+    setEvents(eventsRef.current);
+    taskRepository.appendEvents(newEvents)
+      .then(() => broadcast({ type: 'events-changed', boardId }))
+      .catch(error => console.error('Failed to save activity:', error));
+  }, [boardId]);
+
+  // Pick up the events other tabs logged, keeping ours that are still being written
+  useEffect(() => {
+    if (!isEventsLoaded) return;
+    let cancelled = false;
+    const unsubscribe = subscribe(message => {
+      if (message.type !== 'events-changed' || message.boardId !== boardId) return;
+      taskRepository.listEvents(boardId)
+        .then(stored => {
+          if (cancelled) return;
+          const storedIds = new Set(stored.map(event => event.id));
+          eventsRef.current = [...stored, ...eventsRef.current.filter(event => !storedIds.has(event.id))];
+          setEvents(eventsRef.current);
+        })
+        .catch(error => console.error('Failed to sync activity:', error));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [boardId, isEventsLoaded]);
+
+  // Events from an export file; call before committing the imported tasks so they aren't logged as new
+  const importEvents = useCallback((imported: TaskEvent[]) => {
+    const knownIds = new Set(eventsRef.current.map(event => event.id));
+    recordEvents(imported.filter(event => !knownIds.has(event.id)));
+  }, [recordEvents]);
+
+  useEffect(() => {
+    if (!isTasksLoaded || !isEventsLoaded) return;
+
+    // The first loaded snapshot is the baseline, not a change
+    const observed = observedRef.current;
+    observedRef.current = tasks;
+    if (!observed || observed === tasks || isSynced(tasks)) return;
+
+    recordEvents(deriveTaskEvents(boardId, observed, tasks, eventsRef.current, actorRef.current));
+  }, [boardId, tasks, isTasksLoaded, isEventsLoaded, isSynced, recordEvents]);
+
+  return { events, recordEvents, importEvents };
+}
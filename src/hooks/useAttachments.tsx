@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { TaskAttachment } from '@/types/attachment';
+import {
+  MAX_ATTACHMENT_SIZE,
+  StorageEstimate,
+  createAttachment,
+  formatFileSize,
+  getStorageEstimate,
+  isQuotaLow,
+} from '@/utils/attachments';
+import { taskRepository } from '@/utils/taskRepository';
+
+// Attachments are kept apart from the tasks, so undo and imports never have to carry blobs around
+export function useAttachments(boardId: string) {
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | undefined>();
+
+  const refreshStorageEstimate = useCallback(async () => {
+    const estimate = await getStorageEstimate();
+    setStorageEstimate(estimate);
+    return estimate;
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    taskRepository.listAttachments(boardId)
+      .then(stored => {
+        if (!cancelled) setAttachments(stored);
+      })
+      .catch(error => console.error('Failed to load attachments:', error));
+    refreshStorageEstimate();
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, refreshStorageEstimate]);
+
+  const attachmentsByTask = useMemo(() => {
+    const byTask = new Map<string, TaskAttachment[]>();
+    for (const attachment of attachments) {
+      byTask.set(attachment.taskId, [...(byTask.get(attachment.taskId) ?? []), attachment]);
+    }
+    return byTask;
+  }, [attachments]);
+
+  const addFiles = useCallback(async (taskId: string, files: File[]) => {
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_SIZE);
+    tooLarge.forEach(file =>
+      toast.error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`)
+    );
+    const added = files
+      .filter(file => file.size <= MAX_ATTACHMENT_SIZE)
+      .map(file => createAttachment(boardId, taskId, file));
+    if (added.length === 0) return;
+
+    try {
+      await taskRepository.saveAttachments(added);
+      setAttachments(prev => [...prev, ...added]);
+      toast.success(added.length === 1 ? `Attached ${added[0].name}` : `Attached ${added.length} files`);
+    } catch (error) {
+      console.error('Failed to save attachments:', error);
+      toast.error('Failed to save attachments - storage may be full');
+      return;
+    }
+
+    const estimate = await refreshStorageEstimate();
+    if (isQuotaLow(estimate)) {
+      toast.warning(
+        `Storage is almost full (${formatFileSize(estimate!.usage)} of ${formatFileSize(estimate!.quota)}). ` +
+        'Delete attachments you no longer need.'
+      );
+    }
+  }, [boardId, refreshStorageEstimate]);
+
+  const removeAttachments = useCallback(async (attachmentIds: string[]) => {
+    if (attachmentIds.length === 0) return;
+    const ids = new Set(attachmentIds);
+    try {
+      await taskRepository.deleteAttachments(attachmentIds);
+      setAttachments(prev => prev.filter(attachment => !ids.has(attachment.id)));
+      refreshStorageEstimate();
+    } catch (error) {
+      console.error('Failed to delete attachments:', error);
+      toast.error('Failed to delete attachments');
+    }
+  }, [refreshStorageEstimate]);
+
+  // For tasks that are gone for good (purged)
+  const removeTaskAttachments = useCallback(async (taskIds: string[]) => {
+    if (taskIds.length === 0) return;
+    const ids = new Set(taskIds);
+    try {
+      await taskRepository.deleteTaskAttachments(taskIds);
+      setAttachments(prev => prev.filter(attachment => !ids.has(attachment.taskId)));
+      refreshStorageEstimate();
+    } catch (error) {
+      console.error('Failed to delete attachments:', error);
+      toast.error('Failed to delete attachments');
+    }
+  }, [refreshStorageEstimate]);
+
+  return { attachmentsByTask, storageEstimate, addFiles, removeAttachments, removeTaskAttachments };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Task } from '@/types/task';
+import { diffRecords, taskRepository } from '@/utils/taskRepository';
+import { broadcast, mergeRecords, subscribe } from '@/utils/tabSync';
+
+export function useBoardTasks(boardId: string) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const persistedRef = useRef<Task[]>([]);
+  // Task lists that came from merging another tab's save rather than from an edit made here
+  const syncedRef = useRef(new WeakSet<Task[]>());
+
+  useEffect(() => {
+    let cancelled = false;
+    taskRepository.listTasks(boardId)
+      .then(loaded => {
+        if (cancelled) return;
+        persistedRef.current = loaded;
+        setTasks(loaded);
+        setIsLoaded(true);
+      })
+      .catch(error => {
+        // Stay unloaded so nothing gets written over data we could not read
+        console.error('Failed to load tasks:', error);
+        toast.error('Failed to load tasks from storage');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId]);
+
+  // Write only the tasks that changed since the last save
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const { changed, removedIds, orderChanged } = diffRecords(persistedRef.current, tasks);
+    persistedRef.current = tasks;
+
+    const writes: Promise<void>[] = [];
+    if (changed.length > 0) writes.push(taskRepository.saveTasks(boardId, changed));
+    if (removedIds.length > 0) writes.push(taskRepository.deleteTasks(removedIds));
+    if (orderChanged) writes.push(taskRepository.saveTaskOrder(boardId, tasks.map(task => task.id)));
+
+    if (writes.length === 0) return;
+    Promise.all(writes)
+      .then(() => broadcast({ type: 'tasks-changed', boardId }))
+      .catch(error => {
+        console.error('Failed to save tasks:', error);
+        toast.error('Failed to save changes');
+      });
+  }, [boardId, tasks, isLoaded]);
+
+  // Another tab saved this board: fold its changes into ours, the newer edit of a task winning.
+  // Whatever we still hold that is newer is then written back by the save above.
+  useEffect(() => {
+    if (!isLoaded) return;
+    let cancelled = false;
+    const unsubscribe = subscribe(message => {
+      if (message.type !== 'tasks-changed' || message.boardId !== boardId) return;
+      taskRepository.listTasks(boardId)
+        .then(stored => {
+          if (cancelled) return;
+          const base = persistedRef.current;
+          persistedRef.current = stored;
+          setTasks(prev => {
+            const merged = mergeRecords(base, prev, stored);
+            syncedRef.current.add(merged);
+            return merged;
+          });
+        })
+        .catch(error => console.error('Failed to sync tasks:', error));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [boardId, isLoaded]);
+
+  const isSynced = useCallback((list: Task[]) => syncedRef.current.has(list), []);
+
+  return { tasks, setTasks, isLoaded, isSynced };
+}
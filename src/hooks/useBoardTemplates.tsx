@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Board } from '@/types/board';
+import { BoardTemplate } from '@/types/template';
+import { loadBoardTemplates, saveBoardTemplates } from '@/utils/boardStorage';
+import { BUILT_IN_BOARD_TEMPLATES, createBoardTemplate } from '@/utils/boardTemplates';
+import { taskRepository } from '@/utils/taskRepository';
+
+// The device-wide board templates: the built-in ones followed by the user's own
+export function useBoardTemplates() {
+  const [userTemplates, setUserTemplates] = useState<BoardTemplate[]>(loadBoardTemplates);
+
+  useEffect(() => {
+    saveBoardTemplates(userTemplates);
+  }, [userTemplates]);
+
+  const boardTemplates = useMemo(() => [...BUILT_IN_BOARD_TEMPLATES, ...userTemplates], [userTemplates]);
+
+  const saveBoardAsTemplate = async (board: Board, name: string): Promise<BoardTemplate> => {
+    const template = createBoardTemplate(board, await taskRepository.listTasks(board.id), name);
+    setUserTemplates(prev => [...prev, template]);
+    return template;
+  };
+
+  const removeBoardTemplate = (id: string) => {
+    setUserTemplates(prev => prev.filter(template => template.id !== id));
+  };
+
+  return { boardTemplates, saveBoardAsTemplate, removeBoardTemplate };
+}
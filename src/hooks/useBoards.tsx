@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Board, BoardSettings, CustomField, TaskLabel } from '@/types/board';
+import { Task, Workflow } from '@/types/task';
+import { BoardTemplate } from '@/types/template';
+import {
+  DEFAULT_BOARD_NAME,
+  MAX_BOARD_NAME_LENGTH,
+  createBoard as buildBoard,
+  deleteBoardFilters,
+  getBoardSettings,
+} from '@/utils/boardStorage';
+import { diffRecords, taskRepository } from '@/utils/taskRepository';
+import { broadcast, mergeRecords, subscribe } from '@/utils/tabSync';
+import { isTrashed } from '@/utils/trash';
+import { remapTaskIds } from '@/utils/dependencies';
+import { instantiateBoardTemplate } from '@/utils/boardTemplates';
+import { createLabel } from '@/utils/labels';
+import { getRunningEntry, stopTimer } from '@/utils/timeTracking';
+
+export function useBoards() {
+  // null until the repository has answered
+  const [boards, setBoards] = useState<Board[] | null>(null);
+  const persistedRef = useRef<Board[]>([]);
+
+  useEffect(() => {
+    taskRepository.listBoards()
+      .then(loaded => {
+        persistedRef.current = loaded;
+        setBoards(loaded.length > 0 ? loaded : [buildBoard(DEFAULT_BOARD_NAME)]);
+      })
+      .catch(error => {
+        console.error('Failed to load boards:', error);
+        toast.error('Failed to load boards from storage');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!boards) return;
+
+    const { changed, removedIds } = diffRecords(persistedRef.current, boards);
+    persistedRef.current = boards;
+
+    const writes: Promise<void>[] = [];
+    if (changed.length > 0) writes.push(taskRepository.saveBoards(changed));
+    removedIds.forEach(id => writes.push(taskRepository.deleteBoard(id)));
+
+    if (writes.length === 0) return;
+    Promise.all(writes)
+      .then(() => broadcast({ type: 'boards-changed' }))
+      .catch(error => {
+        console.error('Failed to save boards:', error);
+        toast.error('Failed to save board changes');
+      });
+  }, [boards]);
+
+  // Boards created, renamed or reconfigured in another tab, merged the same way as tasks
+  const isLoaded = boards !== null;
+  useEffect(() => {
+    if (!isLoaded) return;
+    let cancelled = false;
+    const unsubscribe = subscribe(message => {
+      if (message.type !== 'boards-changed') return;
+      taskRepository.listBoards()
+        .then(stored => {
+          if (cancelled) return;
+          const base = persistedRef.current;
+          persistedRef.current = stored;
+          setBoards(prev => mergeRecords(base, prev ?? [], stored));
+        })
+        .catch(error => console.error('Failed to sync boards:', error));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [isLoaded]);
+
+  const createBoard = (name: string): Board => {
+    const board = buildBoard(name);
+    setBoards(prev => [...(prev ?? []), board]);
+    return board;
+  };
+
+  const renameBoard = (id: string, name: string) => {
+    const trimmed = name.trim().slice(0, MAX_BOARD_NAME_LENGTH);
+    if (!trimmed) return;
+    setBoards(prev =>
+      prev?.map(board =>
+        board.id === id ? { ...board, name: trimmed, updatedAt: new Date() } : board
+      ) ?? prev
+    );
+  };
+
+  const updateWorkflow = (id: string, updater: (prev: Workflow) => Workflow) => {
+    setBoards(prev =>
+      prev?.map(board =>
+        board.id === id
+          ? { ...board, workflow: updater(board.workflow), updatedAt: new Date() }
+          : board
+      ) ?? prev
+    );
+  };
+
+  const updateLabels = (id: string, updater: (prev: TaskLabel[]) => TaskLabel[]) => {
+    setBoards(prev =>
+      prev?.map(board =>
+        board.id === id
+          ? { ...board, labels: updater(board.labels), updatedAt: new Date() }
+          : board
+      ) ?? prev
+    );
+  };
+
+  const updateCustomFields = (id: string, updater: (prev: CustomField[]) => CustomField[]) => {
+    setBoards(prev =>
+      prev?.map(board =>
+        board.id === id
+          ? { ...board, customFields: updater(board.customFields ?? []), updatedAt: new Date() }
+          : board
+      ) ?? prev
+    );
+  };
+
+  const updateSettings = (id: string, updater: (prev: BoardSettings) => BoardSettings) => {
+    setBoards(prev =>
+      prev?.map(board =>
+        board.id === id
+          ? { ...board, settings: updater(getBoardSettings(board)), updatedAt: new Date() }
+          : board
+      ) ?? prev
+    );
+  };
+
+  // Copies the workflow, labels, custom fields, settings and every task under fresh ids
+  const duplicateBoard = async (id: string): Promise<Board | undefined> => {
+    const source = boards?.find(board => board.id === id);
+    if (!source) return undefined;
+
+    const copy = {
+      ...buildBoard(`${source.name} (copy)`, source.workflow, source.labels, source.settings),
+      customFields: source.customFields,
+    };
+    const now = new Date();
+    const sourceTasks = (await taskRepository.listTasks(source.id)).filter(task => !isTrashed(task));
+    const tasks = remapTaskIds(sourceTasks).tasks
+      .map(task => ({ ...task, createdAt: now, updatedAt: now }));
+    await taskRepository.saveTasks(copy.id, tasks);
+    await taskRepository.saveTaskOrder(copy.id, tasks.map(task => task.id));
+
+    setBoards(prev => [...(prev ?? []), copy]);
+    return copy;
+  };
+
+  // Sets up the template's columns and labels, with its tasks due relative to the start date
+  const createBoardFromTemplate = async (name: string, template: BoardTemplate, startDate: Date): Promise<Board> => {
+    const labels = template.labels.map(label => createLabel(label.name, label.color));
+    const board = buildBoard(name, template.workflow, labels, template.settings);
+    const tasks = instantiateBoardTemplate(template, labels, startDate);
+    await taskRepository.saveTasks(board.id, tasks);
+    await taskRepository.saveTaskOrder(board.id, tasks.map(task => task.id));
+
+    setBoards(prev => [...(prev ?? []), board]);
+    return board;
+  };
+
+  // Only one timer runs across all boards; starting one on a board stops any left running elsewhere.
+  // Returns the tasks whose timers were stopped.
+  const stopTimersOnOtherBoards = async (id: string): Promise<Task[]> => {
+    const now = new Date();
+    const stopped: Task[] = [];
+    for (const board of boards ?? []) {
+      if (board.id === id) continue;
+      const running = (await taskRepository.listTasks(board.id)).filter(task => getRunningEntry(task));
+      if (running.length === 0) continue;
+      const tasks = running.map(task => stopTimer(task, now));
+      await taskRepository.saveTasks(board.id, tasks);
+      broadcast({ type: 'tasks-changed', boardId: board.id });
+      stopped.push(...tasks);
+    }
+    return stopped;
+  };
+
+  const deleteBoard = (id: string) => {
+    if (!boards || boards.length <= 1) return;
+    deleteBoardFilters(id);
+    setBoards(prev => prev?.filter(board => board.id !== id) ?? prev);
+  };
+
+  return {
+    boards,
+    createBoard,
+    renameBoard,
+    updateWorkflow,
+    updateLabels,
+    updateCustomFields,
+    updateSettings,
+    duplicateBoard,
+    createBoardFromTemplate,
+    stopTimersOnOtherBoards,
+    deleteBoard,
+  };
+}
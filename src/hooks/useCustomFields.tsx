@@ -0,0 +1,46 @@
+import { CustomField, CustomFieldType } from '@/types/board';
+import { MAX_CUSTOM_FIELD_NAME_LENGTH, createCustomField } from '@/utils/customFields';
+
+// Custom field editing operations for a board; the board owns the state
+export function useCustomFields(
+  setFields: (updater: (prev: CustomField[]) => CustomField[]) => void
+) {
+  const addField = (name: string, type: CustomFieldType): CustomField => {
+    const field = createCustomField(name, type);
+    setFields(prev => [...prev, field]);
+    return field;
+  };
+
+  // The type is fixed once a field exists, since the values already entered would not fit another
+  const updateField = (id: string, changes: Partial<Omit<CustomField, 'id' | 'type'>>) => {
+    setFields(prev =>
+      prev.map(field =>
+        field.id === id
+          ? {
+              ...field,
+              ...changes,
+              name: changes.name !== undefined ? changes.name.slice(0, MAX_CUSTOM_FIELD_NAME_LENGTH) : field.name,
+            }
+          : field
+      )
+    );
+  };
+
+  const moveField = (id: string, direction: -1 | 1) => {
+    setFields(prev => {
+      const index = prev.findIndex(field => field.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+      const fields = [...prev];
+      [fields[index], fields[target]] = [fields[target], fields[index]];
+      return fields;
+    });
+  };
+
+  // Callers are responsible for removing the field's values from tasks
+  const removeField = (id: string) => {
+    setFields(prev => prev.filter(field => field.id !== id));
+  };
+
+  return { addField, updateField, moveField, removeField };
+}
@@ -1,4 +1,5 @@
 import { useEffect, useCallback } from 'react';
+import { TaskPriority, WorkflowColumn } from '@/types/task';
 
 export interface ShortcutConfig {
   key: string;
@@ -54,6 +55,8 @@ export function useKeyboardShortcuts(shortcuts: ShortcutConfig[]) {
 export const defaultShortcuts: Omit<ShortcutConfig, 'action'>[] = [
   // Task Management
   { key: 'n', ctrl: true, description: 'New task', category: 'Task Management' },
+  { key: 'z', ctrl: true, description: 'Undo last change', category: 'Task Management' },
+  { key: 'z', ctrl: true, shift: true, description: 'Redo last undone change', category: 'Task Management' },
   { key: 'Delete', description: 'Delete selected task', category: 'Task Management' },
   { key: 'Enter', description: 'Edit selected task', category: 'Task Management' },
   { key: 'd', ctrl: true, shift: true, description: 'Delete all completed tasks', category: 'Task Management' },
@@ -64,15 +67,16 @@ export const defaultShortcuts: Omit<ShortcutConfig, 'action'>[] = [
   { key: 'ArrowRight', description: 'Navigate to next column', category: 'Navigation' },
   { key: 'ArrowUp', description: 'Navigate to previous task', category: 'Navigation' },
   { key: 'ArrowDown', description: 'Navigate to next task', category: 'Navigation' },
-  { key: '1', description: 'Focus Todo column', category: 'Navigation' },
-  { key: '2', description: 'Focus In Progress column', category: 'Navigation' },
-  { key: '3', description: 'Focus Done column', category: 'Navigation' },
   
   // Task Movement
-  { key: 'q', description: 'Move task to Todo', category: 'Task Movement' },
-  { key: 'w', description: 'Move task to In Progress', category: 'Task Movement' },
-  { key: 'e', description: 'Move task to Done', category: 'Task Movement' },
   { key: ' ', description: 'Toggle task completion', category: 'Task Movement' },
+
+  // Priority
+  { key: '1', alt: true, description: 'Set priority to Urgent', category: 'Priority' },
+  { key: '2', alt: true, description: 'Set priority to High', category: 'Priority' },
+  { key: '3', alt: true, description: 'Set priority to Medium', category: 'Priority' },
+  { key: '4', alt: true, description: 'Set priority to Low', category: 'Priority' },
+  { key: '0', alt: true, description: 'Clear priority', category: 'Priority' },
   
   // Filtering & Search
   { key: 'f', ctrl: true, description: 'Focus search', category: 'Filtering' },
@@ -88,4 +92,32 @@ export const defaultShortcuts: Omit<ShortcutConfig, 'action'>[] = [
   { key: 'b', ctrl: true, description: 'Toggle notifications', category: 'View' },
   { key: '?', shift: true, description: 'Show keyboard shortcuts', category: 'View' },
   { key: 'h', ctrl: true, description: 'Show help', category: 'View' },
-];
\ No newline at end of file
+];
+
+// Column shortcuts follow the board's workflow: 1-9 focus a column, q/w/e move to the first three
+export const COLUMN_FOCUS_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+export const COLUMN_MOVE_KEYS = ['q', 'w', 'e'];
+
+// Alt + key sets the selected task's priority
+export const PRIORITY_KEYS: Record<TaskPriority, string> = {
+  urgent: '1',
+  high: '2',
+  medium: '3',
+  low: '4',
+  none: '0',
+};
+
+export function getColumnShortcuts(columns: WorkflowColumn[]): Omit<ShortcutConfig, 'action'>[] {
+  return [
+    ...columns.slice(0, COLUMN_FOCUS_KEYS.length).map((column, index) => ({
+      key: COLUMN_FOCUS_KEYS[index],
+      description: `Focus ${column.title} column`,
+      category: 'Navigation',
+    })),
+    ...columns.slice(0, COLUMN_MOVE_KEYS.length).map((column, index) => ({
+      key: COLUMN_MOVE_KEYS[index],
+      description: `Move task to ${column.title}`,
+      category: 'Task Movement',
+    })),
+  ];
+}
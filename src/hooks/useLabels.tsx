@@ -0,0 +1,36 @@
+import { TaskLabel } from '@/types/board';
+import { ColumnColor } from '@/types/task';
+import { MAX_LABEL_NAME_LENGTH, createLabel } from '@/utils/labels';
+
+// Label editing operations for a board; the board owns the state
+export function useLabels(
+  labels: TaskLabel[],
+  setLabels: (updater: (prev: TaskLabel[]) => TaskLabel[]) => void
+) {
+  const addLabel = (name: string, color: ColumnColor = 'blue'): TaskLabel => {
+    const label = createLabel(name, color);
+    setLabels(prev => [...prev, label]);
+    return label;
+  };
+
+  const updateLabel = (id: string, changes: { name?: string; color?: ColumnColor }) => {
+    setLabels(prev =>
+      prev.map(label =>
+        label.id === id
+          ? {
+              ...label,
+              ...changes,
+              name: changes.name !== undefined ? changes.name.slice(0, MAX_LABEL_NAME_LENGTH) : label.name,
+            }
+          : label
+      )
+    );
+  };
+
+  // Callers are responsible for removing the label from its tasks
+  const removeLabel = (id: string) => {
+    setLabels(prev => prev.filter(label => label.id !== id));
+  };
+
+  return { addLabel, updateLabel, removeLabel };
+}
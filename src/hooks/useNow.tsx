@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+// The current time, refreshed on an interval while `active` so running timers keep counting
+export function useNow(active: boolean, intervalMs = 1000) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!active) return;
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [active, intervalMs]);
+
+  return now;
+}
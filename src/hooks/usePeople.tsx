@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Person } from '@/types/person';
+import { ColumnColor } from '@/types/task';
+import { loadCurrentPersonId, loadPeople, saveCurrentPersonId, savePeople } from '@/utils/boardStorage';
+import { MAX_INITIALS_LENGTH, MAX_PERSON_NAME_LENGTH, createPerson } from '@/utils/people';
+
+// The device-wide people directory and which of them is using the app
+export function usePeople() {
+  const [people, setPeople] = useState<Person[]>(loadPeople);
+  const [currentPersonId, setCurrentPersonIdState] = useState<string | null>(loadCurrentPersonId);
+
+  useEffect(() => {
+    savePeople(people);
+  }, [people]);
+
+  const setCurrentPersonId = useCallback((personId: string | null) => {
+    setCurrentPersonIdState(personId);
+    saveCurrentPersonId(personId);
+  }, []);
+
+  const addPerson = (name: string, color: ColumnColor, initials?: string): Person => {
+    const person = createPerson(name, color, initials);
+    setPeople(prev => [...prev, person]);
+    return person;
+  };
+
+  const updatePerson = (id: string, changes: { name?: string; initials?: string; color?: ColumnColor }) => {
+    setPeople(prev =>
+      prev.map(person => {
+        if (person.id !== id) return person;
+        const name = changes.name !== undefined ? changes.name.slice(0, MAX_PERSON_NAME_LENGTH) : person.name;
+        return {
+          ...person,
+          name,
+          color: changes.color ?? person.color,
+          // Left blank while typing; the avatar falls back to initials derived from the name
+          initials: changes.initials !== undefined
+            ? changes.initials.trim().slice(0, MAX_INITIALS_LENGTH).toUpperCase()
+            : person.initials,
+        };
+      })
+    );
+  };
+
+  // Assignments on tasks are left alone; ids of removed people simply stop resolving
+  const removePerson = (id: string) => {
+    setPeople(prev => prev.filter(person => person.id !== id));
+    if (currentPersonId === id) {
+      setCurrentPersonId(null);
+    }
+  };
+
+  const currentPerson = people.find(person => person.id === currentPersonId);
+
+  return { people, setPeople, currentPerson, setCurrentPersonId, addPerson, updatePerson, removePerson };
+}
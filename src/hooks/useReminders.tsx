@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { Task } from '@/types/task';
+import { scheduleNotification } from '@/utils/notifications';
+import { LEASE_DURATION, releaseLease, renewLease } from '@/utils/tabSync';
+import { isTrashed } from '@/utils/trash';
+
+// Schedules the reminders of a board's tasks. With the board open in several tabs, only the one
+// holding the board's reminder lease does, so each reminder shows once.
+export function useReminders(boardId: string, tasks: Task[], enabled: boolean, onShown: (task: Task) => void) {
+  const [isLeader, setIsLeader] = useState(false);
+
+  useEffect(() => {
+    const name = `reminders:${boardId}`;
+    const renew = () => setIsLeader(renewLease(name));
+    renew();
+    const interval = setInterval(renew, LEASE_DURATION / 3);
+    // Hand the lease over straight away rather than letting it expire
+    const release = () => releaseLease(name);
+    window.addEventListener('pagehide', release);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', release);
+      release();
+      setIsLeader(false);
+    };
+  }, [boardId]);
+
+  // Rescheduled whenever the tasks change, so edits made here or synced from other tabs are picked up
+  useEffect(() => {
+    if (!enabled || !isLeader) return;
+    const cancels = tasks
+      .filter(task => !isTrashed(task))
+      .map(task => scheduleNotification(task, () => onShown(task)));
+    return () => cancels.forEach(cancel => cancel?.());
+  }, [tasks, enabled, isLeader, onShown]);
+}
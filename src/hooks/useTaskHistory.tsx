@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Task } from '@/types/task';
+import { HistoryEntry, TaskHistory } from '@/types/history';
+import { MAX_HISTORY_ENTRIES, applyHistoryEntry, createHistoryEntry } from '@/utils/taskHistory';
+import { taskRepository } from '@/utils/taskRepository';
+import { broadcast, subscribe } from '@/utils/tabSync';
+
+const EMPTY_HISTORY: TaskHistory = { past: [], future: [] };
+
+// An undo or redo; not applied when the tasks were changed elsewhere since, and then dropped from
+// the history
+export interface HistoryStep {
+  entry: HistoryEntry;
+  applied: boolean;
+}
+
+// Every task mutation goes through commit() so it can be undone, even after a reload. The history
+// is the board's, shared by every tab it is open in.
+export function useTaskHistory(
+  boardId: string,
+  tasks: Task[],
+  setTasks: (tasks: Task[]) => void
+) {
+  const [history, setHistory] = useState<TaskHistory>(EMPTY_HISTORY);
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
+  const tasksRef = useRef(tasks);
+  const historyRef = useRef(history);
+  // The history as last read from storage, which needs no writing back
+  const storedRef = useRef<TaskHistory | null>(null);
+  tasksRef.current = tasks;
+  historyRef.current = history;
+
+  useEffect(() => {
+    let cancelled = false;
+    taskRepository.loadHistory(boardId)
+      .then(stored => {
+        if (cancelled) return;
+        if (stored) {
+          storedRef.current = stored;
+          setHistory(stored);
+        }
+        setIsHistoryLoaded(true);
+      })
+      .catch(error => console.error('Failed to load history:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId]);
+
+  useEffect(() => {
+    if (!isHistoryLoaded || history === storedRef.current) return;
+    taskRepository.saveHistory(boardId, history)
+      .then(() => broadcast({ type: 'history-changed', boardId }))
+      .catch(error => console.error('Failed to save history:', error));
+  }, [boardId, history, isHistoryLoaded]);
+
+  // Another tab committed, undid or redid something: take over its history
+  useEffect(() => {
+    if (!isHistoryLoaded) return;
+    let cancelled = false;
+    const unsubscribe = subscribe(message => {
+      if (message.type !== 'history-changed' || message.boardId !== boardId) return;
+      taskRepository.loadHistory(boardId)
+        .then(stored => {
+          if (cancelled || !stored) return;
+          storedRef.current = stored;
+          historyRef.current = stored;
+          setHistory(stored);
+        })
+        .catch(error => console.error('Failed to sync history:', error));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [boardId, isHistoryLoaded]);
+
+  const replaceTasks = useCallback((next: Task[]) => {
+    tasksRef.current = next;
+    setTasks(next);
+  }, [setTasks]);
+
+  const updateHistory = useCallback((next: TaskHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const commit = useCallback((label: string, updater: (prev: Task[]) => Task[]) => {
+    const prev = tasksRef.current;
+    const next = updater(prev);
+    const entry = createHistoryEntry(label, prev, next);
+    if (!entry) return;
+
+    replaceTasks(next);
+    updateHistory({
+      past: [...historyRef.current.past, entry].slice(-MAX_HISTORY_ENTRIES),
+      future: [],
+    });
+  }, [replaceTasks, updateHistory]);
+
+  const undo = useCallback((): HistoryStep | undefined => {
+    const { past, future } = historyRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return undefined;
+
+    const next = applyHistoryEntry(tasksRef.current, entry, 'undo');
+    if (next) replaceTasks(next);
+    updateHistory({ past: past.slice(0, -1), future: next ? [entry, ...future] : future });
+    return { entry, applied: next !== null };
+  }, [replaceTasks, updateHistory]);
+
+  const redo = useCallback((): HistoryStep | undefined => {
+    const { past, future } = historyRef.current;
+    const entry = future[0];
+    if (!entry) return undefined;
+
+    const next = applyHistoryEntry(tasksRef.current, entry, 'redo');
+    if (next) replaceTasks(next);
+    updateHistory({ past: next ? [...past, entry] : past, future: future.slice(1) });
+    return { entry, applied: next !== null };
+  }, [replaceTasks, updateHistory]);
+
+  return {
+    commit,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    nextUndoLabel: history.past[history.past.length - 1]?.label,
+    nextRedoLabel: history.future[0]?.label,
+  };
+}
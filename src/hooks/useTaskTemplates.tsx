@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { TaskTemplate } from '@/types/template';
+import { loadTaskTemplates, saveTaskTemplates } from '@/utils/boardStorage';
+import { DEFAULT_TEMPLATE_CATEGORY, MAX_TEMPLATE_CATEGORY_LENGTH } from '@/utils/templates';
+
+export type TaskTemplateChanges = Partial<Omit<TaskTemplate, 'id' | 'createdAt' | 'updatedAt'>>;
+
+// The device-wide task template library
+export function useTaskTemplates() {
+  const [templates, setTemplates] = useState<TaskTemplate[]>(loadTaskTemplates);
+
+  useEffect(() => {
+    saveTaskTemplates(templates);
+  }, [templates]);
+
+  const addTemplate = (template: TaskTemplate) => {
+    setTemplates(prev => [...prev, template]);
+  };
+
+  const updateTemplate = (id: string, changes: TaskTemplateChanges) => {
+    setTemplates(prev =>
+      prev.map(template => {
+        if (template.id !== id) return template;
+        const category = changes.category !== undefined
+          ? changes.category.trim().slice(0, MAX_TEMPLATE_CATEGORY_LENGTH) || DEFAULT_TEMPLATE_CATEGORY
+          : template.category;
+        return { ...template, ...changes, category, updatedAt: new Date() };
+      })
+    );
+  };
+
+  const removeTemplate = (id: string) => {
+    setTemplates(prev => prev.filter(template => template.id !== id));
+  };
+
+  return { templates, addTemplate, updateTemplate, removeTemplate };
+}
@@ -0,0 +1,71 @@
+import { ColumnColor, TaskStatus, Workflow } from '@/types/task';
+import { MAX_COLUMN_TITLE_LENGTH, createColumnId } from '@/utils/workflow';
+
+// Column editing operations for a board's workflow; the board owns the state
+export function useWorkflow(
+  workflow: Workflow,
+  setWorkflow: (updater: (prev: Workflow) => Workflow) => void
+) {
+  const addColumn = (title: string, color: ColumnColor = 'gray'): TaskStatus => {
+    const trimmed = title.trim().slice(0, MAX_COLUMN_TITLE_LENGTH);
+    const id = createColumnId(trimmed, workflow.columns);
+    setWorkflow(prev => ({
+      ...prev,
+      columns: [...prev.columns, { id, title: trimmed, color }],
+    }));
+    return id;
+  };
+
+  const updateColumn = (id: TaskStatus, changes: { title?: string; color?: ColumnColor; wipLimit?: number }) => {
+    setWorkflow(prev => ({
+      ...prev,
+      columns: prev.columns.map(column =>
+        column.id === id
+          ? {
+              ...column,
+              ...changes,
+              title: changes.title !== undefined
+                ? changes.title.slice(0, MAX_COLUMN_TITLE_LENGTH)
+                : column.title,
+            }
+          : column
+      ),
+    }));
+  };
+
+  const moveColumn = (id: TaskStatus, direction: -1 | 1) => {
+    setWorkflow(prev => {
+      const index = prev.columns.findIndex(column => column.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= prev.columns.length) return prev;
+      const columns = [...prev.columns];
+      [columns[index], columns[target]] = [columns[target], columns[index]];
+      return { ...prev, columns };
+    });
+  };
+
+  // Callers are responsible for relocating the column's tasks first
+  const removeColumn = (id: TaskStatus) => {
+    setWorkflow(prev => {
+      if (prev.columns.length <= 1) return prev;
+      const columns = prev.columns.filter(column => column.id !== id);
+      return {
+        ...prev,
+        columns,
+        doneColumnId: prev.doneColumnId === id ? columns[columns.length - 1].id : prev.doneColumnId,
+        timerColumnId: prev.timerColumnId === id ? undefined : prev.timerColumnId,
+      };
+    });
+  };
+
+  const setDoneColumn = (id: TaskStatus) => {
+    setWorkflow(prev => ({ ...prev, doneColumnId: id }));
+  };
+
+  // Picking the current timer column again turns the auto-move off
+  const toggleTimerColumn = (id: TaskStatus) => {
+    setWorkflow(prev => ({ ...prev, timerColumnId: prev.timerColumnId === id ? undefined : id }));
+  };
+
+  return { addColumn, updateColumn, moveColumn, removeColumn, setDoneColumn, toggleTimerColumn };
+}
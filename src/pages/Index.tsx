@@ -1,7 +1,74 @@
+import { useEffect } from 'react';
+import { Navigate, useParams } from 'react-router-dom';
 import { KanbanBoard } from '@/components/KanbanBoard';
+import { BoardSwitcher } from '@/components/BoardSwitcher';
+import { useBoards } from '@/hooks/useBoards';
+import { useBoardTemplates } from '@/hooks/useBoardTemplates';
+import { getLastBoardId, setLastBoardId } from '@/utils/boardStorage';
 
 const Index = () => {
-  return <KanbanBoard />;
+  const { boardId } = useParams();
+  const {
+    boards,
+    createBoard,
+    renameBoard,
+    updateWorkflow,
+    updateLabels,
+    updateCustomFields,
+    updateSettings,
+    duplicateBoard,
+    createBoardFromTemplate,
+    stopTimersOnOtherBoards,
+    deleteBoard,
+  } = useBoards();
+  const { boardTemplates, saveBoardAsTemplate, removeBoardTemplate } = useBoardTemplates();
+  const board = boards?.find(b => b.id === boardId);
+
+  useEffect(() => {
+    if (board) {
+      setLastBoardId(board.id);
+    }
+  }, [board]);
+
+  if (!boards) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        Loading boards...
+      </div>
+    );
+  }
+
+  // "/" and unknown ids land on the last opened board
+  if (!board) {
+    const fallback = boards.find(b => b.id === getLastBoardId()) ?? boards[0];
+    return <Navigate to={`/board/${fallback.id}`} replace />;
+  }
+
+  return (
+    <KanbanBoard
+      key={board.id}
+      board={board}
+      onWorkflowChange={(updater) => updateWorkflow(board.id, updater)}
+      onLabelsChange={(updater) => updateLabels(board.id, updater)}
+      onCustomFieldsChange={(updater) => updateCustomFields(board.id, updater)}
+      onSettingsChange={(updater) => updateSettings(board.id, updater)}
+      onStopOtherTimers={() => stopTimersOnOtherBoards(board.id)}
+      boardSwitcher={
+        <BoardSwitcher
+          boards={boards}
+          currentBoard={board}
+          onCreate={createBoard}
+          onRename={renameBoard}
+          onDuplicate={duplicateBoard}
+          onDelete={deleteBoard}
+          boardTemplates={boardTemplates}
+          onCreateFromTemplate={createBoardFromTemplate}
+          onSaveAsTemplate={saveBoardAsTemplate}
+          onDeleteTemplate={removeBoardTemplate}
+        />
+      }
+    />
+  );
 };
 
 export default Index;
@@ -0,0 +1,28 @@
+import { TaskStatus } from './task';
+
+export type TaskEventType =
+  | 'created'
+  | 'status-changed'
+  | 'field-edited'
+  | 'reminder-fired'
+  | 'deleted'
+  | 'restored'
+  | 'purged'
+  | 'archived'
+  | 'unarchived';
+
+// One entry in a board's append-only activity stream
+export interface TaskEvent {
+  id: string;
+  boardId: string;
+  taskId: string;
+  taskTitle: string; // snapshot, so the feed stays readable after deletion
+  type: TaskEventType;
+  timestamp: Date;
+  actor?: string;
+  from?: TaskStatus;
+  to?: TaskStatus;
+  field?: string;
+  oldValue?: string;
+  newValue?: string;
+}
@@ -0,0 +1,11 @@
+// A file attached to a task; the blob lives in IndexedDB next to the task, never in localStorage
+export interface TaskAttachment {
+  id: string;
+  boardId: string;
+  taskId: string;
+  name: string;
+  type: string; // MIME type, empty when the browser could not tell
+  size: number; // bytes
+  blob: Blob;
+  createdAt: Date;
+}
@@ -0,0 +1,38 @@
+import { ColumnColor, Workflow } from './task';
+
+export interface TaskLabel {
+  id: string;
+  name: string;
+  color: ColumnColor;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi-select' | 'checkbox' | 'url';
+
+export interface CustomField {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[]; // the choices of a select or multi-select field
+  required?: boolean;
+  showOnCard?: boolean;
+}
+
+export type EstimateUnit = 'points' | 'hours';
+
+export type WipMode = 'soft' | 'strict';
+
+export interface BoardSettings {
+  estimateUnit: EstimateUnit;
+  wipMode: WipMode; // whether a move past a column's WIP limit is warned about or refused
+}
+
+export interface Board {
+  id: string;
+  name: string;
+  workflow: Workflow;
+  labels: TaskLabel[];
+  customFields?: CustomField[]; // missing on boards from before custom fields existed
+  settings?: Partial<BoardSettings>; // read through getBoardSettings, which fills in the defaults
+  createdAt: Date;
+  updatedAt: Date;
+}
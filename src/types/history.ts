@@ -0,0 +1,21 @@
+import { Task } from './task';
+
+// A task's state on either side of a change; null means it did not exist
+export interface TaskChange {
+  taskId: string;
+  before: Task | null;
+  after: Task | null;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: Date;
+  changes: TaskChange[];
+  order?: { before: string[]; after: string[] };
+}
+
+export interface TaskHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
@@ -0,0 +1,9 @@
+import { ColumnColor } from './task';
+
+// Someone tasks can be assigned to; the directory is shared by all boards on this device
+export interface Person {
+  id: string;
+  name: string;
+  initials: string;
+  color: ColumnColor;
+}
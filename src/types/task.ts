@@ -1,20 +1,85 @@
-export type TaskStatus = 'todo' | 'in-progress' | 'done';
+// A status is the id of a workflow column
+export type TaskStatus = string;
+
+export type ColumnColor = 'gray' | 'blue' | 'purple' | 'pink' | 'red' | 'orange' | 'yellow' | 'green';
+
+export type TaskPriority = 'urgent' | 'high' | 'medium' | 'low' | 'none';
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export interface TaskComment {
+  id: string;
+  authorId?: string; // person from the directory, if one was picked
+  authorName: string; // kept so the comment stays attributed after the person is removed
+  body: string; // markdown
+  createdAt: Date;
+  editedAt?: Date;
+}
+
+export interface TimeEntry {
+  id: string;
+  start: Date;
+  end?: Date; // missing while the timer is running
+  note?: string;
+}
+
+// Weekdays are numbered as by Date#getDay, 0 being Sunday
+export type TaskRecurrence =
+  | { type: 'daily' }
+  | { type: 'weekdays' }
+  | { type: 'weekly'; days: number[] }
+  | { type: 'monthly-day'; day: number } // 1-31, clamped to the end of shorter months
+  | { type: 'monthly-weekday'; week: 1 | 2 | 3 | 4 | -1; weekday: number } // week -1 is the last one
+  | { type: 'after-completion'; intervalDays: number };
+
+// Dates are kept as yyyy-MM-dd strings, checkboxes only when checked
+export type CustomFieldValue = string | number | boolean | string[];
 
 export interface Task {
   id: string;
   title: string;
   description: string;
   status: TaskStatus;
+  rank?: string; // fractional index giving the task's place within its column
   dueDate?: Date;
   dueTime?: string;
   reminderTime?: number; // minutes before due date/time
   notificationSent?: boolean;
+  priority?: TaskPriority; // missing means 'none'
+  estimate?: number; // in the board's estimate unit
+  checklist?: ChecklistItem[];
+  completeWithChecklist?: boolean; // move to the done column once every item is checked
+  blockedBy?: string[]; // ids of tasks that have to be done first
+  labelIds?: string[];
+  assigneeIds?: string[]; // ids from the people directory
+  customFields?: Record<string, CustomFieldValue>; // keyed by the board's custom field ids
+  comments?: TaskComment[];
+  timeEntries?: TimeEntry[];
+  recurrence?: TaskRecurrence; // handed on to the next instance when this one is completed
+  completedAt?: Date; // when the task last entered the done column
+  archivedAt?: Date;
+  deletedAt?: Date; // set while the task sits in the trash
   createdAt: Date;
   updatedAt: Date;
 }
 
-export interface TaskColumn {
+export interface WorkflowColumn {
   id: TaskStatus;
   title: string;
+  color: ColumnColor;
+  wipLimit?: number; // most tasks the column should hold at once
+}
+
+export interface Workflow {
+  columns: WorkflowColumn[];
+  doneColumnId: TaskStatus;
+  timerColumnId?: TaskStatus; // where a task moves when its timer starts, if it is not past it yet
+}
+
+export interface TaskColumn extends WorkflowColumn {
   tasks: Task[];
-}
\ No newline at end of file
+}
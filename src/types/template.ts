@@ -0,0 +1,50 @@
+import { BoardSettings } from './board';
+import { ColumnColor, TaskPriority, TaskStatus, Workflow } from './task';
+
+export type RelativeDueUnit = 'days' | 'weeks' | 'months';
+
+// A due date counted from the day a task is created from a template, e.g. "+3 days"
+export interface RelativeDue {
+  amount: number;
+  unit: RelativeDueUnit;
+}
+
+// A reusable task shared by all boards on this device. Labels are kept by name, since every board
+// has its own and only the ones with a matching name are applied.
+export interface TaskTemplate {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  checklist?: string[];
+  labelNames?: string[];
+  due?: RelativeDue;
+  dueTime?: string; // HH:mm
+  reminderTime?: number; // minutes before the due time
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A task a board template starts out with, due relative to the start date picked for the new board
+export interface BoardTemplateTask {
+  title: string;
+  description: string;
+  status: TaskStatus; // a column of the template's workflow
+  priority?: TaskPriority;
+  checklist?: string[];
+  labelNames?: string[];
+  due?: RelativeDue;
+}
+
+// Everything needed to set up a board for a repeatable process
+export interface BoardTemplate {
+  id: string;
+  name: string;
+  description: string;
+  workflow: Workflow;
+  labels: Array<{ name: string; color: ColumnColor }>;
+  settings?: Partial<BoardSettings>;
+  tasks: BoardTemplateTask[];
+  builtIn?: boolean; // shipped with the app, so it cannot be deleted
+  createdAt: Date;
+}
@@ -0,0 +1,164 @@
+import { format, isValid } from 'date-fns';
+import { Task, Workflow } from '@/types/task';
+import { TaskEvent } from '@/types/activity';
+import { createId } from './ids';
+import { getColumnTitle } from './workflow';
+
+// Fields whose edits show up in the activity log
+export const TRACKED_FIELDS: Array<{ key: keyof Task; label: string }> = [
+  { key: 'title', label: 'title' },
+  { key: 'description', label: 'description' },
+  { key: 'dueDate', label: 'due date' },
+  { key: 'dueTime', label: 'due time' },
+  { key: 'reminderTime', label: 'reminder' },
+  { key: 'priority', label: 'priority' },
+];
+
+export function formatFieldValue(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : undefined;
+  return String(value);
+}
+
+function createEvent(boardId: string, task: Task, fields: Partial<TaskEvent> & Pick<TaskEvent, 'type'>, actor?: string): TaskEvent {
+  return {
+    id: createId(),
+    boardId,
+    taskId: task.id,
+    taskTitle: task.title,
+    timestamp: new Date(),
+    actor,
+    ...fields,
+  };
+}
+
+// Turn the difference between two task lists into activity events.
+// `history` is the board's existing log, used to tell restores apart from creations.
+export function deriveTaskEvents(
+  boardId: string,
+  prev: Task[],
+  next: Task[],
+  history: TaskEvent[],
+  actor?: string
+): TaskEvent[] {
+  const prevById = new Map(prev.map(task => [task.id, task]));
+  const nextIds = new Set(next.map(task => task.id));
+  const events: TaskEvent[] = [];
+
+  for (const task of next) {
+    const before = prevById.get(task.id);
+    if (before === task) continue;
+
+    if (!before) {
+      const known = history.filter(event => event.taskId === task.id);
+      if (known.length === 0) {
+        events.push(createEvent(boardId, task, { type: 'created' }, actor));
+      } else if (['deleted', 'purged'].includes(known[known.length - 1].type)) {
+        events.push(createEvent(boardId, task, { type: 'restored' }, actor));
+      }
+      // Otherwise the task arrived together with its own history (e.g. an import)
+      continue;
+    }
+
+    // Moving in and out of the trash is a deletion or restore, not a field edit
+    if (!before.deletedAt && task.deletedAt) {
+      events.push(createEvent(boardId, task, { type: 'deleted' }, actor));
+      continue;
+    }
+    if (before.deletedAt && !task.deletedAt) {
+      events.push(createEvent(boardId, task, { type: 'restored' }, actor));
+      continue;
+    }
+
+    if (!before.archivedAt && task.archivedAt) {
+      events.push(createEvent(boardId, task, { type: 'archived' }, actor));
+      continue;
+    }
+    if (before.archivedAt && !task.archivedAt) {
+      events.push(createEvent(boardId, task, { type: 'unarchived' }, actor));
+      continue;
+    }
+
+    if (before.status !== task.status) {
+      events.push(createEvent(boardId, task, { type: 'status-changed', from: before.status, to: task.status }, actor));
+    }
+
+    for (const { key } of TRACKED_FIELDS) {
+      const oldValue = formatFieldValue(before[key]);
+      const newValue = formatFieldValue(task[key]);
+      if (oldValue !== newValue) {
+        events.push(createEvent(boardId, task, { type: 'field-edited', field: key, oldValue, newValue }, actor));
+      }
+    }
+  }
+
+  for (const task of prev) {
+    if (!nextIds.has(task.id)) {
+      events.push(createEvent(boardId, task, { type: task.deletedAt ? 'purged' : 'deleted' }, actor));
+    }
+  }
+
+  return events;
+}
+
+export function createReminderEvent(boardId: string, task: Task): TaskEvent {
+  return createEvent(boardId, task, { type: 'reminder-fired' });
+}
+
+function displayValue(field: string | undefined, value: string | undefined): string {
+  if (value === undefined) return 'none';
+  if (field === 'dueDate') return format(new Date(value), 'MMM d, yyyy');
+  if (field === 'reminderTime') return `${value} min before`;
+  if (value.length > 60) return `"${value.slice(0, 57)}..."`;
+  return `"${value}"`;
+}
+
+// Short human readable summary of an event, without the task title or actor
+export function describeEvent(event: TaskEvent, workflow: Workflow): string {
+  switch (event.type) {
+    case 'created':
+      return 'Created';
+    case 'status-changed':
+      return `Moved from ${getColumnTitle(workflow, event.from ?? '')} to ${getColumnTitle(workflow, event.to ?? '')}`;
+    case 'field-edited': {
+      const label = TRACKED_FIELDS.find(f => f.key === event.field)?.label ?? event.field;
+      return `Changed ${label} from ${displayValue(event.field, event.oldValue)} to ${displayValue(event.field, event.newValue)}`;
+    }
+    case 'reminder-fired':
+      return 'Reminder sent';
+    case 'deleted':
+      return 'Deleted';
+    case 'restored':
+      return 'Restored';
+    case 'purged':
+      return 'Permanently deleted';
+    case 'archived':
+      return 'Archived';
+    case 'unarchived':
+      return 'Unarchived';
+    default:
+      return 'Updated';
+  }
+}
+
+// Revive an event read back from an export file
+export function deserializeEvent(raw: unknown, boardId: string): TaskEvent | null {
+  const event = raw as TaskEvent;
+  if (
+    typeof event !== 'object' ||
+    event === null ||
+    typeof event.taskId !== 'string' ||
+    typeof event.type !== 'string' ||
+    !isValid(new Date(event.timestamp))
+  ) {
+    return null;
+  }
+  return {
+    ...event,
+    id: typeof event.id === 'string' ? event.id : createId(),
+    boardId,
+    taskTitle: String(event.taskTitle ?? ''),
+    timestamp: new Date(event.timestamp),
+  };
+}
@@ -1,10 +1,14 @@
+import { TaskTemplate } from '@/types/template';
+import { matchesTemplate } from './templates';
+
 export interface TaskSuggestion {
   title: string;
   description: string;
+  template?: TaskTemplate; // set when the suggestion comes from the user's own library
 }
 
 // Predefined suggestions for quick access (used when no API key)
-const TASK_TEMPLATES: Record<string, TaskSuggestion[]> = {
+export const TASK_TEMPLATES: Record<string, TaskSuggestion[]> = {
   'website': [
     { title: 'Design homepage layout', description: 'Create wireframes and mockups for the main landing page' },
     { title: 'Set up hosting', description: 'Configure web hosting and domain settings' },
@@ -67,17 +71,24 @@ const TASK_TEMPLATES: Record<string, TaskSuggestion[]> = {
   ]
 };
 
-// Get local suggestions based on input
-export function getLocalSuggestions(input: string): TaskSuggestion[] {
+// The user's templates whose title, description or category mention the input
+function getTemplateSuggestions(input: string, templates: TaskTemplate[]): TaskSuggestion[] {
+  return templates
+    .filter(template => matchesTemplate(template, input))
+    .map(template => ({ title: template.title, description: template.description, template }));
+}
+
+// Get local suggestions based on input; the user's own templates come before the built-in ones
+export function getLocalSuggestions(input: string, userTemplates: TaskTemplate[] = []): TaskSuggestion[] {
   if (!input || input.length < 2) return [];
   
   const lowercaseInput = input.toLowerCase();
-  const suggestions: TaskSuggestion[] = [];
+  const suggestions: TaskSuggestion[] = getTemplateSuggestions(input, userTemplates);
   
   // Check each template category
   for (const [keyword, templates] of Object.entries(TASK_TEMPLATES)) {
     if (keyword.includes(lowercaseInput) || lowercaseInput.includes(keyword)) {
-      suggestions.push(...templates);
+      suggestions.push(...templates.filter(template => !suggestions.some(s => s.title === template.title)));
     }
   }
   
@@ -98,9 +109,13 @@ export function getLocalSuggestions(input: string): TaskSuggestion[] {
 }
 
 // Generate AI suggestions using OpenAI API
-export async function getAISuggestions(input: string, apiKey: string): Promise<TaskSuggestion[]> {
+export async function getAISuggestions(
+  input: string,
+  apiKey: string,
+  userTemplates: TaskTemplate[] = []
+): Promise<TaskSuggestion[]> {
   if (!input || input.length < 3 || !apiKey) {
-    return getLocalSuggestions(input);
+    return getLocalSuggestions(input, userTemplates);
   }
 
   try {
@@ -133,7 +148,7 @@ export async function getAISuggestions(input: string, apiKey: string): Promise<T
 
     if (!response.ok) {
       console.error('AI suggestions failed, falling back to local');
-      return getLocalSuggestions(input);
+      return getLocalSuggestions(input, userTemplates);
     }
 
     const data = await response.json();
@@ -142,10 +157,14 @@ export async function getAISuggestions(input: string, apiKey: string): Promise<T
     try {
       const suggestions = JSON.parse(content);
       if (Array.isArray(suggestions)) {
-        return suggestions.slice(0, 5).map(s => ({
-          title: String(s.title || '').slice(0, 100),
-          description: String(s.description || '').slice(0, 500)
-        }));
+        // The user's own templates stay on top even when AI has ideas
+        return [
+          ...getTemplateSuggestions(input, userTemplates),
+          ...suggestions.map(s => ({
+            title: String(s.title || '').slice(0, 100),
+            description: String(s.description || '').slice(0, 500)
+          })),
+        ].slice(0, 5);
       }
     } catch {
       // Parsing failed, use local suggestions
@@ -154,5 +173,5 @@ export async function getAISuggestions(input: string, apiKey: string): Promise<T
     console.error('AI suggestions error:', error);
   }
 
-  return getLocalSuggestions(input);
+  return getLocalSuggestions(input, userTemplates);
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { differenceInCalendarDays, format, startOfMonth } from 'date-fns';
+import { Task, Workflow } from '@/types/task';
+import { isDoneStatus } from './workflow';
+import { isTrashed } from './trash';
+
+export const ARCHIVE_AGE_OPTIONS = [0, 1, 3, 7, 14, 30, 90];
+
+export interface ArchiveSettings {
+  autoArchive: boolean;
+  afterDays: number;
+}
+
+export const DEFAULT_ARCHIVE_SETTINGS: ArchiveSettings = {
+  autoArchive: false,
+  afterDays: 14,
+};
+
+export function isArchived(task: Task): boolean {
+  return task.archivedAt !== undefined;
+}
+
+// Tasks completed before completedAt existed fall back to their last update
+export function getCompletedAt(task: Task): Date {
+  return task.completedAt ?? task.updatedAt;
+}
+
+export function archiveTask(task: Task, now = new Date()): Task {
+  return { ...task, completedAt: task.completedAt ?? task.updatedAt, archivedAt: now, updatedAt: now };
+}
+
+export function unarchiveTask(task: Task, now = new Date()): Task {
+  const { archivedAt, ...rest } = task;
+  return { ...rest, updatedAt: now };
+}
+
+// Done tasks on the board that have been finished for at least `days` days
+export function isArchivable(task: Task, workflow: Workflow, days: number, now = new Date()): boolean {
+  return (
+    !isArchived(task) &&
+    !isTrashed(task) &&
+    isDoneStatus(workflow, task.status) &&
+    differenceInCalendarDays(now, getCompletedAt(task)) >= days
+  );
+}
+
+export function formatArchiveAge(days: number): string {
+  if (days === 0) return 'any age';
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+// Group archived tasks by the month they were completed, newest first
+export function groupByCompletionMonth(tasks: Task[]): Array<{ label: string; tasks: Task[] }> {
+  const sorted = [...tasks].sort((a, b) => getCompletedAt(b).getTime() - getCompletedAt(a).getTime());
+  const groups = new Map<number, Task[]>();
+  for (const task of sorted) {
+    const key = startOfMonth(getCompletedAt(task)).getTime();
+    groups.set(key, [...(groups.get(key) ?? []), task]);
+  }
+  return [...groups.entries()].map(([key, groupTasks]) => ({
+    label: format(new Date(key), 'MMMM yyyy'),
+    tasks: groupTasks,
+  }));
+}
@@ -0,0 +1,71 @@
+import { TaskAttachment } from '@/types/attachment';
+import { createId } from './ids';
+
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+// Warn once the origin has used this share of what the browser allows it
+export const QUOTA_WARNING_RATIO = 0.8;
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+export function createAttachment(boardId: string, taskId: string, file: File): TaskAttachment {
+  return {
+    id: createId(),
+    boardId,
+    taskId,
+    name: file.name || 'Untitled',
+    type: file.type,
+    size: file.size,
+    blob: file,
+    createdAt: new Date(),
+  };
+}
+
+export function isImageAttachment(attachment: TaskAttachment): boolean {
+  return attachment.type.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size < 10 ? size.toFixed(1) : Math.round(size)} ${units[unit]}`;
+}
+
+// Not every browser can report quota; callers treat undefined as "unknown"
+export async function getStorageEstimate(): Promise<StorageEstimate | undefined> {
+  if (!navigator.storage?.estimate) return undefined;
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota ? { usage, quota } : undefined;
+  } catch (error) {
+    console.error('Failed to estimate storage:', error);
+    return undefined;
+  }
+}
+
+export function isQuotaLow(estimate: StorageEstimate | undefined): boolean {
+  return !!estimate && estimate.usage / estimate.quota >= QUOTA_WARNING_RATIO;
+}
+
+// Files dragged from the desktop, as opposed to cards dragged around the board
+export function hasDraggedFiles(dataTransfer: DataTransfer): boolean {
+  return Array.from(dataTransfer.types).includes('Files');
+}
+
+export function downloadAttachment(attachment: TaskAttachment) {
+  const url = URL.createObjectURL(attachment.blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = attachment.name;
+  link.click();
+  // Give the browser a moment to start the download before letting go of the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,270 @@
+import { DateRange } from 'react-day-picker';
+import { Board, BoardSettings, TaskLabel } from '@/types/board';
+import { Task, TaskPriority, TaskStatus } from '@/types/task';
+import { Person } from '@/types/person';
+import { BoardTemplate, TaskTemplate } from '@/types/template';
+import type { DateFilterType } from '@/components/DateFilter';
+import { DEFAULT_WORKFLOW, parseWorkflow } from './workflow';
+import { createId } from './ids';
+import { DEFAULT_TRASH_RETENTION_DAYS } from './trash';
+import { ArchiveSettings, DEFAULT_ARCHIVE_SETTINGS } from './archive';
+import type { LabelMatchMode } from './labels';
+import { SwimlaneGrouping, isSwimlaneGrouping } from './swimlanes';
+import type { CustomFieldFilter, CustomFieldSort } from './customFields';
+import { parsePeople } from './people';
+import { parseTaskTemplates } from './templates';
+import { parseBoardTemplates } from './boardTemplates';
+import { reviveComments } from './comments';
+import { reviveTimeEntries } from './timeTracking';
+
+const LAST_BOARD_KEY = 'kanban-last-board';
+const TRASH_RETENTION_KEY = 'kanban-trash-retention-days';
+const ARCHIVE_SETTINGS_KEY = 'kanban-archive-settings';
+const PEOPLE_KEY = 'kanban-people';
+const CURRENT_PERSON_KEY = 'kanban-current-person';
+const TASK_TEMPLATES_KEY = 'kanban-task-templates';
+const BOARD_TEMPLATES_KEY = 'kanban-board-templates';
+const filtersKey = (boardId: string) => `kanban-filters:${boardId}`;
+
+// Written by versions that kept everything in localStorage
+const BOARDS_KEY = 'kanban-boards';
+const tasksKey = (boardId: string) => `kanban-tasks:${boardId}`;
+const LEGACY_TASKS_KEY = 'kanban-tasks';
+const LEGACY_WORKFLOW_KEY = 'kanban-workflow';
+
+export const DEFAULT_BOARD_NAME = 'My Board';
+export const MAX_BOARD_NAME_LENGTH = 60;
+
+export interface BoardFilters {
+  searchTerm: string;
+  filterStatus: TaskStatus | 'all';
+  dateFilterType: DateFilterType;
+  customDateRange?: DateRange;
+  labelIds: string[];
+  labelMatch: LabelMatchMode;
+  priority: TaskPriority | 'all';
+  prioritySortedColumns: TaskStatus[]; // columns shown by priority instead of manual order
+  assignedToMe: boolean;
+  swimlanes: SwimlaneGrouping;
+  collapsedLanes: string[];
+  fieldFilter: CustomFieldFilter | null;
+  fieldSort: CustomFieldSort | null; // overrides rank and priority order in every column
+}
+
+export const DEFAULT_FILTERS: BoardFilters = {
+  searchTerm: '',
+  filterStatus: 'all',
+  dateFilterType: 'all',
+  labelIds: [],
+  labelMatch: 'any',
+  priority: 'all',
+  prioritySortedColumns: [],
+  assignedToMe: false,
+  swimlanes: 'none',
+  collapsedLanes: [],
+  fieldFilter: null,
+  fieldSort: null,
+};
+
+// Revive the Date fields JSON.stringify turned into strings
+export function deserializeTask(raw: unknown): Task {
+  const task = raw as Task;
+  return {
+    ...task,
+    createdAt: new Date(task.createdAt),
+    updatedAt: new Date(task.updatedAt),
+    dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+    completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+    archivedAt: task.archivedAt ? new Date(task.archivedAt) : undefined,
+    deletedAt: task.deletedAt ? new Date(task.deletedAt) : undefined,
+    comments: reviveComments(task.comments),
+    timeEntries: reviveTimeEntries(task.timeEntries),
+  };
+}
+
+function readJson(key: string): unknown {
+  const stored = localStorage.getItem(key);
+  if (!stored) return undefined;
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error(`Failed to parse ${key}:`, error);
+    return undefined;
+  }
+}
+
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = {
+  estimateUnit: 'points',
+  wipMode: 'soft',
+};
+
+// Boards saved before a setting existed simply lack it
+export function getBoardSettings(board: Board): BoardSettings {
+  return { ...DEFAULT_BOARD_SETTINGS, ...board.settings };
+}
+
+export function createBoard(
+  name: string,
+  workflow = DEFAULT_WORKFLOW,
+  labels: TaskLabel[] = [],
+  settings?: Partial<BoardSettings>
+): Board {
+  const now = new Date();
+  return {
+    id: createId(),
+    name: name.trim().slice(0, MAX_BOARD_NAME_LENGTH) || DEFAULT_BOARD_NAME,
+    workflow,
+    labels,
+    settings,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export interface LegacyData {
+  boards: Board[];
+  tasksByBoard: Record<string, Task[]>;
+  corrupt: Array<{ key: string; content: string }>;
+  keys: string[];
+}
+
+// Collect everything earlier versions kept in localStorage so it can move to IndexedDB
+export function readLegacyLocalStorage(): LegacyData {
+  const data: LegacyData = { boards: [], tasksByBoard: {}, corrupt: [], keys: [] };
+
+  const readTasks = (key: string): Task[] => {
+    const stored = localStorage.getItem(key);
+    if (!stored) return [];
+    data.keys.push(key);
+    try {
+      const parsed = JSON.parse(stored);
+      if (!Array.isArray(parsed)) throw new Error('Expected an array of tasks');
+      return parsed.map(deserializeTask);
+    } catch (error) {
+      console.error(`Failed to parse ${key}, preserving it for recovery:`, error);
+      data.corrupt.push({ key, content: stored });
+      return [];
+    }
+  };
+
+  const storedBoards = readJson(BOARDS_KEY);
+  if (Array.isArray(storedBoards) && storedBoards.length > 0) {
+    data.keys.push(BOARDS_KEY);
+    for (const board of storedBoards) {
+      if (typeof board?.id !== 'string' || typeof board?.name !== 'string') continue;
+      data.boards.push({
+        id: board.id,
+        name: board.name,
+        workflow: parseWorkflow(board.workflow),
+        labels: [],
+        createdAt: new Date(board.createdAt),
+        updatedAt: new Date(board.updatedAt),
+      });
+      data.tasksByBoard[board.id] = readTasks(tasksKey(board.id));
+    }
+    return data;
+  }
+
+  // Single-board data from before boards existed
+  const legacyWorkflow = readJson(LEGACY_WORKFLOW_KEY);
+  if (legacyWorkflow || localStorage.getItem(LEGACY_TASKS_KEY)) {
+    const board = createBoard(DEFAULT_BOARD_NAME, legacyWorkflow ? parseWorkflow(legacyWorkflow) : DEFAULT_WORKFLOW);
+    data.boards.push(board);
+    data.tasksByBoard[board.id] = readTasks(LEGACY_TASKS_KEY);
+    if (legacyWorkflow) data.keys.push(LEGACY_WORKFLOW_KEY);
+  }
+  return data;
+}
+
+export function removeLocalStorageKeys(keys: string[]) {
+  keys.forEach(key => localStorage.removeItem(key));
+}
+
+export function loadBoardFilters(boardId: string): BoardFilters {
+  const stored = readJson(filtersKey(boardId)) as Partial<BoardFilters> | undefined;
+  if (!stored) return DEFAULT_FILTERS;
+
+  const range = stored.customDateRange;
+  return {
+    ...DEFAULT_FILTERS,
+    ...stored,
+    swimlanes: isSwimlaneGrouping(stored.swimlanes) ? stored.swimlanes : DEFAULT_FILTERS.swimlanes,
+    customDateRange: range?.from
+      ? { from: new Date(range.from), to: range.to ? new Date(range.to) : undefined }
+      : undefined,
+  };
+}
+
+export function saveBoardFilters(boardId: string, filters: BoardFilters) {
+  localStorage.setItem(filtersKey(boardId), JSON.stringify(filters));
+}
+
+export function deleteBoardFilters(boardId: string) {
+  localStorage.removeItem(filtersKey(boardId));
+}
+
+export function getLastBoardId(): string | null {
+  return localStorage.getItem(LAST_BOARD_KEY);
+}
+
+export function setLastBoardId(boardId: string) {
+  localStorage.setItem(LAST_BOARD_KEY, boardId);
+}
+
+export function loadTrashRetentionDays(): number {
+  const stored = localStorage.getItem(TRASH_RETENTION_KEY);
+  if (stored === null) return DEFAULT_TRASH_RETENTION_DAYS;
+  const days = Number(stored);
+  return Number.isInteger(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function saveTrashRetentionDays(days: number) {
+  localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+}
+
+export function loadArchiveSettings(): ArchiveSettings {
+  const stored = readJson(ARCHIVE_SETTINGS_KEY) as Partial<ArchiveSettings> | undefined;
+  return { ...DEFAULT_ARCHIVE_SETTINGS, ...stored };
+}
+
+export function saveArchiveSettings(settings: ArchiveSettings) {
+  localStorage.setItem(ARCHIVE_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function loadPeople(): Person[] {
+  return parsePeople(readJson(PEOPLE_KEY));
+}
+
+export function savePeople(people: Person[]) {
+  localStorage.setItem(PEOPLE_KEY, JSON.stringify(people));
+}
+
+// The profile "My tasks" refers to on this device
+export function loadCurrentPersonId(): string | null {
+  return localStorage.getItem(CURRENT_PERSON_KEY);
+}
+
+export function saveCurrentPersonId(personId: string | null) {
+  if (personId) {
+    localStorage.setItem(CURRENT_PERSON_KEY, personId);
+  } else {
+    localStorage.removeItem(CURRENT_PERSON_KEY);
+  }
+}
+
+export function loadTaskTemplates(): TaskTemplate[] {
+  return parseTaskTemplates(readJson(TASK_TEMPLATES_KEY));
+}
+
+export function saveTaskTemplates(templates: TaskTemplate[]) {
+  localStorage.setItem(TASK_TEMPLATES_KEY, JSON.stringify(templates));
+}
+
+// Only the user's own board templates are stored; the built-in ones ship with the app
+export function loadBoardTemplates(): BoardTemplate[] {
+  return parseBoardTemplates(readJson(BOARD_TEMPLATES_KEY));
+}
+
+export function saveBoardTemplates(templates: BoardTemplate[]) {
+  localStorage.setItem(BOARD_TEMPLATES_KEY, JSON.stringify(templates));
+}
@@ -0,0 +1,227 @@
+import { startOfDay } from 'date-fns';
+import { Board, BoardSettings, TaskLabel } from '@/types/board';
+import { ColumnColor, Task, TaskStatus, Workflow } from '@/types/task';
+import { BoardTemplate, BoardTemplateTask } from '@/types/template';
+import { TASK_TEMPLATES } from './aiSuggestions';
+import { isArchived } from './archive';
+import { MAX_CHECKLIST_ITEM_LENGTH, createChecklistItem } from './checklist';
+import { createId } from './ids';
+import { MAX_LABEL_NAME_LENGTH, getTaskLabels } from './labels';
+import { MAX_DESCRIPTION_LENGTH } from './markdown';
+import { getPriority, isTaskPriority } from './priority';
+import { ensureRanks, sortByRank } from './rank';
+import { parseRelativeDueValue, relativeDueFrom, resolveRelativeDue } from './templates';
+import { isTrashed } from './trash';
+import { getInitialStatus, isColumnColor, isDoneStatus, normalizeStatus, parseWorkflow } from './workflow';
+
+export const MAX_BOARD_TEMPLATE_NAME_LENGTH = 50;
+
+// The tasks of one suggestion category, landing in the given column and due on the given days
+function fromCategory(category: string, status: TaskStatus, labelName: string, days: number[]): BoardTemplateTask[] {
+  return TASK_TEMPLATES[category].map((suggestion, index) => ({
+    title: suggestion.title,
+    description: suggestion.description,
+    status,
+    labelNames: [labelName],
+    due: { amount: days[index] ?? 0, unit: 'days' },
+  }));
+}
+
+const builtIn = (template: Omit<BoardTemplate, 'builtIn' | 'createdAt'>): BoardTemplate => ({
+  ...template,
+  builtIn: true,
+  createdAt: new Date(0),
+});
+
+const columns = (...specs: Array<[TaskStatus, string, ColumnColor]>) =>
+  specs.map(([id, title, color]) => ({ id, title, color }));
+
+export const BUILT_IN_BOARD_TEMPLATES: BoardTemplate[] = [
+  builtIn({
+    id: 'builtin-sprint',
+    name: 'Sprint',
+    description: 'A two-week sprint from planning to retrospective.',
+    workflow: {
+      columns: columns(
+        ['backlog', 'Backlog', 'gray'],
+        ['todo', 'To Do', 'blue'],
+        ['in-progress', 'In Progress', 'yellow'],
+        ['review', 'Review', 'purple'],
+        ['done', 'Done', 'green'],
+      ),
+      doneColumnId: 'done',
+      timerColumnId: 'in-progress',
+    },
+    labels: [
+      { name: 'Planning', color: 'blue' },
+      { name: 'Ceremony', color: 'purple' },
+      { name: 'Retro', color: 'green' },
+    ],
+    tasks: [
+      ...fromCategory('project', 'todo', 'Planning', [0, 1, 1, 2]),
+      ...fromCategory('meeting', 'todo', 'Ceremony', [0, 0, 1, 13]),
+      ...fromCategory('review', 'backlog', 'Retro', [12, 13, 13, 14]),
+    ],
+  }),
+  builtIn({
+    id: 'builtin-release',
+    name: 'Release checklist',
+    description: 'Testing and launch steps counting towards a release ten days out.',
+    workflow: {
+      columns: columns(
+        ['todo', 'To Do', 'gray'],
+        ['in-progress', 'In Progress', 'yellow'],
+        ['ready', 'Ready', 'blue'],
+        ['shipped', 'Shipped', 'green'],
+      ),
+      doneColumnId: 'shipped',
+      timerColumnId: 'in-progress',
+    },
+    labels: [
+      { name: 'QA', color: 'orange' },
+      { name: 'Launch', color: 'pink' },
+    ],
+    tasks: [
+      ...fromCategory('test', 'todo', 'QA', [2, 3, 6, 7]),
+      ...fromCategory('launch', 'todo', 'Launch', [7, 8, 0, 9]),
+    ],
+  }),
+  builtIn({
+    id: 'builtin-bug-triage',
+    name: 'Bug triage',
+    description: 'Bugs move from report to verified fix, with regression tests alongside.',
+    workflow: {
+      columns: columns(
+        ['new', 'New', 'red'],
+        ['triaged', 'Triaged', 'orange'],
+        ['fixing', 'Fixing', 'yellow'],
+        ['verifying', 'Verifying', 'blue'],
+        ['closed', 'Closed', 'green'],
+      ),
+      doneColumnId: 'closed',
+      timerColumnId: 'fixing',
+    },
+    labels: [
+      { name: 'Bug', color: 'red' },
+      { name: 'Regression test', color: 'purple' },
+    ],
+    tasks: [
+      ...fromCategory('bug', 'new', 'Bug', [0, 1, 3, 4]),
+      ...fromCategory('test', 'new', 'Regression test', [1, 2, 4, 5]),
+    ],
+  }),
+];
+
+// Tasks for a new board, due relative to the start date. The labels are the board's own ones made
+// from the template, matched by name.
+export function instantiateBoardTemplate(template: BoardTemplate, labels: TaskLabel[], startDate: Date): Task[] {
+  const now = new Date();
+  const labelIds = new Map(labels.map(label => [label.name.toLowerCase(), label.id]));
+  const tasks = template.tasks.map((item): Task => {
+    const ids = (item.labelNames ?? [])
+      .map(name => labelIds.get(name.toLowerCase()))
+      .filter((id): id is string => id !== undefined);
+    return {
+      id: createId(),
+      title: item.title,
+      description: item.description,
+      status: normalizeStatus(template.workflow, item.status),
+      priority: item.priority,
+      checklist: item.checklist?.length ? item.checklist.map(createChecklistItem) : undefined,
+      labelIds: ids.length > 0 ? ids : undefined,
+      dueDate: item.due ? resolveRelativeDue(item.due, startDate) : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+  });
+  return ensureRanks(tasks);
+}
+
+// Capture a board's columns, labels and open tasks. Due dates become relative to the day the board
+// was created, and tasks already done start over in the first column.
+export function createBoardTemplate(board: Board, tasks: Task[], name: string): BoardTemplate {
+  const anchor = startOfDay(new Date(board.createdAt));
+  const templateTasks = sortByRank(tasks.filter(task => !isTrashed(task) && !isArchived(task))).map(task => {
+    const labelNames = getTaskLabels(task, board.labels).map(label => label.name);
+    return {
+      title: task.title,
+      description: task.description,
+      status: isDoneStatus(board.workflow, task.status) ? getInitialStatus(board.workflow) : task.status,
+      priority: getPriority(task) !== 'none' ? task.priority : undefined,
+      checklist: task.checklist?.length ? task.checklist.map(item => item.text) : undefined,
+      labelNames: labelNames.length > 0 ? labelNames : undefined,
+      due: task.dueDate ? relativeDueFrom(new Date(task.dueDate), anchor) : undefined,
+    };
+  });
+  return {
+    id: createId(),
+    name: name.trim().slice(0, MAX_BOARD_TEMPLATE_NAME_LENGTH) || board.name,
+    description: `Saved from ${board.name}`,
+    workflow: board.workflow,
+    labels: board.labels.map(({ name: labelName, color }) => ({ name: labelName, color })),
+    settings: board.settings,
+    tasks: templateTasks,
+    createdAt: new Date(),
+  };
+}
+
+const strings = (value: unknown) =>
+  Array.isArray(value) ? value.filter((s): s is string => typeof s === 'string' && !!s.trim()) : [];
+
+function parseSettings(raw: unknown): Partial<BoardSettings> | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const { estimateUnit, wipMode } = raw as Partial<BoardSettings>;
+  return {
+    estimateUnit: estimateUnit === 'points' || estimateUnit === 'hours' ? estimateUnit : undefined,
+    wipMode: wipMode === 'soft' || wipMode === 'strict' ? wipMode : undefined,
+  };
+}
+
+function parseTemplateTask(raw: unknown, workflow: Workflow): BoardTemplateTask | undefined {
+  const item = raw as Partial<Record<keyof BoardTemplateTask, unknown>> | null;
+  if (typeof item?.title !== 'string' || !item.title.trim()) return undefined;
+  const checklist = strings(item.checklist).map(text => text.slice(0, MAX_CHECKLIST_ITEM_LENGTH));
+  const labelNames = strings(item.labelNames);
+  return {
+    title: item.title.trim().slice(0, 100),
+    description: typeof item.description === 'string' ? item.description.slice(0, MAX_DESCRIPTION_LENGTH) : '',
+    status: normalizeStatus(workflow, item.status),
+    priority: isTaskPriority(item.priority) ? item.priority : undefined,
+    checklist: checklist.length > 0 ? checklist : undefined,
+    labelNames: labelNames.length > 0 ? labelNames : undefined,
+    due: parseRelativeDueValue(item.due),
+  };
+}
+
+// Sanitize the user's board templates read back from storage
+export function parseBoardTemplates(raw: unknown): BoardTemplate[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(item => typeof item?.id === 'string' && typeof item?.name === 'string' && item.name.trim())
+    .map(item => {
+      const workflow = parseWorkflow(item.workflow);
+      const labels = Array.isArray(item.labels)
+        ? item.labels
+          .filter((label: unknown) => typeof (label as TaskLabel)?.name === 'string' && (label as TaskLabel).name.trim())
+          .map((label: TaskLabel) => ({
+            name: label.name.trim().slice(0, MAX_LABEL_NAME_LENGTH),
+            color: isColumnColor(label.color) ? label.color : 'gray',
+          }))
+        : [];
+      const tasks = Array.isArray(item.tasks)
+        ? item.tasks
+          .map((task: unknown) => parseTemplateTask(task, workflow))
+          .filter((task: BoardTemplateTask | undefined): task is BoardTemplateTask => task !== undefined)
+        : [];
+      return {
+        id: item.id,
+        name: item.name.trim().slice(0, MAX_BOARD_TEMPLATE_NAME_LENGTH),
+        description: typeof item.description === 'string' ? item.description : '',
+        workflow,
+        labels,
+        settings: parseSettings(item.settings),
+        tasks,
+        createdAt: new Date(item.createdAt ?? Date.now()),
+      };
+    });
+}
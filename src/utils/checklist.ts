@@ -0,0 +1,49 @@
+import { ChecklistItem, Task, Workflow } from '@/types/task';
+import { createId } from './ids';
+import { isDoneStatus, withStatus } from './workflow';
+
+export const MAX_CHECKLIST_ITEM_LENGTH = 200;
+
+export function createChecklistItem(text: string): ChecklistItem {
+  return { id: createId(), text: text.trim().slice(0, MAX_CHECKLIST_ITEM_LENGTH), done: false };
+}
+
+export function getChecklistProgress(task: Task): { done: number; total: number } | null {
+  const items = task.checklist ?? [];
+  if (items.length === 0) return null;
+  return { done: items.filter(item => item.done).length, total: items.length };
+}
+
+export function isChecklistComplete(items: ChecklistItem[] | undefined): boolean {
+  return !!items && items.length > 0 && items.every(item => item.done);
+}
+
+export function moveChecklistItem(items: ChecklistItem[], id: string, direction: -1 | 1): ChecklistItem[] {
+  const index = items.findIndex(item => item.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+// Honour the task's opt-in to complete itself once the last item is checked
+export function applyChecklistCompletion(workflow: Workflow, task: Task): Task {
+  if (!task.completeWithChecklist || !isChecklistComplete(task.checklist) || isDoneStatus(workflow, task.status)) {
+    return task;
+  }
+  return withStatus(workflow, task, workflow.doneColumnId);
+}
+
+// Sanitize a checklist read back from an export file
+export function parseChecklist(raw: unknown): ChecklistItem[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const items = raw
+    .filter(item => typeof item?.text === 'string' && item.text.trim())
+    .map(item => ({
+      id: typeof item.id === 'string' ? item.id : createId(),
+      text: String(item.text).trim().slice(0, MAX_CHECKLIST_ITEM_LENGTH),
+      done: item.done === true,
+    }));
+  return items.length > 0 ? items : undefined;
+}
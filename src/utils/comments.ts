@@ -0,0 +1,57 @@
+import { isValid } from 'date-fns';
+import { Person } from '@/types/person';
+import { Task, TaskComment } from '@/types/task';
+import { createId } from './ids';
+
+export const MAX_COMMENT_LENGTH = 2000;
+export const ANONYMOUS_AUTHOR = 'Anonymous';
+
+export function createComment(body: string, author?: Person): TaskComment {
+  return {
+    id: createId(),
+    authorId: author?.id,
+    authorName: author?.name ?? ANONYMOUS_AUTHOR,
+    body: body.trim().slice(0, MAX_COMMENT_LENGTH),
+    createdAt: new Date(),
+  };
+}
+
+// Without a profile, comments written without one count as your own
+export function isOwnComment(comment: TaskComment, currentPersonId?: string): boolean {
+  return comment.authorId === currentPersonId;
+}
+
+// Prefer the directory's current name, falling back to the one saved with the comment
+export function getCommentAuthorName(comment: TaskComment, people: Person[]): string {
+  return people.find(person => person.id === comment.authorId)?.name ?? comment.authorName;
+}
+
+export function getCommentCount(task: Task): number {
+  return task.comments?.length ?? 0;
+}
+
+export function reviveComments(comments: TaskComment[] | undefined): TaskComment[] | undefined {
+  return comments?.map(comment => ({
+    ...comment,
+    createdAt: new Date(comment.createdAt),
+    editedAt: comment.editedAt ? new Date(comment.editedAt) : undefined,
+  }));
+}
+
+// Comments from an export file; author ids are translated to this device's people directory
+export function parseComments(raw: unknown, personIdMap: Map<string, string>): TaskComment[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const toDate = (value: unknown) => (value ? new Date(value as string) : undefined);
+  const comments = raw
+    .filter(item => typeof item?.body === 'string' && item.body.trim())
+    .map(item => ({
+      id: typeof item.id === 'string' ? item.id : createId(),
+      authorId: typeof item.authorId === 'string' ? personIdMap.get(item.authorId) : undefined,
+      authorName: typeof item.authorName === 'string' && item.authorName.trim() ? item.authorName : ANONYMOUS_AUTHOR,
+      body: String(item.body).slice(0, MAX_COMMENT_LENGTH),
+      // A missing or unreadable date would break the thread, so it falls back to now or is left out
+      createdAt: isValid(toDate(item.createdAt)) ? toDate(item.createdAt)! : new Date(),
+      editedAt: isValid(toDate(item.editedAt)) ? toDate(item.editedAt) : undefined,
+    }));
+  return comments.length > 0 ? comments : undefined;
+}
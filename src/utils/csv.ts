@@ -0,0 +1,69 @@
+// Spreadsheet apps run a cell starting with one of these as a formula. Such cells get a leading
+// apostrophe, which shows them as text; the apostrophes already in front are counted in so that
+// stripping one on import gives back the original.
+const FORMULA_PATTERN = /^'*[=+\-@\t\r]/;
+
+// Quote a field when it holds a separator, quote or line break, doubling any quotes inside
+function escapeCsvField(value: string): string {
+  const text = FORMULA_PATTERN.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const unescapeCsvField = (field: string) => (/^'+[=+\-@\t\r]/.test(field) ? field.slice(1) : field);
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+export function downloadCsv(fileName: string, csv: string) {
+  // The byte order mark makes spreadsheet apps read the file as UTF-8
+  const url = URL.createObjectURL(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Split CSV text into rows of fields, undoing the quoting and formula escaping toCsv applies. Blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // downloadCsv starts files with a byte order mark
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(unescapeCsvField(field));
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(unescapeCsvField(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,283 @@
+import { format, isValid, parse } from 'date-fns';
+import { CustomField, CustomFieldType } from '@/types/board';
+import { CustomFieldValue, Task } from '@/types/task';
+import { createId } from './ids';
+
+export const MAX_CUSTOM_FIELD_NAME_LENGTH = 30;
+export const MAX_CUSTOM_FIELD_TEXT_LENGTH = 200;
+export const MAX_CUSTOM_FIELD_OPTIONS = 30;
+
+export const CUSTOM_FIELD_TYPES: Array<{ value: CustomFieldType; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Single select' },
+  { value: 'multi-select', label: 'Multi select' },
+  { value: 'checkbox', label: 'Checkbox' },
+  { value: 'url', label: 'URL' },
+];
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+// What the add and edit forms hold for a field while it is being typed
+export type CustomFieldDraft = string | string[] | boolean;
+
+export interface CustomFieldFilter {
+  fieldId: string;
+  value: string;
+}
+
+export interface CustomFieldSort {
+  fieldId: string;
+  direction: 'asc' | 'desc';
+}
+
+export function isCustomFieldType(value: unknown): value is CustomFieldType {
+  return CUSTOM_FIELD_TYPES.some(option => option.value === value);
+}
+
+export function hasOptions(type: CustomFieldType): boolean {
+  return type === 'select' || type === 'multi-select';
+}
+
+export function getCustomFieldTypeLabel(type: CustomFieldType): string {
+  return CUSTOM_FIELD_TYPES.find(option => option.value === type)?.label ?? type;
+}
+
+export function createCustomField(name: string, type: CustomFieldType): CustomField {
+  return {
+    id: createId(),
+    name: name.trim().slice(0, MAX_CUSTOM_FIELD_NAME_LENGTH),
+    type,
+    options: hasOptions(type) ? [] : undefined,
+  };
+}
+
+export function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isDateText(value: string): boolean {
+  const date = parse(value, DATE_FORMAT, new Date());
+  return isValid(date) && format(date, DATE_FORMAT) === value;
+}
+
+// Coerce a stored or imported value to the field's type. Anything that does not fit, including
+// options the field no longer offers, reads as no value at all.
+export function readCustomFieldValue(field: CustomField, raw: unknown): CustomFieldValue | undefined {
+  switch (field.type) {
+    case 'text':
+      return typeof raw === 'string' && raw.trim() ? raw.trim().slice(0, MAX_CUSTOM_FIELD_TEXT_LENGTH) : undefined;
+    case 'url':
+      return typeof raw === 'string' && isValidUrl(raw.trim()) ? raw.trim() : undefined;
+    case 'number':
+      return typeof raw === 'number' && Number.isFinite(raw) ? raw : undefined;
+    case 'date':
+      return typeof raw === 'string' && isDateText(raw) ? raw : undefined;
+    case 'select':
+      return typeof raw === 'string' && field.options?.includes(raw) ? raw : undefined;
+    case 'multi-select': {
+      const values = Array.isArray(raw) ? field.options?.filter(option => raw.includes(option)) ?? [] : [];
+      return values.length > 0 ? values : undefined;
+    }
+    case 'checkbox':
+      return raw === true || undefined;
+  }
+}
+
+export function getCustomFieldValue(task: Task, field: CustomField): CustomFieldValue | undefined {
+  return readCustomFieldValue(field, task.customFields?.[field.id]);
+}
+
+export function toDraft(field: CustomField, value: CustomFieldValue | undefined): CustomFieldDraft {
+  switch (field.type) {
+    case 'multi-select':
+      return Array.isArray(value) ? value : [];
+    case 'checkbox':
+      return value === true;
+    default:
+      return value === undefined ? '' : String(value);
+  }
+}
+
+export function isEmptyDraft(draft: CustomFieldDraft): boolean {
+  if (Array.isArray(draft)) return draft.length === 0;
+  return typeof draft === 'string' ? !draft.trim() : !draft;
+}
+
+// Turn a form draft into a value, or explain why it cannot be one
+export function parseDraft(field: CustomField, draft: CustomFieldDraft): { value?: CustomFieldValue; error?: string } {
+  const text = typeof draft === 'string' ? draft.trim() : '';
+  if (isEmptyDraft(draft)) {
+    return field.required ? { error: `${field.name} is required` } : {};
+  }
+
+  switch (field.type) {
+    case 'number': {
+      const value = Number(text);
+      return Number.isFinite(value) ? { value } : { error: `${field.name} has to be a number` };
+    }
+    case 'url':
+      return isValidUrl(text) ? { value: text } : { error: `${field.name} has to be a link starting with http:// or https://` };
+    case 'date':
+      return readCustomFieldValue(field, text) ? { value: text } : { error: `${field.name} has to be a date` };
+    default: {
+      const value = readCustomFieldValue(field, typeof draft === 'string' ? text : draft);
+      return value === undefined ? { error: `${field.name} is not valid` } : { value };
+    }
+  }
+}
+
+// Read every field of a form at once; values is undefined when none are filled in
+export function parseDrafts(
+  fields: CustomField[],
+  drafts: Record<string, CustomFieldDraft>
+): { values?: Record<string, CustomFieldValue>; errors: Record<string, string> } {
+  const values: Record<string, CustomFieldValue> = {};
+  const errors: Record<string, string> = {};
+  for (const field of fields) {
+    const { value, error } = parseDraft(field, drafts[field.id] ?? toDraft(field, undefined));
+    if (error) errors[field.id] = error;
+    if (value !== undefined) values[field.id] = value;
+  }
+  return { values: Object.keys(values).length > 0 ? values : undefined, errors };
+}
+
+export function formatCustomFieldValue(field: CustomField, value: CustomFieldValue): string {
+  switch (field.type) {
+    case 'date':
+      return format(parse(value as string, DATE_FORMAT, new Date()), 'MMM d, yyyy');
+    case 'multi-select':
+      return (value as string[]).join(', ');
+    case 'checkbox':
+      return 'Yes';
+    default:
+      return String(value);
+  }
+}
+
+// Text cells for CSV export; multi-select options are separated by semicolons
+export function customFieldToText(field: CustomField, value: CustomFieldValue | undefined): string {
+  if (value === undefined) return '';
+  if (field.type === 'multi-select') return (value as string[]).join('; ');
+  if (field.type === 'checkbox') return 'yes';
+  return String(value);
+}
+
+export function customFieldFromText(field: CustomField, text: string): CustomFieldValue | undefined {
+  const trimmed = text.trim();
+  switch (field.type) {
+    case 'multi-select':
+      return readCustomFieldValue(field, trimmed.split(';').map(option => option.trim()));
+    case 'checkbox':
+      return readCustomFieldValue(field, ['yes', 'true', '1', 'x'].includes(trimmed.toLowerCase()));
+    case 'number':
+      return trimmed ? readCustomFieldValue(field, Number(trimmed)) : undefined;
+    default:
+      return readCustomFieldValue(field, trimmed);
+  }
+}
+
+// Text and links match on a substring, numbers and dates exactly, selects by option
+export function matchesCustomFieldFilter(task: Task, field: CustomField, filter: string): boolean {
+  const value = getCustomFieldValue(task, field);
+  switch (field.type) {
+    case 'checkbox':
+      return (value === true) === (filter === 'yes');
+    case 'multi-select':
+      return Array.isArray(value) && value.includes(filter);
+    case 'text':
+    case 'url':
+      return typeof value === 'string' && value.toLowerCase().includes(filter.trim().toLowerCase());
+    case 'number':
+      return value === Number(filter);
+    default:
+      return value === filter;
+  }
+}
+
+function compareValues(field: CustomField, a: CustomFieldValue, b: CustomFieldValue): number {
+  if (field.type === 'number') return (a as number) - (b as number);
+  if (field.type === 'checkbox') return 0;
+  // Selects sort in the order their options are listed, not alphabetically
+  if (hasOptions(field.type)) {
+    const options = field.options ?? [];
+    const first = (value: CustomFieldValue) => options.indexOf(Array.isArray(value) ? value[0] : value as string);
+    return first(a) - first(b);
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+// Tasks without a value go last in either direction. The sort is stable, so ties keep their rank.
+export function sortByCustomField(tasks: Task[], field: CustomField, direction: 'asc' | 'desc'): Task[] {
+  return [...tasks].sort((a, b) => {
+    const valueA = getCustomFieldValue(a, field);
+    const valueB = getCustomFieldValue(b, field);
+    if (valueA === undefined || valueB === undefined) {
+      return valueA === valueB ? 0 : valueA === undefined ? 1 : -1;
+    }
+    const order = compareValues(field, valueA, valueB);
+    return direction === 'asc' ? order : -order;
+  });
+}
+
+// Sanitize the values of an imported task, translating field ids from the file to the board's
+export function parseCustomFieldValues(
+  fields: CustomField[],
+  raw: unknown,
+  idMap: Map<string, string>
+): Record<string, CustomFieldValue> | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const values: Record<string, CustomFieldValue> = {};
+  for (const [id, value] of Object.entries(raw)) {
+    const field = fields.find(f => f.id === idMap.get(id));
+    const parsed = field && readCustomFieldValue(field, value);
+    if (field && parsed !== undefined) values[field.id] = parsed;
+  }
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+// Fold fields from an export file into the board's, matching by name and type so re-imports don't
+// duplicate them. New options of a matched select field are added to it.
+export function mergeCustomFields(
+  existing: CustomField[],
+  raw: unknown
+): { fields: CustomField[]; idMap: Map<string, string> } {
+  const fields = [...existing];
+  const idMap = new Map<string, string>();
+  if (!Array.isArray(raw)) return { fields, idMap };
+
+  for (const item of raw) {
+    if (typeof item?.id !== 'string' || typeof item?.name !== 'string' || !item.name.trim()) continue;
+    if (!isCustomFieldType(item.type)) continue;
+    const name = item.name.trim().slice(0, MAX_CUSTOM_FIELD_NAME_LENGTH);
+    const options: string[] = Array.isArray(item.options)
+      ? item.options.filter((option: unknown): option is string => typeof option === 'string' && !!option.trim())
+      : [];
+
+    const index = fields.findIndex(f => f.name.toLowerCase() === name.toLowerCase());
+    if (index === -1) {
+      fields.push({
+        ...createCustomField(name, item.type),
+        options: hasOptions(item.type) ? [...new Set(options)].slice(0, MAX_CUSTOM_FIELD_OPTIONS) : undefined,
+        required: item.required === true || undefined,
+        showOnCard: item.showOnCard === true || undefined,
+      });
+      idMap.set(item.id, fields[fields.length - 1].id);
+    } else if (fields[index].type === item.type) {
+      const field = fields[index];
+      if (hasOptions(field.type)) {
+        const merged = [...new Set([...(field.options ?? []), ...options])].slice(0, MAX_CUSTOM_FIELD_OPTIONS);
+        fields[index] = { ...field, options: merged };
+      }
+      idMap.set(item.id, field.id);
+    }
+    // A same-named field of another type cannot hold the values, so they are dropped
+  }
+  return { fields, idMap };
+}
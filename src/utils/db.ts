@@ -0,0 +1,168 @@
+import { readLegacyLocalStorage, removeLocalStorageKeys } from './boardStorage';
+
+const DB_NAME = 'kanbanflow';
+
+export const STORES = {
+  boards: 'boards',
+  tasks: 'tasks',
+  meta: 'meta',
+  recovery: 'recovery',
+  history: 'history',
+  events: 'events',
+  attachments: 'attachments',
+} as const;
+
+export const taskOrderKey = (boardId: string) => `order:${boardId}`;
+
+interface Migration {
+  version: number;
+  description: string;
+  // A returned callback runs once the upgrade transaction has committed
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void | (() => void);
+}
+
+// Applied in order; every migration newer than the stored version runs exactly once.
+// Never edit a shipped migration - append a new one instead.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create boards, tasks, meta and recovery stores',
+    upgrade: (db) => {
+      db.createObjectStore(STORES.boards, { keyPath: 'id' });
+      const tasks = db.createObjectStore(STORES.tasks, { keyPath: 'id' });
+      tasks.createIndex('boardId', 'boardId');
+      db.createObjectStore(STORES.meta);
+      db.createObjectStore(STORES.recovery, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Import boards and tasks from localStorage',
+    upgrade: (_db, transaction) => {
+      const legacy = readLegacyLocalStorage();
+      const boards = transaction.objectStore(STORES.boards);
+      const tasks = transaction.objectStore(STORES.tasks);
+      const meta = transaction.objectStore(STORES.meta);
+      const recovery = transaction.objectStore(STORES.recovery);
+
+      for (const board of legacy.boards) {
+        boards.put(board);
+        const boardTasks = legacy.tasksByBoard[board.id] ?? [];
+        boardTasks.forEach(task => tasks.put({ ...task, boardId: board.id }));
+        meta.put(boardTasks.map(task => task.id), taskOrderKey(board.id));
+      }
+      for (const { key, content } of legacy.corrupt) {
+        recovery.put({ id: `${key}@${Date.now()}`, source: key, content, createdAt: new Date() });
+      }
+
+      return () => removeLocalStorageKeys(legacy.keys);
+    },
+  },
+  {
+    version: 3,
+    description: 'Create undo/redo history store',
+    upgrade: (db) => {
+      db.createObjectStore(STORES.history);
+    },
+  },
+  {
+    version: 4,
+    description: 'Create activity events store',
+    upgrade: (db) => {
+      const events = db.createObjectStore(STORES.events, { keyPath: 'id' });
+      events.createIndex('boardId', 'boardId');
+      events.createIndex('taskId', 'taskId');
+    },
+  },
+  {
+    version: 5,
+    description: 'Give every board a label list',
+    upgrade: (_db, transaction) => {
+      const boards = transaction.objectStore(STORES.boards);
+      boards.openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        if (!Array.isArray(cursor.value.labels)) {
+          cursor.update({ ...cursor.value, labels: [] });
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 6,
+    description: 'Create attachments store',
+    upgrade: (db) => {
+      const attachments = db.createObjectStore(STORES.attachments, { keyPath: 'id' });
+      attachments.createIndex('boardId', 'boardId');
+      attachments.createIndex('taskId', 'taskId');
+    },
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not supported in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const afterUpgrade: Array<() => void> = [];
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (const migration of MIGRATIONS) {
+        if (migration.version > event.oldVersion) {
+          console.info(`Applying storage migration ${migration.version}: ${migration.description}`);
+          const callback = migration.upgrade(db, transaction);
+          if (callback) afterUpgrade.push(callback);
+        }
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema - release our connection so it can proceed
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      afterUpgrade.forEach(callback => callback());
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+
+    request.onblocked = () => {
+      console.warn('Storage upgrade is waiting for other tabs to close');
+    };
+  });
+
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
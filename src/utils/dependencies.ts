@@ -0,0 +1,52 @@
+import { Task, Workflow } from '@/types/task';
+import { createId } from './ids';
+import { isDoneStatus } from './workflow';
+import { isTrashed } from './trash';
+
+// Blockers that still hold a task back; finished, trashed or missing ones no longer count
+export function getOpenBlockers(task: Task, tasksById: Map<string, Task>, workflow: Workflow): Task[] {
+  return (task.blockedBy ?? [])
+    .map(id => tasksById.get(id))
+    .filter((blocker): blocker is Task =>
+      !!blocker && !isTrashed(blocker) && !isDoneStatus(workflow, blocker.status)
+    );
+}
+
+// Tasks that list `taskId` as a blocker
+export function getDependents(taskId: string, tasks: Task[]): Task[] {
+  return tasks.filter(task => !isTrashed(task) && task.blockedBy?.includes(taskId));
+}
+
+// Adding `blockerId` to the task's blockers closes a loop if the blocker already waits on the task
+export function wouldCreateCycle(tasks: Task[], taskId: string, blockerId: string): boolean {
+  if (taskId === blockerId) return true;
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const visited = new Set<string>();
+  const stack = [blockerId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(tasksById.get(id)?.blockedBy ?? []));
+  }
+  return false;
+}
+
+// Give tasks fresh ids, rewriting links between them; links to tasks outside the set are dropped
+export function remapTaskIds(tasks: Task[]): { tasks: Task[]; idMap: Map<string, string> } {
+  const idMap = new Map(tasks.map(task => [task.id, createId()]));
+  return {
+    idMap,
+    tasks: tasks.map(task => {
+      const blockedBy = task.blockedBy
+        ?.map(id => idMap.get(id))
+        .filter((id): id is string => id !== undefined);
+      return {
+        ...task,
+        id: idMap.get(task.id)!,
+        blockedBy: blockedBy && blockedBy.length > 0 ? blockedBy : undefined,
+      };
+    }),
+  };
+}
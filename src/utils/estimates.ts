@@ -0,0 +1,36 @@
+import { EstimateUnit } from '@/types/board';
+import { Task } from '@/types/task';
+
+export const MAX_ESTIMATE = 999;
+
+export const ESTIMATE_UNITS: Array<{ value: EstimateUnit; label: string; step: number }> = [
+  { value: 'points', label: 'Story points', step: 1 },
+  { value: 'hours', label: 'Hours', step: 0.25 },
+];
+
+export function getEstimateUnitLabel(unit: EstimateUnit): string {
+  return unit === 'hours' ? 'hours' : 'points';
+}
+
+export function getEstimateStep(unit: EstimateUnit): number {
+  return ESTIMATE_UNITS.find(option => option.value === unit)?.step ?? 1;
+}
+
+// "3 pts", "1 pt", "2.5h"
+export function formatEstimate(value: number, unit: EstimateUnit): string {
+  const rounded = Math.round(value * 100) / 100;
+  if (unit === 'hours') return `${rounded}h`;
+  return `${rounded} ${rounded === 1 ? 'pt' : 'pts'}`;
+}
+
+export function sumEstimates(tasks: Task[]): number {
+  return tasks.reduce((total, task) => total + (task.estimate ?? 0), 0);
+}
+
+// Accepts form input and imported values alike; anything that is not a sensible amount is dropped
+export function parseEstimate(raw: unknown): number | undefined {
+  if (raw === '' || raw === null || raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) return undefined;
+  return Math.min(Math.round(value * 100) / 100, MAX_ESTIMATE);
+}
@@ -0,0 +1,4 @@
+// Short, collision-resistant ids for tasks, boards and other local records
+export function createId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
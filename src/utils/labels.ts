@@ -0,0 +1,45 @@
+import { TaskLabel } from '@/types/board';
+import { ColumnColor, Task } from '@/types/task';
+import { createId } from './ids';
+import { isColumnColor } from './workflow';
+
+export const MAX_LABEL_NAME_LENGTH = 30;
+
+export type LabelMatchMode = 'any' | 'all';
+
+export function createLabel(name: string, color: ColumnColor): TaskLabel {
+  return { id: createId(), name: name.trim().slice(0, MAX_LABEL_NAME_LENGTH), color };
+}
+
+// The task's labels in board order, skipping ids whose label was deleted
+export function getTaskLabels(task: Task, labels: TaskLabel[]): TaskLabel[] {
+  const ids = new Set(task.labelIds ?? []);
+  return labels.filter(label => ids.has(label.id));
+}
+
+export function matchesLabels(task: Task, labelIds: string[], mode: LabelMatchMode): boolean {
+  if (labelIds.length === 0) return true;
+  const taskLabelIds = new Set(task.labelIds ?? []);
+  return mode === 'all'
+    ? labelIds.every(id => taskLabelIds.has(id))
+    : labelIds.some(id => taskLabelIds.has(id));
+}
+
+// Fold labels from an export file into the board's, matching by name so re-imports don't duplicate them
+export function mergeLabels(existing: TaskLabel[], raw: unknown): { labels: TaskLabel[]; idMap: Map<string, string> } {
+  const labels = [...existing];
+  const idMap = new Map<string, string>();
+  if (!Array.isArray(raw)) return { labels, idMap };
+
+  for (const item of raw) {
+    if (typeof item?.id !== 'string' || typeof item?.name !== 'string' || !item.name.trim()) continue;
+    const name = item.name.trim().slice(0, MAX_LABEL_NAME_LENGTH);
+    let label = labels.find(l => l.name.toLowerCase() === name.toLowerCase());
+    if (!label) {
+      label = createLabel(name, isColumnColor(item.color) ? item.color : 'gray');
+      labels.push(label);
+    }
+    idMap.set(item.id, label.id);
+  }
+  return { labels, idMap };
+}
@@ -0,0 +1,173 @@
+// A small markdown subset parsed into a tree that components render as React elements.
+// Nothing is ever injected as HTML, so the only thing to sanitize is link targets.
+
+// Raise this to allow longer task descriptions; the editors and the importer all read it from here
+export const MAX_DESCRIPTION_LENGTH = 10000;
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'break' }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export interface MarkdownListItem {
+  children: MarkdownInline[];
+  checked?: boolean; // set for task-list items, "- [ ]" and "- [x]"
+  line: number; // source line, so a checkbox can be toggled in place
+}
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownListItem[] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'code'; text: string };
+
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+export function sanitizeUrl(url: string): string | undefined {
+  const trimmed = url.trim();
+  return SAFE_URL.test(trimmed) ? trimmed : undefined;
+}
+
+const INLINE_PATTERNS: Array<{ regex: RegExp; build: (match: RegExpExecArray) => MarkdownInline }> = [
+  { regex: /`([^`]+)`/, build: match => ({ type: 'code', text: match[1] }) },
+  {
+    regex: /\[([^\]]+)\]\(([^)\s]+)\)/,
+    build: match => {
+      const href = sanitizeUrl(match[2]);
+      return href ? { type: 'link', href, children: parseInline(match[1]) } : { type: 'text', text: match[1] };
+    },
+  },
+  // Bare URLs, minus trailing punctuation that most likely ends the sentence
+  {
+    regex: /\bhttps?:\/\/[^\s<>()]*[^\s<>().,;:!?'"]/,
+    build: match => ({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] }),
+  },
+  { regex: /\*\*(.+?)\*\*/, build: match => ({ type: 'strong', children: parseInline(match[1]) }) },
+  { regex: /~~(.+?)~~/, build: match => ({ type: 'del', children: parseInline(match[1]) }) },
+  { regex: /\*(?!\s)(.+?)\*/, build: match => ({ type: 'em', children: parseInline(match[1]) }) },
+  { regex: /\b_(?!\s)([^_]+)_\b/, build: match => ({ type: 'em', children: parseInline(match[1]) }) },
+];
+
+// Repeatedly takes the earliest match; on a tie the pattern listed first wins (so ** beats *)
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    let earliest: { match: RegExpExecArray; build: (match: RegExpExecArray) => MarkdownInline } | undefined;
+    for (const pattern of INLINE_PATTERNS) {
+      const match = pattern.regex.exec(rest);
+      if (match && (!earliest || match.index < earliest.match.index)) {
+        earliest = { match, build: pattern.build };
+      }
+    }
+    if (!earliest) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (earliest.match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, earliest.match.index) });
+    }
+    nodes.push(earliest.build(earliest.match));
+    rest = rest.slice(earliest.match.index + earliest.match[0].length);
+  }
+  return nodes;
+}
+
+function parseLines(lines: string[]): MarkdownInline[] {
+  return lines.flatMap((line, index) =>
+    index === 0 ? parseInline(line) : [{ type: 'break' } as MarkdownInline, ...parseInline(line)]
+  );
+}
+
+const FENCE = /^\s*```/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const TASK_ITEM = /^\[( |x|X)\]\s+(.*)$/;
+const TASK_ITEM_LINE = /^(\s*(?:[-*+]|\d+[.)])\s+)\[( |x|X)\]/;
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || BULLET_ITEM.test(line) || ORDERED_ITEM.test(line) || QUOTE.test(line);
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence, if any
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    const itemPattern = BULLET_ITEM.test(line) ? BULLET_ITEM : ORDERED_ITEM.test(line) ? ORDERED_ITEM : undefined;
+    if (itemPattern) {
+      const items: MarkdownListItem[] = [];
+      let item: RegExpExecArray | null;
+      while (i < lines.length && (item = itemPattern.exec(lines[i]))) {
+        const task = TASK_ITEM.exec(item[1]);
+        items.push(task
+          ? { children: parseInline(task[2]), checked: task[1] !== ' ', line: i }
+          : { children: parseInline(item[1]), line: i });
+        i++;
+      }
+      blocks.push({ type: 'list', ordered: itemPattern === ORDERED_ITEM, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      let quote: RegExpExecArray | null;
+      while (i < lines.length && (quote = QUOTE.exec(lines[i]))) {
+        quoted.push(quote[1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseLines(quoted) });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseLines(paragraph) });
+  }
+  return blocks;
+}
+
+// Flip the task-list checkbox on the given source line; other lines are left untouched
+export function toggleTaskListItem(source: string, line: number): string {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const match = TASK_ITEM_LINE.exec(lines[line] ?? '');
+  if (!match) return source;
+  lines[line] = `${match[1]}[${match[2] === ' ' ? 'x' : ' '}]${lines[line].slice(match[0].length)}`;
+  return lines.join('\n');
+}
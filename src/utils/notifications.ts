@@ -1,3 +1,5 @@
+import { Task } from '@/types/task';
+
 export async function requestNotificationPermission(): Promise<boolean> {
   if (!('Notification' in window)) {
     console.log('This browser does not support notifications');
@@ -33,8 +35,12 @@ export function showNotification(title: string, options?: NotificationOptions) {
   }
 }
 
-export function scheduleNotification(task: any) {
-  if (!task.dueDate || !task.reminderTime || task.notificationSent) return;
+// setTimeout fires straight away past this delay; such reminders are scheduled on a later load
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+// Returns a function that cancels the reminder, if one was scheduled
+export function scheduleNotification(task: any, onShow?: () => void): (() => void) | undefined {
+  if (!task.dueDate || !task.reminderTime || task.notificationSent) return undefined;
 
   const now = new Date();
   const dueDate = new Date(task.dueDate);
@@ -47,13 +53,31 @@ export function scheduleNotification(task: any) {
   const reminderDate = new Date(dueDate.getTime() - task.reminderTime * 60000);
   const timeUntilReminder = reminderDate.getTime() - now.getTime();
 
-  if (timeUntilReminder > 0) {
-    setTimeout(() => {
+  if (timeUntilReminder > 0 && timeUntilReminder <= MAX_TIMEOUT) {
+    const timeout = setTimeout(() => {
       showNotification(`Task Reminder: ${task.title}`, {
         body: task.description || 'Task is due soon!',
         tag: task.id,
         requireInteraction: true
       });
+      onShow?.();
     }, timeUntilReminder);
+    return () => clearTimeout(timeout);
   }
-}
\ No newline at end of file
+  return undefined;
+}
+const sameTime = (a?: Date, b?: Date) => (a ? new Date(a).getTime() : undefined) === (b ? new Date(b).getTime() : undefined);
+
+// A reminder that already went off goes off again once its due date, time or lead time is changed
+export function rearmReminders(prev: Task[], next: Task[]): Task[] {
+  const prevById = new Map(prev.map(task => [task.id, task]));
+  return next.map(task => {
+    const before = prevById.get(task.id);
+    if (!task.notificationSent || !before || before === task) return task;
+    const rescheduled =
+      !sameTime(before.dueDate, task.dueDate) ||
+      before.dueTime !== task.dueTime ||
+      before.reminderTime !== task.reminderTime;
+    return rescheduled ? { ...task, notificationSent: false } : task;
+  });
+}
@@ -0,0 +1,62 @@
+import { Person } from '@/types/person';
+import { ColumnColor, Task } from '@/types/task';
+import { createId } from './ids';
+import { isColumnColor } from './workflow';
+
+export const MAX_PERSON_NAME_LENGTH = 40;
+export const MAX_INITIALS_LENGTH = 3;
+
+export function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  if (words.length === 1) return words[0].slice(0, 2).toUpperCase();
+  return (words[0][0] + words[words.length - 1][0]).toUpperCase();
+}
+
+export function normalizeInitials(initials: string, name: string): string {
+  const trimmed = initials.trim().slice(0, MAX_INITIALS_LENGTH).toUpperCase();
+  return trimmed || getInitials(name);
+}
+
+export function createPerson(name: string, color: ColumnColor, initials = ''): Person {
+  const trimmedName = name.trim().slice(0, MAX_PERSON_NAME_LENGTH);
+  return { id: createId(), name: trimmedName, initials: normalizeInitials(initials, trimmedName), color };
+}
+
+export function parsePeople(raw: unknown): Person[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(item => typeof item?.id === 'string' && typeof item?.name === 'string' && item.name.trim())
+    .map(item => ({
+      id: item.id,
+      name: item.name.trim().slice(0, MAX_PERSON_NAME_LENGTH),
+      initials: normalizeInitials(typeof item.initials === 'string' ? item.initials : '', item.name),
+      color: isColumnColor(item.color) ? item.color : 'gray',
+    }));
+}
+
+// The task's assignees in directory order; ids of people who were removed are skipped
+export function getAssignees(task: Task, people: Person[]): Person[] {
+  const ids = new Set(task.assigneeIds ?? []);
+  return people.filter(person => ids.has(person.id));
+}
+
+export function isAssignedTo(task: Task, personId: string): boolean {
+  return task.assigneeIds?.includes(personId) ?? false;
+}
+
+// Fold people from an export file into the directory, matching by name so re-imports don't duplicate them
+export function mergePeople(existing: Person[], raw: unknown): { people: Person[]; idMap: Map<string, string> } {
+  const people = [...existing];
+  const idMap = new Map<string, string>();
+
+  for (const imported of parsePeople(raw)) {
+    let person = people.find(p => p.name.toLowerCase() === imported.name.toLowerCase());
+    if (!person) {
+      person = { ...imported, id: createId() };
+      people.push(person);
+    }
+    idMap.set(imported.id, person.id);
+  }
+  return { people, idMap };
+}
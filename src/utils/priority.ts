@@ -0,0 +1,48 @@
+import { Task, TaskPriority } from '@/types/task';
+
+// Highest first; the order doubles as the sort rank
+export const PRIORITY_LEVELS: Array<{ value: TaskPriority; label: string; marker: string; text: string }> = [
+  { value: 'urgent', label: 'Urgent', marker: 'bg-red-500', text: 'text-red-600 dark:text-red-400' },
+  { value: 'high', label: 'High', marker: 'bg-orange-500', text: 'text-orange-600 dark:text-orange-400' },
+  { value: 'medium', label: 'Medium', marker: 'bg-yellow-500', text: 'text-yellow-600 dark:text-yellow-400' },
+  { value: 'low', label: 'Low', marker: 'bg-blue-500', text: 'text-blue-600 dark:text-blue-400' },
+  { value: 'none', label: 'No priority', marker: 'bg-transparent', text: 'text-muted-foreground' },
+];
+
+export function isTaskPriority(value: unknown): value is TaskPriority {
+  return PRIORITY_LEVELS.some(level => level.value === value);
+}
+
+export function getPriority(task: Task): TaskPriority {
+  return task.priority ?? 'none';
+}
+
+export function getPriorityLevel(priority: TaskPriority) {
+  return PRIORITY_LEVELS.find(level => level.value === priority) ?? PRIORITY_LEVELS[PRIORITY_LEVELS.length - 1];
+}
+
+function getPriorityRank(task: Task): number {
+  return PRIORITY_LEVELS.findIndex(level => level.value === getPriority(task));
+}
+
+function getDueTimestamp(task: Task): number {
+  if (!task.dueDate) return Infinity;
+  const dueDate = new Date(task.dueDate);
+  if (task.dueTime) {
+    const [hours, minutes] = task.dueTime.split(':');
+    dueDate.setHours(parseInt(hours), parseInt(minutes));
+  }
+  return dueDate.getTime();
+}
+
+// Highest priority first, then soonest due; tasks without a due date go last.
+// The sort is stable, so ties keep their manual order.
+export function sortByPriority(tasks: Task[]): Task[] {
+  return [...tasks].sort((a, b) => {
+    const byPriority = getPriorityRank(a) - getPriorityRank(b);
+    if (byPriority !== 0) return byPriority;
+    const dueA = getDueTimestamp(a);
+    const dueB = getDueTimestamp(b);
+    return dueA === dueB ? 0 : dueA < dueB ? -1 : 1;
+  });
+}
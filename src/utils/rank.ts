@@ -0,0 +1,89 @@
+import { Task } from '@/types/task';
+
+// Ranks are fractional indexes: strings that sort in board order and always leave room for
+// another one in between, so moving a card only ever rewrites that card.
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// A key strictly between a and b (b missing means no upper bound). Keys never end in '0', which
+// is what guarantees there is always room left.
+function midpoint(a: string, b: string | undefined): string {
+  if (b !== undefined) {
+    let shared = 0;
+    while ((a[shared] ?? '0') === b[shared]) shared++;
+    if (shared > 0) return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared));
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  // With no upper bound the next digit up is enough. Bisecting towards 'z' instead would use up
+  // the room in a few steps, so cards appended one after another would get ever longer keys.
+  if (b === undefined) {
+    return digitA < DIGITS.length - 1 ? DIGITS[digitA + 1] : DIGITS[digitA] + midpoint(a.slice(1), undefined);
+  }
+  const digitB = DIGITS.indexOf(b[0]);
+  if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+  if (b.length > 1) return b[0];
+  return DIGITS[digitA] + midpoint(a.slice(1), undefined);
+}
+
+export function isValidRank(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-z]*[1-9a-z]$/.test(value);
+}
+
+// A rank after `before` and before `after`; leave either out for an open end
+export function rankBetween(before?: string, after?: string): string {
+  // Neighbours out of order cannot both be honoured; staying after `before` is the safer half
+  if (before !== undefined && after !== undefined && before >= after) return midpoint(before, undefined);
+  return midpoint(before ?? '', after);
+}
+
+// A rank after every task given, i.e. the bottom of whichever column it ends up in
+export function rankAfter(tasks: Task[]): string {
+  const last = tasks.reduce<string | undefined>(
+    (max, task) => task.rank !== undefined && (max === undefined || task.rank > max) ? task.rank : max,
+    undefined
+  );
+  return rankBetween(last);
+}
+
+// Plain code point order, so ranks compare the same everywhere regardless of locale
+export function compareRanks(a: Task, b: Task): number {
+  if (a.rank === b.rank) return 0;
+  if (a.rank === undefined) return 1;
+  if (b.rank === undefined) return -1;
+  return a.rank < b.rank ? -1 : 1;
+}
+
+export function sortByRank(tasks: Task[]): Task[] {
+  return [...tasks].sort(compareRanks);
+}
+
+// Where a card dropped onto another lands, judged by the cards the user can see. Dragging down
+// places it below the target and dragging up above it, like the sortable animation suggests.
+export function getDropRank(visible: Task[], activeId: string, overId: string): string | undefined {
+  const overIndex = visible.findIndex(task => task.id === overId);
+  const activeIndex = visible.findIndex(task => task.id === activeId);
+  if (overIndex === -1 || activeIndex === overIndex) return undefined;
+  const over = visible[overIndex];
+  if (activeIndex !== -1 && activeIndex < overIndex) {
+    return rankBetween(over.rank, visible[overIndex + 1]?.rank);
+  }
+  return rankBetween(visible[overIndex - 1]?.rank, over.rank);
+}
+
+// Tasks without a rank, or sharing one with an earlier task, are ranked after everything else in
+// list order. This also migrates boards from before ranks existed without changing their order.
+export function ensureRanks(tasks: Task[]): Task[] {
+  const seen = new Set<string>();
+  let last = rankAfter(tasks);
+  let changed = false;
+  const ranked = tasks.map(task => {
+    if (task.rank !== undefined && !seen.has(task.rank)) {
+      seen.add(task.rank);
+      return task;
+    }
+    changed = true;
+    const rank = last;
+    last = rankBetween(last);
+    return { ...task, rank };
+  });
+  return changed ? ranked : tasks;
+}
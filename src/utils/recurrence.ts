@@ -0,0 +1,205 @@
+import {
+  addDays,
+  addMonths,
+  getDaysInMonth,
+  isAfter,
+  isBefore,
+  isWeekend,
+  lastDayOfMonth,
+  setDate,
+  startOfDay,
+  startOfMonth,
+} from 'date-fns';
+import { Task, TaskRecurrence, Workflow } from '@/types/task';
+import { createId } from './ids';
+import { getInitialStatus, isDoneStatus } from './workflow';
+
+export type RecurrenceType = TaskRecurrence['type'];
+
+export const RECURRENCE_TYPES: Array<{ value: RecurrenceType; label: string }> = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Every weekday' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly-day', label: 'Monthly on a day' },
+  { value: 'monthly-weekday', label: 'Monthly on a weekday' },
+  { value: 'after-completion', label: 'Days after completion' },
+];
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const WEEK_OF_MONTH_NAMES: Record<1 | 2 | 3 | 4 | -1, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  [-1]: 'last',
+};
+
+export const MAX_RECURRENCE_INTERVAL_DAYS = 365;
+
+// A sensible starting rule when the user switches types, seeded from the due date if there is one
+export function createRecurrence(type: RecurrenceType, reference = new Date()): TaskRecurrence {
+  switch (type) {
+    case 'daily':
+    case 'weekdays':
+      return { type };
+    case 'weekly':
+      return { type, days: [reference.getDay()] };
+    case 'monthly-day':
+      return { type, day: reference.getDate() };
+    case 'monthly-weekday': {
+      const week = Math.ceil(reference.getDate() / 7);
+      return { type, week: week > 4 ? -1 : (week as 1 | 2 | 3 | 4), weekday: reference.getDay() };
+    }
+    case 'after-completion':
+      return { type, intervalDays: 7 };
+  }
+}
+
+export function describeRecurrence(rule: TaskRecurrence): string {
+  switch (rule.type) {
+    case 'daily':
+      return 'Daily';
+    case 'weekdays':
+      return 'Every weekday';
+    case 'weekly':
+      return `Weekly on ${[...rule.days].sort((a, b) => a - b).map(day => WEEKDAY_NAMES[day].slice(0, 3)).join(', ')}`;
+    case 'monthly-day':
+      return `Monthly on day ${rule.day}`;
+    case 'monthly-weekday':
+      return `Monthly on the ${WEEK_OF_MONTH_NAMES[rule.week]} ${WEEKDAY_NAMES[rule.weekday]}`;
+    case 'after-completion':
+      return rule.intervalDays === 1
+        ? '1 day after completion'
+        : `${rule.intervalDays} days after completion`;
+  }
+}
+
+function nthWeekdayOfMonth(month: Date, week: 1 | 2 | 3 | 4 | -1, weekday: number): Date {
+  if (week === -1) {
+    const last = lastDayOfMonth(month);
+    return addDays(last, -((last.getDay() - weekday + 7) % 7));
+  }
+  const first = startOfMonth(month);
+  return addDays(first, (weekday - first.getDay() + 7) % 7 + (week - 1) * 7);
+}
+
+// The first date the rule falls on strictly after the given day
+function getNextScheduledDate(rule: TaskRecurrence, after: Date): Date {
+  const day = startOfDay(after);
+  switch (rule.type) {
+    case 'daily':
+    case 'after-completion':
+      return addDays(day, rule.type === 'daily' ? 1 : rule.intervalDays);
+    case 'weekdays':
+    case 'weekly': {
+      let next = addDays(day, 1);
+      // A week always contains a match, so this stops within seven steps
+      while (rule.type === 'weekdays' ? isWeekend(next) : !rule.days.includes(next.getDay())) {
+        next = addDays(next, 1);
+      }
+      return next;
+    }
+    case 'monthly-day':
+    case 'monthly-weekday': {
+      for (let offset = 0; ; offset++) {
+        const month = addMonths(startOfMonth(day), offset);
+        const candidate = rule.type === 'monthly-day'
+          ? setDate(month, Math.min(rule.day, getDaysInMonth(month)))
+          : nthWeekdayOfMonth(month, rule.week, rule.weekday);
+        if (isAfter(candidate, day)) return candidate;
+      }
+    }
+  }
+}
+
+// Calendar rules follow the due date, but skip occurrences that are already over when a task is
+// finished late; "after completion" counts from the day it was done
+export function getNextDueDate(task: Task, rule: TaskRecurrence, now = new Date()): Date {
+  if (rule.type === 'after-completion') {
+    return getNextScheduledDate(rule, task.completedAt ?? now);
+  }
+  const today = startOfDay(now);
+  let next = getNextScheduledDate(rule, task.dueDate ?? now);
+  while (isBefore(next, today)) {
+    next = getNextScheduledDate(rule, next);
+  }
+  return next;
+}
+
+export function createNextOccurrence(workflow: Workflow, task: Task, rule: TaskRecurrence, now = new Date()): Task {
+  return {
+    id: createId(),
+    title: task.title,
+    description: task.description,
+    status: getInitialStatus(workflow),
+    dueDate: getNextDueDate(task, rule, now),
+    dueTime: task.dueTime,
+    reminderTime: task.reminderTime,
+    priority: task.priority,
+    estimate: task.estimate,
+    checklist: task.checklist?.map(item => ({ ...item, id: createId(), done: false })),
+    completeWithChecklist: task.completeWithChecklist,
+    labelIds: task.labelIds,
+    assigneeIds: task.assigneeIds,
+    customFields: task.customFields,
+    recurrence: rule,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Tasks that just reached the done column hand their rule on to a freshly created next instance.
+// The rule moves rather than being copied, so reopening and completing again cannot spawn twice.
+export function spawnRecurrences(
+  workflow: Workflow,
+  prev: Task[],
+  next: Task[],
+  now = new Date()
+): { tasks: Task[]; spawned: Task[] } {
+  const wasDone = new Map(prev.map(task => [task.id, isDoneStatus(workflow, task.status)]));
+  const spawned: Task[] = [];
+  const tasks = next.map(task => {
+    if (!task.recurrence || !isDoneStatus(workflow, task.status) || wasDone.get(task.id) !== false) {
+      return task;
+    }
+    spawned.push(createNextOccurrence(workflow, task, task.recurrence, now));
+    return { ...task, recurrence: undefined };
+  });
+  return spawned.length > 0 ? { tasks: [...tasks, ...spawned], spawned } : { tasks: next, spawned };
+}
+
+// Sanitize a rule read back from an export file
+export function parseRecurrence(raw: unknown): TaskRecurrence | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const rule = raw as Record<string, unknown>;
+  const isWeekday = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+
+  switch (rule.type) {
+    case 'daily':
+    case 'weekdays':
+      return { type: rule.type };
+    case 'weekly': {
+      const days = Array.isArray(rule.days) ? [...new Set(rule.days.filter(isWeekday))] : [];
+      return days.length > 0 ? { type: 'weekly', days } : undefined;
+    }
+    case 'monthly-day': {
+      const day = Number(rule.day);
+      return Number.isInteger(day) && day >= 1 && day <= 31 ? { type: 'monthly-day', day } : undefined;
+    }
+    case 'monthly-weekday': {
+      const week = Number(rule.week);
+      return [1, 2, 3, 4, -1].includes(week) && isWeekday(rule.weekday)
+        ? { type: 'monthly-weekday', week: week as 1 | 2 | 3 | 4 | -1, weekday: rule.weekday }
+        : undefined;
+    }
+    case 'after-completion': {
+      const intervalDays = Number(rule.intervalDays);
+      return Number.isInteger(intervalDays) && intervalDays >= 1 && intervalDays <= MAX_RECURRENCE_INTERVAL_DAYS
+        ? { type: 'after-completion', intervalDays }
+        : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
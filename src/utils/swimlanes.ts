@@ -0,0 +1,161 @@
+import { addWeeks, endOfWeek, isBefore, isToday, startOfDay } from 'date-fns';
+import { ColumnColor, Task, TaskPriority } from '@/types/task';
+import { TaskLabel } from '@/types/board';
+import { Person } from '@/types/person';
+import { PRIORITY_LEVELS, getPriority } from './priority';
+
+export type SwimlaneGrouping = 'none' | 'assignee' | 'label' | 'priority' | 'due';
+
+export const SWIMLANE_GROUPINGS: Array<{ value: SwimlaneGrouping; label: string }> = [
+  { value: 'none', label: 'No swimlanes' },
+  { value: 'assignee', label: 'By assignee' },
+  { value: 'label', label: 'By label' },
+  { value: 'priority', label: 'By priority' },
+  { value: 'due', label: 'By due date' },
+];
+
+// The lane for tasks without an assignee, label or due date
+export const EMPTY_LANE_ID = 'none';
+
+type DueBucket = 'overdue' | 'today' | 'this-week' | 'later' | typeof EMPTY_LANE_ID;
+
+const DUE_BUCKETS: Array<{ id: DueBucket; title: string }> = [
+  { id: 'overdue', title: 'Overdue' },
+  { id: 'today', title: 'Today' },
+  { id: 'this-week', title: 'Later this week' },
+  { id: 'later', title: 'Later' },
+  { id: EMPTY_LANE_ID, title: 'No due date' },
+];
+
+export interface Swimlane {
+  id: string;
+  title: string;
+  color?: ColumnColor;
+  canDrop: boolean; // e.g. a task cannot be dragged into being overdue
+  tasks: Task[];
+}
+
+export interface SwimlaneContext {
+  labels: TaskLabel[];
+  people: Person[];
+  now?: Date;
+}
+
+export function isSwimlaneGrouping(value: unknown): value is SwimlaneGrouping {
+  return SWIMLANE_GROUPINGS.some(option => option.value === value);
+}
+
+function getDueBucket(task: Task, now: Date): DueBucket {
+  if (!task.dueDate) return EMPTY_LANE_ID;
+  if (isToday(task.dueDate)) return 'today';
+  if (isBefore(task.dueDate, startOfDay(now))) return 'overdue';
+  return isBefore(task.dueDate, endOfWeek(now)) ? 'this-week' : 'later';
+}
+
+// A task sits in exactly one lane. With several assignees or labels, the task's first one decides.
+export function getLaneId(task: Task, grouping: SwimlaneGrouping, context: SwimlaneContext): string {
+  switch (grouping) {
+    case 'assignee':
+      return task.assigneeIds?.find(id => context.people.some(person => person.id === id)) ?? EMPTY_LANE_ID;
+    case 'label':
+      return task.labelIds?.find(id => context.labels.some(label => label.id === id)) ?? EMPTY_LANE_ID;
+    case 'priority':
+      return getPriority(task);
+    case 'due':
+      return getDueBucket(task, context.now ?? new Date());
+    default:
+      return EMPTY_LANE_ID;
+  }
+}
+
+// Every possible lane is listed, empty ones included, so tasks can be dragged into them
+export function buildSwimlanes(tasks: Task[], grouping: SwimlaneGrouping, context: SwimlaneContext): Swimlane[] {
+  let lanes: Array<Omit<Swimlane, 'tasks'>>;
+  switch (grouping) {
+    case 'assignee':
+      lanes = [
+        ...context.people.map(person => ({ id: person.id, title: person.name, color: person.color, canDrop: true })),
+        { id: EMPTY_LANE_ID, title: 'Unassigned', canDrop: true },
+      ];
+      break;
+    case 'label':
+      lanes = [
+        ...context.labels.map(label => ({ id: label.id, title: label.name, color: label.color, canDrop: true })),
+        { id: EMPTY_LANE_ID, title: 'No label', canDrop: true },
+      ];
+      break;
+    case 'priority':
+      lanes = PRIORITY_LEVELS.map(level => ({ id: level.value, title: level.label, canDrop: true }));
+      break;
+    case 'due': {
+      // On the last day of the week there is no "later this week" left to move a task to
+      const isWeekOver = isToday(endOfWeek(context.now ?? new Date()));
+      lanes = DUE_BUCKETS.map(bucket => ({
+        ...bucket,
+        canDrop: bucket.id !== 'overdue' && !(bucket.id === 'this-week' && isWeekOver),
+      }));
+      break;
+    }
+    default:
+      return [{ id: EMPTY_LANE_ID, title: '', canDrop: true, tasks }];
+  }
+
+  const tasksByLane = new Map<string, Task[]>();
+  for (const task of tasks) {
+    const laneId = getLaneId(task, grouping, context);
+    tasksByLane.set(laneId, [...(tasksByLane.get(laneId) ?? []), task]);
+  }
+  return lanes.map(lane => ({ ...lane, tasks: tasksByLane.get(lane.id) ?? [] }));
+}
+
+// Swap the lane's value in for the one the task was grouped by, keeping any others after it
+function replaceId(ids: string[] | undefined, fromId: string, toId: string): string[] | undefined {
+  if (toId === EMPTY_LANE_ID) return undefined;
+  const kept = (ids ?? []).filter(id => id !== fromId && id !== toId);
+  return [toId, ...kept];
+}
+
+function getBucketDueDate(bucket: string, now: Date): Date | undefined {
+  switch (bucket) {
+    case 'today':
+      return startOfDay(now);
+    case 'this-week':
+      return startOfDay(endOfWeek(now));
+    case 'later':
+      return startOfDay(addWeeks(now, 1));
+    default:
+      return undefined;
+  }
+}
+
+// Give a task the attribute of the lane it was dropped into
+export function moveToLane(
+  task: Task,
+  grouping: SwimlaneGrouping,
+  fromLaneId: string,
+  toLaneId: string,
+  now = new Date()
+): Task {
+  if (fromLaneId === toLaneId) return task;
+  switch (grouping) {
+    case 'assignee':
+      return { ...task, assigneeIds: replaceId(task.assigneeIds, fromLaneId, toLaneId), updatedAt: now };
+    case 'label':
+      return { ...task, labelIds: replaceId(task.labelIds, fromLaneId, toLaneId), updatedAt: now };
+    case 'priority':
+      return {
+        ...task,
+        priority: toLaneId === 'none' ? undefined : toLaneId as TaskPriority,
+        updatedAt: now,
+      };
+    case 'due': {
+      const dueDate = getBucketDueDate(toLaneId, now);
+      // Without a due date there is nothing left to remind about
+      return dueDate
+        ? { ...task, dueDate, notificationSent: false, updatedAt: now }
+        : { ...task, dueDate: undefined, dueTime: undefined, reminderTime: undefined, notificationSent: false, updatedAt: now };
+    }
+    default:
+      return task;
+  }
+}
@@ -0,0 +1,134 @@
+import { createId } from './ids';
+
+// Sent after a tab has written to the repository, so other tabs of the app can reload
+export type SyncMessage =
+  | { type: 'boards-changed' }
+  | { type: 'tasks-changed'; boardId: string }
+  | { type: 'events-changed'; boardId: string }
+  | { type: 'history-changed'; boardId: string };
+
+const CHANNEL_NAME = 'kanban-sync';
+// Browsers without BroadcastChannel get the message through a storage event on this key instead
+const SYNC_KEY = 'kanban-sync';
+const leaseKey = (name: string) => `kanban-lease:${name}`;
+
+export const TAB_ID = createId();
+
+const listeners = new Set<(message: SyncMessage) => void>();
+let channel: BroadcastChannel | null | undefined;
+
+const BOARD_MESSAGE_TYPES = new Set<unknown>(['tasks-changed', 'events-changed', 'history-changed']);
+
+function isSyncMessage(value: unknown): value is SyncMessage {
+  const message = value as { type?: unknown; boardId?: unknown } | null;
+  if (message?.type === 'boards-changed') return true;
+  return BOARD_MESSAGE_TYPES.has(message?.type) && typeof message?.boardId === 'string';
+}
+
+function dispatch(value: unknown) {
+  if (isSyncMessage(value)) listeners.forEach(listener => listener(value));
+}
+
+function handleStorage(event: StorageEvent) {
+  if (event.key !== SYNC_KEY || !event.newValue) return;
+  try {
+    dispatch(JSON.parse(event.newValue).message);
+  } catch (error) {
+    console.error('Failed to read sync message:', error);
+  }
+}
+
+// One connection per tab; a channel never hears its own messages, so neither does this tab
+function connect() {
+  if (channel !== undefined) return;
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event) => dispatch(event.data);
+  } else {
+    channel = null;
+    window.addEventListener('storage', handleStorage);
+  }
+}
+
+export function broadcast(message: SyncMessage) {
+  connect();
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+  try {
+    // The id makes every write a change, so repeating a message still fires the event
+    localStorage.setItem(SYNC_KEY, JSON.stringify({ message, id: createId() }));
+    localStorage.removeItem(SYNC_KEY);
+  } catch (error) {
+    console.error('Failed to notify other tabs:', error);
+  }
+}
+
+export function subscribe(listener: (message: SyncMessage) => void): () => void {
+  connect();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Fold what another tab saved into this tab's records. Of two versions of a record the one updated
+// last wins. `base` is what this tab last read or wrote, which tells a record removed on one side
+// from one added on the other; a removed record stays removed unless the other side edited it.
+export function mergeRecords<T extends { id: string; updatedAt: Date }>(base: T[], local: T[], stored: T[]): T[] {
+  const baseById = new Map(base.map(record => [record.id, record]));
+  const localById = new Map(local.map(record => [record.id, record]));
+  const storedIds = new Set(stored.map(record => record.id));
+  const isNewer = (a: T, b: T) => new Date(a.updatedAt).getTime() > new Date(b.updatedAt).getTime();
+
+  const merged: T[] = [];
+  for (const record of stored) {
+    const localRecord = localById.get(record.id);
+    const baseRecord = baseById.get(record.id);
+    if (!localRecord) {
+      // Removed here, unless it was edited elsewhere after we last saw it
+      if (!baseRecord || isNewer(record, baseRecord)) merged.push(record);
+    } else {
+      merged.push(isNewer(localRecord, record) ? localRecord : record);
+    }
+  }
+  for (const record of local) {
+    if (storedIds.has(record.id)) continue;
+    const baseRecord = baseById.get(record.id);
+    // Not saved yet, or removed elsewhere while we were editing it
+    if (!baseRecord || record !== baseRecord) merged.push(record);
+  }
+  return merged;
+}
+
+interface Lease {
+  tabId: string;
+  expiresAt: number;
+}
+
+export const LEASE_DURATION = 10000;
+
+function readLease(name: string): Lease | undefined {
+  try {
+    const lease = JSON.parse(localStorage.getItem(leaseKey(name)) ?? 'null') as Lease | null;
+    return typeof lease?.tabId === 'string' && typeof lease.expiresAt === 'number' ? lease : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Claims or renews a lease that only one tab holds at a time. A free lease is claimed first and only
+// held once the claim is still there on the next call, so two tabs claiming at once settle on one.
+export function renewLease(name: string, now = Date.now()): boolean {
+  const lease = readLease(name);
+  const isHeld = lease?.tabId === TAB_ID;
+  if (isHeld || !lease || lease.expiresAt < now) {
+    localStorage.setItem(leaseKey(name), JSON.stringify({ tabId: TAB_ID, expiresAt: now + LEASE_DURATION }));
+  }
+  return isHeld;
+}
+
+export function releaseLease(name: string) {
+  if (readLease(name)?.tabId === TAB_ID) localStorage.removeItem(leaseKey(name));
+}
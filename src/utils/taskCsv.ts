@@ -0,0 +1,105 @@
+import { format, isValid, parse } from 'date-fns';
+import { CustomField, TaskLabel } from '@/types/board';
+import { Person } from '@/types/person';
+import { CustomFieldValue, Task, Workflow } from '@/types/task';
+import { customFieldFromText, customFieldToText, getCustomFieldValue } from './customFields';
+import { getTaskLabels } from './labels';
+import { getAssignees } from './people';
+import { PRIORITY_LEVELS, getPriority, getPriorityLevel } from './priority';
+import { getColumnTitle } from './workflow';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+const COLUMNS = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  dueDate: 'Due date',
+  dueTime: 'Due time',
+  estimate: 'Estimate',
+  labels: 'Labels',
+  assignees: 'Assignees',
+};
+
+interface TaskCsvContext {
+  workflow: Workflow;
+  labels: TaskLabel[];
+  people: Person[];
+  customFields: CustomField[];
+}
+
+const joinNames = (items: Array<{ name: string }>) => items.map(item => item.name).join('; ');
+const splitNames = (text: string | undefined) => (text ?? '').split(';').map(name => name.trim()).filter(Boolean);
+
+// One row per task with its columns, labels and people by name, then a column per custom field
+export function tasksToRows(tasks: Task[], { workflow, labels, people, customFields }: TaskCsvContext): string[][] {
+  const header = [...Object.values(COLUMNS), ...customFields.map(field => field.name)];
+  const rows = tasks.map(task => [
+    task.title,
+    task.description,
+    getColumnTitle(workflow, task.status),
+    getPriority(task) !== 'none' ? getPriorityLevel(getPriority(task)).label : '',
+    task.dueDate ? format(new Date(task.dueDate), DATE_FORMAT) : '',
+    task.dueTime ?? '',
+    task.estimate?.toString() ?? '',
+    joinNames(getTaskLabels(task, labels)),
+    joinNames(getAssignees(task, people)),
+    ...customFields.map(field => customFieldToText(field, getCustomFieldValue(task, field))),
+  ]);
+  return [header, ...rows];
+}
+
+// Read a CSV file into the same shape as a JSON export, so both go through one import. Columns are
+// found by header name in any order; labels and people named in the file are created if missing,
+// and columns naming none of the board's custom fields are ignored.
+export function parseTaskRows(rows: string[][], { workflow, customFields }: Omit<TaskCsvContext, 'labels' | 'people'>) {
+  const [header = [], ...body] = rows;
+  const indexOf = (name: string) => header.findIndex(cell => cell.trim().toLowerCase() === name.toLowerCase());
+  const columnIndex = Object.fromEntries(
+    Object.entries(COLUMNS).map(([key, name]) => [key, indexOf(name)])
+  ) as Record<keyof typeof COLUMNS, number>;
+  const fieldIndex = customFields.map(field => ({ field, index: indexOf(field.name) })).filter(({ index }) => index !== -1);
+  if (columnIndex.title === -1) return undefined;
+
+  const labelNames = new Set<string>();
+  const personNames = new Set<string>();
+  const tasks = body.map(row => {
+    const cell = (key: keyof typeof COLUMNS) => (columnIndex[key] === -1 ? '' : row[columnIndex[key]] ?? '').trim();
+    const status = cell('status').toLowerCase();
+    const priority = cell('priority').toLowerCase();
+    const dueDate = parse(cell('dueDate'), DATE_FORMAT, new Date());
+    const estimate = cell('estimate');
+    const labels = splitNames(cell('labels'));
+    const assignees = splitNames(cell('assignees'));
+    labels.forEach(name => labelNames.add(name));
+    assignees.forEach(name => personNames.add(name));
+
+    const values: Record<string, CustomFieldValue> = {};
+    for (const { field, index } of fieldIndex) {
+      const value = customFieldFromText(field, row[index] ?? '');
+      if (value !== undefined) values[field.id] = value;
+    }
+
+    return {
+      title: cell('title'),
+      description: cell('description'),
+      status: workflow.columns.find(column => column.title.toLowerCase() === status || column.id === status)?.id,
+      priority: PRIORITY_LEVELS.find(level => level.label.toLowerCase() === priority || level.value === priority)?.value,
+      dueDate: isValid(dueDate) ? dueDate.toISOString() : undefined,
+      dueTime: cell('dueTime') || undefined,
+      estimate: estimate ? Number(estimate) : undefined,
+      labelIds: labels,
+      assigneeIds: assignees,
+      customFields: values,
+    };
+  });
+
+  // Names double as ids here; the import matches them against the board's labels and people by name
+  return {
+    labels: [...labelNames].map(name => ({ id: name, name })),
+    people: [...personNames].map(name => ({ id: name, name })),
+    customFields,
+    tasks,
+  };
+}
@@ -0,0 +1,93 @@
+import { Task } from '@/types/task';
+import { HistoryEntry, TaskChange } from '@/types/history';
+import { createId } from './ids';
+import { diffRecords } from './taskRepository';
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+// Describe the step from one task list to the next, or null when nothing changed
+export function createHistoryEntry(label: string, prev: Task[], next: Task[]): HistoryEntry | null {
+  const { changed, removedIds, orderChanged } = diffRecords(prev, next);
+  const prevById = new Map(prev.map(task => [task.id, task]));
+
+  const changes: TaskChange[] = [
+    ...changed.map(task => ({ taskId: task.id, before: prevById.get(task.id) ?? null, after: task })),
+    ...removedIds.map(id => ({ taskId: id, before: prevById.get(id)!, after: null })),
+  ];
+
+  if (changes.length === 0 && !orderChanged) return null;
+
+  return {
+    id: createId(),
+    label,
+    timestamp: new Date(),
+    changes,
+    order: orderChanged
+      ? { before: prev.map(task => task.id), after: next.map(task => task.id) }
+      : undefined,
+  };
+}
+
+type TaskField = keyof Task;
+
+// Dates, arrays and nested objects compare by content
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// The fields a change touched, leaving out the timestamp every edit bumps
+function changedFields(from: Task, to: Task): TaskField[] {
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)] as TaskField[]);
+  return [...fields].filter(field => field !== 'updatedAt' && !sameValue(from[field], to[field]));
+}
+
+// Replay an entry backwards (undo) or forwards (redo) on top of the current tasks. Only the fields
+// the entry changed are put back, so edits made since to other fields, e.g. in another tab, are
+// kept. Returns null, changing nothing, when a task was changed elsewhere in a way the entry would
+// overwrite: one of its fields edited again, or the task created or removed.
+export function applyHistoryEntry(tasks: Task[], entry: HistoryEntry, direction: 'undo' | 'redo'): Task[] | null {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const now = new Date();
+  const appended: string[] = [];
+
+  for (const change of entry.changes) {
+    const [from, to] = direction === 'undo' ? [change.after, change.before] : [change.before, change.after];
+    const current = byId.get(change.taskId);
+
+    if (!from) {
+      // Brings back a removed task
+      if (current || !to) return null;
+      appended.push(change.taskId);
+      byId.set(change.taskId, { ...to, updatedAt: now });
+    } else if (!to) {
+      // Removes a task, unless it was edited since
+      if (current && changedFields(from, current).length > 0) return null;
+      byId.delete(change.taskId);
+    } else {
+      if (!current) return null;
+      const fields = changedFields(from, to);
+      if (fields.some(field => !sameValue(current[field], from[field]))) return null;
+      const restored = { ...current };
+      for (const field of fields) {
+        if (to[field] === undefined) {
+          delete (restored as Partial<Task>)[field];
+        } else {
+          (restored as Record<TaskField, unknown>)[field] = to[field];
+        }
+      }
+      // Restored states count as fresh edits so they win over older copies elsewhere
+      byId.set(change.taskId, { ...restored, updatedAt: now });
+    }
+  }
+
+  const order = direction === 'undo' ? entry.order?.before : entry.order?.after;
+  const baseOrder = order ?? [...tasks.map(task => task.id), ...appended];
+  const seen = new Set<string>();
+  const result: Task[] = [];
+  for (const id of [...baseOrder, ...byId.keys()]) {
+    const task = byId.get(id);
+    if (task && !seen.has(id)) {
+      seen.add(id);
+      result.push(task);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,232 @@
+import { Board } from '@/types/board';
+import { Task } from '@/types/task';
+import { TaskHistory } from '@/types/history';
+import { TaskEvent } from '@/types/activity';
+import { TaskAttachment } from '@/types/attachment';
+import { STORES, openDatabase, requestToPromise, taskOrderKey, transactionDone } from './db';
+
+export interface RecoveredBlob {
+  id: string;
+  source: string;
+  content: string;
+  createdAt: Date;
+}
+
+// Everything the UI needs from storage; components never touch IndexedDB directly
+export interface TaskRepository {
+  listBoards(): Promise<Board[]>;
+  saveBoards(boards: Board[]): Promise<void>;
+  deleteBoard(boardId: string): Promise<void>;
+  listTasks(boardId: string): Promise<Task[]>;
+  saveTasks(boardId: string, tasks: Task[]): Promise<void>;
+  deleteTasks(taskIds: string[]): Promise<void>;
+  saveTaskOrder(boardId: string, taskIds: string[]): Promise<void>;
+  loadHistory(boardId: string): Promise<TaskHistory | undefined>;
+  saveHistory(boardId: string, history: TaskHistory): Promise<void>;
+  listEvents(boardId: string): Promise<TaskEvent[]>;
+  appendEvents(events: TaskEvent[]): Promise<void>;
+  listAttachments(boardId: string): Promise<TaskAttachment[]>;
+  saveAttachments(attachments: TaskAttachment[]): Promise<void>;
+  deleteAttachments(attachmentIds: string[]): Promise<void>;
+  deleteTaskAttachments(taskIds: string[]): Promise<void>;
+  listRecoveredBlobs(): Promise<RecoveredBlob[]>;
+  deleteRecoveredBlob(id: string): Promise<void>;
+}
+
+type StoredTask = Task & { boardId: string };
+
+function isValidTaskRecord(record: unknown): record is StoredTask {
+  const task = record as StoredTask;
+  return (
+    typeof task === 'object' &&
+    task !== null &&
+    typeof task.id === 'string' &&
+    typeof task.title === 'string' &&
+    typeof task.status === 'string' &&
+    task.createdAt instanceof Date &&
+    task.updatedAt instanceof Date
+  );
+}
+
+function toTask(record: StoredTask): Task {
+  const { boardId, ...task } = record;
+  return task;
+}
+
+export function createIndexedDbRepository(): TaskRepository {
+  const withStores = async <T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => Promise<T> | T
+  ): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeNames, mode);
+    const done = transactionDone(transaction);
+    try {
+      const result = await work(transaction);
+      await done;
+      return result;
+    } catch (error) {
+      done.catch(() => undefined);
+      throw error;
+    }
+  };
+
+  return {
+    listBoards: () =>
+      withStores([STORES.boards], 'readonly', (transaction) =>
+        requestToPromise<Board[]>(transaction.objectStore(STORES.boards).getAll())
+          .then(boards => boards.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()))
+      ),
+
+    saveBoards: (boards) =>
+      withStores([STORES.boards], 'readwrite', (transaction) => {
+        const store = transaction.objectStore(STORES.boards);
+        boards.forEach(board => store.put(board));
+      }),
+
+    deleteBoard: (boardId) =>
+      withStores(
+        [STORES.boards, STORES.tasks, STORES.meta, STORES.history, STORES.events, STORES.attachments],
+        'readwrite',
+        async (transaction) => {
+          transaction.objectStore(STORES.boards).delete(boardId);
+          transaction.objectStore(STORES.meta).delete(taskOrderKey(boardId));
+          transaction.objectStore(STORES.history).delete(boardId);
+          const tasks = transaction.objectStore(STORES.tasks);
+          const events = transaction.objectStore(STORES.events);
+          const attachments = transaction.objectStore(STORES.attachments);
+          const [taskKeys, eventKeys, attachmentKeys] = await Promise.all([
+            requestToPromise(tasks.index('boardId').getAllKeys(boardId)),
+            requestToPromise(events.index('boardId').getAllKeys(boardId)),
+            requestToPromise(attachments.index('boardId').getAllKeys(boardId)),
+          ]);
+          taskKeys.forEach(key => tasks.delete(key));
+          eventKeys.forEach(key => events.delete(key));
+          attachmentKeys.forEach(key => attachments.delete(key));
+        }
+      ),
+
+    // Records that no longer look like tasks are moved aside for recovery rather than dropped
+    listTasks: (boardId) =>
+      withStores([STORES.tasks, STORES.meta, STORES.recovery], 'readwrite', async (transaction) => {
+        const tasksStore = transaction.objectStore(STORES.tasks);
+        const [records, order] = await Promise.all([
+          requestToPromise<unknown[]>(tasksStore.index('boardId').getAll(boardId)),
+          requestToPromise<string[] | undefined>(transaction.objectStore(STORES.meta).get(taskOrderKey(boardId))),
+        ]);
+
+        const tasks: Task[] = [];
+        for (const record of records) {
+          if (isValidTaskRecord(record)) {
+            tasks.push(toTask(record));
+          } else {
+            const id = (record as { id?: unknown })?.id;
+            transaction.objectStore(STORES.recovery).put({
+              id: `task:${String(id)}@${Date.now()}`,
+              source: `Board ${boardId}`,
+              content: JSON.stringify(record, null, 2),
+              createdAt: new Date(),
+            });
+            if (typeof id === 'string') tasksStore.delete(id);
+          }
+        }
+
+        const position = new Map((order ?? []).map((id, index) => [id, index]));
+        return tasks.sort((a, b) =>
+          (position.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (position.get(b.id) ?? Number.MAX_SAFE_INTEGER) ||
+          a.createdAt.getTime() - b.createdAt.getTime()
+        );
+      }),
+
+    saveTasks: (boardId, tasks) =>
+      withStores([STORES.tasks], 'readwrite', (transaction) => {
+        const store = transaction.objectStore(STORES.tasks);
+        tasks.forEach(task => store.put({ ...task, boardId }));
+      }),
+
+    deleteTasks: (taskIds) =>
+      withStores([STORES.tasks], 'readwrite', (transaction) => {
+        const store = transaction.objectStore(STORES.tasks);
+        taskIds.forEach(id => store.delete(id));
+      }),
+
+    saveTaskOrder: (boardId, taskIds) =>
+      withStores([STORES.meta], 'readwrite', (transaction) => {
+        transaction.objectStore(STORES.meta).put(taskIds, taskOrderKey(boardId));
+      }),
+
+    loadHistory: (boardId) =>
+      withStores([STORES.history], 'readonly', (transaction) =>
+        requestToPromise<TaskHistory | undefined>(transaction.objectStore(STORES.history).get(boardId))
+      ),
+
+    saveHistory: (boardId, history) =>
+      withStores([STORES.history], 'readwrite', (transaction) => {
+        transaction.objectStore(STORES.history).put(history, boardId);
+      }),
+
+    listEvents: (boardId) =>
+      withStores([STORES.events], 'readonly', (transaction) =>
+        requestToPromise<TaskEvent[]>(transaction.objectStore(STORES.events).index('boardId').getAll(boardId))
+          .then(events => events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()))
+      ),
+
+    // The activity log is append-only; put keeps re-importing the same events idempotent
+    appendEvents: (events) =>
+      withStores([STORES.events], 'readwrite', (transaction) => {
+        const store = transaction.objectStore(STORES.events);
+        events.forEach(event => store.put(event));
+      }),
+
+    listAttachments: (boardId) =>
+      withStores([STORES.attachments], 'readonly', (transaction) =>
+        requestToPromise<TaskAttachment[]>(transaction.objectStore(STORES.attachments).index('boardId').getAll(boardId))
+          .then(attachments => attachments.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()))
+      ),
+
+    saveAttachments: (attachments) =>
+      withStores([STORES.attachments], 'readwrite', (transaction) => {
+        const store = transaction.objectStore(STORES.attachments);
+        attachments.forEach(attachment => store.put(attachment));
+      }),
+
+    deleteAttachments: (attachmentIds) =>
+      withStores([STORES.attachments], 'readwrite', (transaction) => {
+        const store = transaction.objectStore(STORES.attachments);
+        attachmentIds.forEach(id => store.delete(id));
+      }),
+
+    // Looked up in storage, so nothing is missed when the board's attachments have not loaded yet
+    deleteTaskAttachments: (taskIds) =>
+      withStores([STORES.attachments], 'readwrite', async (transaction) => {
+        const store = transaction.objectStore(STORES.attachments);
+        const keys = await Promise.all(taskIds.map(id => requestToPromise(store.index('taskId').getAllKeys(id))));
+        keys.flat().forEach(key => store.delete(key));
+      }),
+
+    listRecoveredBlobs: () =>
+      withStores([STORES.recovery], 'readonly', (transaction) =>
+        requestToPromise<RecoveredBlob[]>(transaction.objectStore(STORES.recovery).getAll())
+      ),
+
+    deleteRecoveredBlob: (id) =>
+      withStores([STORES.recovery], 'readwrite', (transaction) => {
+        transaction.objectStore(STORES.recovery).delete(id);
+      }),
+  };
+}
+
+export const taskRepository: TaskRepository = createIndexedDbRepository();
+
+// What changed between two snapshots of the same record list, compared by reference
+export function diffRecords<T extends { id: string }>(prev: T[], next: T[]) {
+  const prevById = new Map(prev.map(record => [record.id, record]));
+  const nextIds = new Set(next.map(record => record.id));
+
+  return {
+    changed: next.filter(record => prevById.get(record.id) !== record),
+    removedIds: prev.filter(record => !nextIds.has(record.id)).map(record => record.id),
+    orderChanged: prev.length !== next.length || prev.some((record, index) => record.id !== next[index].id),
+  };
+}
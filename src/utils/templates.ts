@@ -0,0 +1,156 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { TaskLabel } from '@/types/board';
+import { ChecklistItem, Task } from '@/types/task';
+import { RelativeDue, RelativeDueUnit, TaskTemplate } from '@/types/template';
+import { MAX_CHECKLIST_ITEM_LENGTH, createChecklistItem } from './checklist';
+import { createId } from './ids';
+import { getTaskLabels } from './labels';
+import { MAX_DESCRIPTION_LENGTH } from './markdown';
+
+export const MAX_TEMPLATE_CATEGORY_LENGTH = 30;
+export const DEFAULT_TEMPLATE_CATEGORY = 'General';
+const MAX_RELATIVE_DUE = 999;
+
+const UNIT_NAMES: Record<RelativeDueUnit, [string, string]> = {
+  days: ['day', 'days'],
+  weeks: ['week', 'weeks'],
+  months: ['month', 'months'],
+};
+
+// The fields a template fills in on a new task
+export interface TemplateTaskFields {
+  title: string;
+  description: string;
+  checklist?: ChecklistItem[];
+  labelIds?: string[];
+  dueDate?: Date;
+  dueTime?: string;
+  reminderTime?: number;
+}
+
+export function formatRelativeDue(due: RelativeDue): string {
+  if (due.amount === 0) return 'Same day';
+  const [singular, plural] = UNIT_NAMES[due.unit];
+  return `+${due.amount} ${due.amount === 1 ? singular : plural}`;
+}
+
+// Reads "+3 days", "2 weeks", "1m" or "today"; anything else is undefined
+export function parseRelativeDue(text: string): RelativeDue | undefined {
+  const trimmed = text.trim().toLowerCase();
+  if (trimmed === 'today' || trimmed === 'same day') return { amount: 0, unit: 'days' };
+  const match = /^\+?\s*(\d+)\s*([a-z]*)$/.exec(trimmed);
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  // A bare number means days; otherwise any start of a unit name will do, like "d" or "mo"
+  const unit = match[2]
+    ? (Object.keys(UNIT_NAMES) as RelativeDueUnit[]).find(u => u.startsWith(match[2]))
+    : 'days';
+  return unit && amount <= MAX_RELATIVE_DUE ? { amount, unit } : undefined;
+}
+
+export function resolveRelativeDue(due: RelativeDue, anchor: Date): Date {
+  const day = startOfDay(anchor);
+  switch (due.unit) {
+    case 'weeks':
+      return addWeeks(day, due.amount);
+    case 'months':
+      return addMonths(day, due.amount);
+    default:
+      return addDays(day, due.amount);
+  }
+}
+
+// How far after the anchor a date falls, in days; dates already past count as the same day
+export function relativeDueFrom(date: Date, anchor: Date): RelativeDue {
+  return { amount: Math.min(Math.max(differenceInCalendarDays(date, anchor), 0), MAX_RELATIVE_DUE), unit: 'days' };
+}
+
+export function createTaskTemplate(fields: Omit<TaskTemplate, 'id' | 'createdAt' | 'updatedAt'>): TaskTemplate {
+  const now = new Date();
+  return { ...fields, id: createId(), createdAt: now, updatedAt: now };
+}
+
+// The due date is kept relative to today, so a task due in three days makes a "+3 days" template
+export function createTemplateFromTask(task: Task, labels: TaskLabel[], now = new Date()): TaskTemplate {
+  const labelNames = getTaskLabels(task, labels).map(label => label.name);
+  return createTaskTemplate({
+    title: task.title,
+    description: task.description,
+    category: DEFAULT_TEMPLATE_CATEGORY,
+    checklist: task.checklist?.length ? task.checklist.map(item => item.text) : undefined,
+    labelNames: labelNames.length > 0 ? labelNames : undefined,
+    due: task.dueDate ? relativeDueFrom(new Date(task.dueDate), now) : undefined,
+    dueTime: task.dueTime,
+    reminderTime: task.reminderTime,
+  });
+}
+
+// Labels the board does not have are skipped rather than created
+export function applyTemplate(template: TaskTemplate, labels: TaskLabel[], now = new Date()): TemplateTaskFields {
+  const names = new Set((template.labelNames ?? []).map(name => name.toLowerCase()));
+  const labelIds = labels.filter(label => names.has(label.name.toLowerCase())).map(label => label.id);
+  const dueDate = template.due ? resolveRelativeDue(template.due, now) : undefined;
+  return {
+    title: template.title,
+    description: template.description,
+    checklist: template.checklist?.length ? template.checklist.map(createChecklistItem) : undefined,
+    labelIds: labelIds.length > 0 ? labelIds : undefined,
+    dueDate,
+    // A time or reminder means nothing without a date to hang it on
+    dueTime: dueDate ? template.dueTime : undefined,
+    reminderTime: dueDate ? template.reminderTime : undefined,
+  };
+}
+
+export function matchesTemplate(template: TaskTemplate, query: string): boolean {
+  const lowercaseQuery = query.trim().toLowerCase();
+  return [template.title, template.description, template.category].some(text =>
+    text.toLowerCase().includes(lowercaseQuery)
+  );
+}
+
+// Categories in alphabetical order, each with its templates by title
+export function groupTemplatesByCategory(templates: TaskTemplate[]): Array<{ category: string; templates: TaskTemplate[] }> {
+  const groups = new Map<string, TaskTemplate[]>();
+  for (const template of templates) {
+    groups.set(template.category, [...(groups.get(template.category) ?? []), template]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([category, items]) => ({ category, templates: [...items].sort((a, b) => a.title.localeCompare(b.title)) }));
+}
+
+export function parseRelativeDueValue(raw: unknown): RelativeDue | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const { amount, unit } = raw as Partial<RelativeDue>;
+  if (typeof amount !== 'number' || !Number.isInteger(amount) || amount < 0 || amount > MAX_RELATIVE_DUE) return undefined;
+  return unit && unit in UNIT_NAMES ? { amount, unit } : undefined;
+}
+
+// Sanitize templates read back from storage
+export function parseTaskTemplates(raw: unknown): TaskTemplate[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(item => typeof item?.id === 'string' && typeof item?.title === 'string' && item.title.trim())
+    .map(item => {
+      const strings = (value: unknown) =>
+        Array.isArray(value) ? value.filter((s): s is string => typeof s === 'string' && !!s.trim()) : [];
+      const checklist = strings(item.checklist).map(text => text.slice(0, MAX_CHECKLIST_ITEM_LENGTH));
+      const labelNames = strings(item.labelNames);
+      return {
+        id: item.id,
+        title: item.title.trim().slice(0, 100),
+        description: typeof item.description === 'string' ? item.description.slice(0, MAX_DESCRIPTION_LENGTH) : '',
+        category: typeof item.category === 'string' && item.category.trim()
+          ? item.category.trim().slice(0, MAX_TEMPLATE_CATEGORY_LENGTH)
+          : DEFAULT_TEMPLATE_CATEGORY,
+        checklist: checklist.length > 0 ? checklist : undefined,
+        labelNames: labelNames.length > 0 ? labelNames : undefined,
+        due: parseRelativeDueValue(item.due),
+        dueTime: typeof item.dueTime === 'string' && /^\d{2}:\d{2}$/.test(item.dueTime) ? item.dueTime : undefined,
+        reminderTime: typeof item.reminderTime === 'number' && item.reminderTime >= 0 ? item.reminderTime : undefined,
+        createdAt: new Date(item.createdAt ?? Date.now()),
+        updatedAt: new Date(item.updatedAt ?? Date.now()),
+      };
+    });
+}
@@ -0,0 +1,160 @@
+import { format, isValid, startOfDay, startOfWeek } from 'date-fns';
+import { Task, TaskStatus, TimeEntry, Workflow } from '@/types/task';
+import { createId } from './ids';
+import { withStatus } from './workflow';
+
+export const MAX_TIME_ENTRY_NOTE_LENGTH = 200;
+
+export type TimesheetGrouping = 'day' | 'week';
+
+export interface TimesheetRow {
+  task: Task;
+  entry: TimeEntry;
+  duration: number; // ms
+}
+
+export interface TimesheetGroup {
+  start: Date;
+  label: string;
+  total: number; // ms
+  rows: TimesheetRow[];
+}
+
+export function getRunningEntry(task: Task): TimeEntry | undefined {
+  return task.timeEntries?.find(entry => !entry.end);
+}
+
+export function getEntryDuration(entry: TimeEntry, now = new Date()): number {
+  return Math.max(0, (entry.end ?? now).getTime() - entry.start.getTime());
+}
+
+export function getTrackedTime(task: Task, now = new Date()): number {
+  return (task.timeEntries ?? []).reduce((total, entry) => total + getEntryDuration(entry, now), 0);
+}
+
+// "2h 05m" for longer spans, "12m" or "45s" for short ones
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${totalSeconds % 60}s`;
+}
+
+export function stopTimer(task: Task, now = new Date()): Task {
+  if (!getRunningEntry(task)) return task;
+  return {
+    ...task,
+    timeEntries: task.timeEntries!.map(entry => entry.end ? entry : { ...entry, end: now }),
+    updatedAt: now,
+  };
+}
+
+// The workflow's timer column, if starting a timer should move the task there. Tasks only ever
+// move ahead, never back from a column that comes later.
+export function getTimerStatus(workflow: Workflow, task: Task): TaskStatus | undefined {
+  const timerIndex = workflow.columns.findIndex(column => column.id === workflow.timerColumnId);
+  const index = workflow.columns.findIndex(column => column.id === task.status);
+  return timerIndex !== -1 && index < timerIndex ? workflow.timerColumnId : undefined;
+}
+
+// Starting one timer stops whichever other one was running
+export function startTimer(workflow: Workflow, tasks: Task[], taskId: string, now = new Date()): Task[] {
+  return tasks.map(task => {
+    if (task.id !== taskId) return stopTimer(task, now);
+    if (getRunningEntry(task)) return task;
+
+    const started: Task = {
+      ...task,
+      timeEntries: [...(task.timeEntries ?? []), { id: createId(), start: now }],
+      updatedAt: now,
+    };
+    const timerStatus = getTimerStatus(workflow, task);
+    return timerStatus ? withStatus(workflow, started, timerStatus, now) : started;
+  });
+}
+
+export function createTimeEntry(start: Date, end: Date, note = ''): TimeEntry {
+  const trimmed = note.trim().slice(0, MAX_TIME_ENTRY_NOTE_LENGTH);
+  return { id: createId(), start, end, note: trimmed || undefined };
+}
+
+// A manual edit must keep the end after the start, and a running entry cannot start in the future
+export function isValidTimeEntry(entry: TimeEntry, now = new Date()): boolean {
+  if (!isValid(entry.start)) return false;
+  if (!entry.end) return entry.start.getTime() <= now.getTime();
+  return isValid(entry.end) && entry.end.getTime() > entry.start.getTime();
+}
+
+// Entries are filed under the day (or week) they started, even when they run past midnight
+export function buildTimesheet(tasks: Task[], grouping: TimesheetGrouping, now = new Date()): TimesheetGroup[] {
+  const groups = new Map<number, TimesheetGroup>();
+  for (const task of tasks) {
+    for (const entry of task.timeEntries ?? []) {
+      const start = grouping === 'day' ? startOfDay(entry.start) : startOfWeek(entry.start, { weekStartsOn: 1 });
+      let group = groups.get(start.getTime());
+      if (!group) {
+        group = {
+          start,
+          label: grouping === 'day' ? format(start, 'EEEE, MMM d, yyyy') : `Week of ${format(start, 'MMM d, yyyy')}`,
+          total: 0,
+          rows: [],
+        };
+        groups.set(start.getTime(), group);
+      }
+      const duration = getEntryDuration(entry, now);
+      group.total += duration;
+      group.rows.push({ task, entry, duration });
+    }
+  }
+  return [...groups.values()]
+    .sort((a, b) => b.start.getTime() - a.start.getTime())
+    .map(group => ({ ...group, rows: group.rows.sort((a, b) => a.entry.start.getTime() - b.entry.start.getTime()) }));
+}
+
+export function timesheetToRows(
+  groups: TimesheetGroup[],
+  getColumnTitle: (task: Task) => string
+): string[][] {
+  const header = ['Date', 'Task', 'Column', 'Start', 'End', 'Duration (hours)', 'Note'];
+  const rows = groups.flatMap(group =>
+    group.rows.map(({ task, entry, duration }) => [
+      format(entry.start, 'yyyy-MM-dd'),
+      task.title,
+      getColumnTitle(task),
+      format(entry.start, 'yyyy-MM-dd HH:mm'),
+      entry.end ? format(entry.end, 'yyyy-MM-dd HH:mm') : '',
+      (duration / 3_600_000).toFixed(2),
+      entry.note ?? '',
+    ])
+  );
+  return [header, ...rows];
+}
+
+// Revive the Date fields of stored entries
+export function reviveTimeEntries(entries: TimeEntry[] | undefined): TimeEntry[] | undefined {
+  return entries?.map(entry => ({
+    ...entry,
+    start: new Date(entry.start),
+    end: entry.end ? new Date(entry.end) : undefined,
+  }));
+}
+
+// Sanitize entries read back from an export file. A timer still running in the file is dropped,
+// since it would otherwise keep counting from a start time on another machine.
+export function parseTimeEntries(raw: unknown): TimeEntry[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const entries = raw
+    .filter(entry => typeof entry === 'object' && entry !== null && entry.end)
+    .map(entry => ({
+      id: typeof entry.id === 'string' ? entry.id : createId(),
+      start: new Date(entry.start),
+      end: new Date(entry.end),
+      note: typeof entry.note === 'string' && entry.note.trim()
+        ? entry.note.trim().slice(0, MAX_TIME_ENTRY_NOTE_LENGTH)
+        : undefined,
+    }))
+    .filter(entry => isValidTimeEntry(entry));
+  return entries.length > 0 ? entries : undefined;
+}
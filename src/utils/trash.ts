@@ -0,0 +1,37 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { Task } from '@/types/task';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 0 keeps deleted tasks until the trash is emptied by hand
+export const TRASH_RETENTION_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 14, label: '14 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Never' },
+];
+
+export function isTrashed(task: Task): boolean {
+  return task.deletedAt !== undefined;
+}
+
+export function moveToTrash(task: Task, now = new Date()): Task {
+  return { ...task, deletedAt: now, updatedAt: now };
+}
+
+// Status and list position are untouched while in the trash, so the task comes back where it was
+export function restoreFromTrash(task: Task, now = new Date()): Task {
+  const { deletedAt, ...rest } = task;
+  return { ...rest, updatedAt: now };
+}
+
+export function isTrashExpired(task: Task, retentionDays: number, now = new Date()): boolean {
+  if (!task.deletedAt || retentionDays <= 0) return false;
+  return differenceInCalendarDays(now, task.deletedAt) >= retentionDays;
+}
+
+export function daysUntilPurge(task: Task, retentionDays: number, now = new Date()): number | undefined {
+  if (!task.deletedAt || retentionDays <= 0) return undefined;
+  return Math.max(0, retentionDays - differenceInCalendarDays(now, task.deletedAt));
+}
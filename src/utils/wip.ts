@@ -0,0 +1,20 @@
+import { WipMode } from '@/types/board';
+import { WorkflowColumn } from '@/types/task';
+
+export const MAX_WIP_LIMIT = 99;
+
+export const WIP_MODES: Array<{ value: WipMode; label: string; description: string }> = [
+  { value: 'soft', label: 'Warn', description: 'Moving a task into a full column shows a warning.' },
+  { value: 'strict', label: 'Block', description: 'Tasks cannot be moved into a full column.' },
+];
+
+// A limit is a whole number of tasks; anything else means the column has none
+export function parseWipLimit(raw: unknown): number | undefined {
+  const value = typeof raw === 'string' ? Number(raw) : raw;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) return undefined;
+  return Math.min(value, MAX_WIP_LIMIT);
+}
+
+export function isOverWipLimit(column: WorkflowColumn, count: number): boolean {
+  return column.wipLimit !== undefined && count > column.wipLimit;
+}
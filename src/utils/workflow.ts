@@ -0,0 +1,157 @@
+import { ColumnColor, Task, TaskStatus, Workflow, WorkflowColumn } from '@/types/task';
+import { parseWipLimit } from './wip';
+
+export const DEFAULT_WORKFLOW: Workflow = {
+  columns: [
+    { id: 'todo', title: 'To Do', color: 'gray' },
+    { id: 'in-progress', title: 'In Progress', color: 'yellow' },
+    { id: 'done', title: 'Done', color: 'green' },
+  ],
+  doneColumnId: 'done',
+  timerColumnId: 'in-progress',
+};
+
+export const MAX_COLUMN_TITLE_LENGTH = 40;
+
+// Tailwind classes for each column color (kept as literals so they survive purging)
+export const COLUMN_COLOR_STYLES: Record<ColumnColor, { column: string; header: string; swatch: string }> = {
+  gray: {
+    column: 'bg-muted/50 border-muted',
+    header: 'text-muted-foreground',
+    swatch: 'bg-muted-foreground',
+  },
+  blue: {
+    column: 'bg-blue-500/10 border-blue-500/30',
+    header: 'text-blue-600 dark:text-blue-400',
+    swatch: 'bg-blue-500',
+  },
+  purple: {
+    column: 'bg-purple-500/10 border-purple-500/30',
+    header: 'text-purple-600 dark:text-purple-400',
+    swatch: 'bg-purple-500',
+  },
+  pink: {
+    column: 'bg-pink-500/10 border-pink-500/30',
+    header: 'text-pink-600 dark:text-pink-400',
+    swatch: 'bg-pink-500',
+  },
+  red: {
+    column: 'bg-red-500/10 border-red-500/30',
+    header: 'text-red-600 dark:text-red-400',
+    swatch: 'bg-red-500',
+  },
+  orange: {
+    column: 'bg-orange-500/10 border-orange-500/30',
+    header: 'text-orange-600 dark:text-orange-400',
+    swatch: 'bg-orange-500',
+  },
+  yellow: {
+    column: 'bg-yellow-500/10 border-yellow-500/30',
+    header: 'text-yellow-600 dark:text-yellow-400',
+    swatch: 'bg-yellow-500',
+  },
+  green: {
+    column: 'bg-green-500/10 border-green-500/30',
+    header: 'text-green-600 dark:text-green-400',
+    swatch: 'bg-green-500',
+  },
+};
+
+export const COLUMN_COLORS = Object.keys(COLUMN_COLOR_STYLES) as ColumnColor[];
+
+export function isColumnColor(value: unknown): value is ColumnColor {
+  return typeof value === 'string' && COLUMN_COLORS.includes(value as ColumnColor);
+}
+
+// Derive a readable, unique column id from its title
+export function createColumnId(title: string, existing: WorkflowColumn[]): TaskStatus {
+  const base = title
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'column';
+
+  let id = base;
+  let suffix = 2;
+  while (existing.some(column => column.id === id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+}
+
+export function getColumn(workflow: Workflow, status: TaskStatus): WorkflowColumn | undefined {
+  return workflow.columns.find(column => column.id === status);
+}
+
+export function getColumnTitle(workflow: Workflow, status: TaskStatus): string {
+  return getColumn(workflow, status)?.title ?? status;
+}
+
+export function isDoneStatus(workflow: Workflow, status: TaskStatus): boolean {
+  return status === workflow.doneColumnId;
+}
+
+// Move a task to another column, keeping track of when it was completed
+export function withStatus(workflow: Workflow, task: Task, status: TaskStatus, now = new Date()): Task {
+  const isDone = isDoneStatus(workflow, status);
+  return {
+    ...task,
+    status,
+    updatedAt: now,
+    completedAt: isDone ? task.completedAt ?? now : undefined,
+  };
+}
+
+// The column new and reopened tasks land in
+export function getInitialStatus(workflow: Workflow): TaskStatus {
+  return workflow.columns[0].id;
+}
+
+// Where a removed column's tasks are relocated to
+export function getFallbackStatus(workflow: Workflow, removedId: TaskStatus): TaskStatus | undefined {
+  return workflow.columns.find(column => column.id !== removedId)?.id;
+}
+
+// Map an arbitrary (e.g. imported) status onto an existing column
+export function normalizeStatus(workflow: Workflow, status: unknown): TaskStatus {
+  if (typeof status === 'string' && getColumn(workflow, status)) {
+    return status;
+  }
+  return getInitialStatus(workflow);
+}
+
+// Validate a stored workflow, falling back to the default for anything unusable
+export function parseWorkflow(raw: unknown): Workflow {
+  if (typeof raw !== 'object' || raw === null) return DEFAULT_WORKFLOW;
+
+  const { columns, doneColumnId, timerColumnId } = raw as Partial<Workflow>;
+  if (!Array.isArray(columns)) return DEFAULT_WORKFLOW;
+
+  const validColumns: WorkflowColumn[] = [];
+  for (const column of columns) {
+    if (
+      typeof column === 'object' &&
+      column !== null &&
+      typeof column.id === 'string' &&
+      typeof column.title === 'string' &&
+      !validColumns.some(c => c.id === column.id)
+    ) {
+      validColumns.push({
+        id: column.id,
+        title: column.title.slice(0, MAX_COLUMN_TITLE_LENGTH),
+        color: isColumnColor(column.color) ? column.color : 'gray',
+        wipLimit: parseWipLimit(column.wipLimit),
+      });
+    }
+  }
+
+  if (validColumns.length === 0) return DEFAULT_WORKFLOW;
+
+  return {
+    columns: validColumns,
+    doneColumnId: validColumns.some(c => c.id === doneColumnId)
+      ? doneColumnId
+      : validColumns[validColumns.length - 1].id,
+    timerColumnId: validColumns.some(c => c.id === timerColumnId) ? timerColumnId : undefined,
+  };
+}